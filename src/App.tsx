@@ -8,6 +8,10 @@ import Login from "./pages/Login";
 import Admin from "./pages/Admin";
 import Production from "./pages/Production";
 import Analytics from "./pages/Analytics";
+import Catalog from "./pages/Catalog";
+import Billing from "./pages/Billing";
+import Dentist from "./pages/Dentist";
+import Tracking from "./pages/Tracking";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -24,6 +28,10 @@ const App = () => (
           <Route path="/admin" element={<Admin />} />
           <Route path="/producao" element={<Production />} />
           <Route path="/analytics" element={<Analytics />} />
+          <Route path="/catalogo" element={<Catalog />} />
+          <Route path="/financeiro" element={<Billing />} />
+          <Route path="/dentista" element={<Dentist />} />
+          <Route path="/rastreio/:token" element={<Tracking />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,133 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FilePen, Trash2, RefreshCw } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { deleteServerDraft, type OrderDraft, type OrderDraftData } from "@/lib/orderDrafts";
+
+interface OrderDraftsListProps {
+  activeDraftId: string | null;
+  onResume: (draft: OrderDraftData, draftId: string) => void;
+}
+
+export function OrderDraftsList({ activeDraftId, onResume }: OrderDraftsListProps) {
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<OrderDraft[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchDrafts = useCallback(async () => {
+    setLoading(true);
+    try {
+      // RLS returns the user's own drafts plus the ones shared by the clinic
+      const { data, error } = await supabase
+        .from('order_drafts')
+        .select('*')
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      setDrafts(data || []);
+    } catch (error) {
+      console.error('Error fetching drafts:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDrafts();
+  }, [fetchDrafts]);
+
+  const handleDelete = async (draft: OrderDraft) => {
+    try {
+      await deleteServerDraft(draft.id);
+      setDrafts(prev => prev.filter(d => d.id !== draft.id));
+      toast({
+        title: "Rascunho excluído",
+        description: "O rascunho foi removido.",
+      });
+    } catch (error) {
+      console.error('Error deleting draft:', error);
+      toast({
+        title: "Erro ao excluir",
+        description: "Não foi possível excluir o rascunho.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-3">
+          <FilePen className="text-burgundy-500" size={20} />
+          Rascunhos da Clínica
+        </CardTitle>
+        <Button variant="outline" size="sm" onClick={fetchDrafts}>
+          <RefreshCw className="mr-1 h-4 w-4" />
+          Atualizar
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Paciente</TableHead>
+              <TableHead>Dentes</TableHead>
+              <TableHead>Última alteração</TableHead>
+              <TableHead className="text-right">Ações</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center py-8">
+                  Carregando rascunhos...
+                </TableCell>
+              </TableRow>
+            ) : drafts.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center py-8">
+                  Nenhum rascunho salvo
+                </TableCell>
+              </TableRow>
+            ) : (
+              drafts.map((draft) => {
+                const data = draft.data as unknown as OrderDraftData;
+                return (
+                  <TableRow key={draft.id}>
+                    <TableCell className="font-medium">
+                      {draft.patient_name || "Sem nome"}
+                      {draft.id === activeDraftId && <Badge variant="secondary" className="ml-2">Em edição</Badge>}
+                    </TableCell>
+                    <TableCell>{data.toothConfigs?.length || 0}</TableCell>
+                    <TableCell>{format(new Date(draft.updated_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-1">
+                        <Button variant="outline" size="sm" onClick={() => onResume(data, draft.id)}>
+                          Retomar
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => handleDelete(draft)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
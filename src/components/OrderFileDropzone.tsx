@@ -0,0 +1,141 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Upload, X, FileText } from "lucide-react";
+import {
+  ORDER_FILE_ACCEPT,
+  ORDER_FILE_CATEGORIES,
+  ORDER_FILE_CATEGORY_LABELS,
+  formatFileSize,
+  guessFileCategory,
+  type OrderFileCategory,
+  type PendingFileUpload,
+  type PendingOrderFile,
+} from "@/lib/orderFiles";
+
+interface OrderFileDropzoneProps {
+  files: PendingOrderFile[];
+  uploads?: Record<string, PendingFileUpload>;
+  onChange: (files: PendingOrderFile[]) => void;
+  disabled?: boolean;
+}
+
+export function OrderFileDropzone({ files, uploads = {}, onChange, disabled }: OrderFileDropzoneProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const addFiles = (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+    const added = Array.from(fileList).map((file) => ({
+      id: crypto.randomUUID(),
+      file,
+      category: guessFileCategory(file),
+    }));
+    onChange([...files, ...added]);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (disabled) return;
+    addFiles(e.dataTransfer.files);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(e.target.files);
+    // Allow picking the same file again after removing it
+    e.target.value = "";
+  };
+
+  const handleCategoryChange = (id: string, category: OrderFileCategory) => {
+    onChange(files.map((f) => (f.id === id ? { ...f, category } : f)));
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(files.filter((f) => f.id !== id));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          if (!disabled) setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => !disabled && inputRef.current?.click()}
+        className={`flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-8 text-center transition-colors ${
+          isDragging ? "border-burgundy-500 bg-burgundy-50" : "border-gray-300 hover:border-gray-400"
+        } ${disabled ? "cursor-not-allowed opacity-60" : "cursor-pointer"}`}
+      >
+        <Upload className="h-8 w-8 text-gray-400" />
+        <p className="text-sm font-medium">Arraste os arquivos aqui ou clique para selecionar</p>
+        <p className="text-xs text-muted-foreground">
+          Escaneamentos (STL, PLY, OBJ), fotos, raio-X e documentos PDF
+        </p>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={ORDER_FILE_ACCEPT}
+          onChange={handleInputChange}
+          className="hidden"
+        />
+      </div>
+
+      {files.length > 0 && (
+        <ul className="space-y-2">
+          {files.map((pending) => {
+            const upload = uploads[pending.id];
+            return (
+              <li
+                key={pending.id}
+                className={`flex items-center gap-3 rounded-md border p-2 ${upload?.status === "error" ? "border-destructive" : ""}`}
+              >
+                <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 flex-1 space-y-1">
+                  <p className="truncate text-sm font-medium">{pending.file.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatFileSize(pending.file.size)}
+                    {upload?.status === "done" && <span className="ml-2 text-green-600">✓ Enviado</span>}
+                    {upload?.status === "error" && <span className="ml-2 text-destructive">Falha no envio</span>}
+                  </p>
+                  {upload?.status === "uploading" && (
+                    <Progress value={(upload.bytesUploaded / Math.max(pending.file.size, 1)) * 100} className="h-1" />
+                  )}
+                </div>
+                <Select
+                  value={pending.category}
+                  onValueChange={(value) => handleCategoryChange(pending.id, value as OrderFileCategory)}
+                  disabled={disabled}
+                >
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ORDER_FILE_CATEGORIES.map((category) => (
+                      <SelectItem key={category} value={category}>
+                        {ORDER_FILE_CATEGORY_LABELS[category]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemove(pending.id)}
+                  disabled={disabled}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Download, FileText, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { ScanViewerDialog } from "@/components/ScanViewerDialog";
+import { formatFileSize, getFileCategoryLabel, isViewableScan, type OrderFile } from "@/lib/orderFiles";
+
+const SIGNED_URL_TTL = 3600;
+
+const FileThumbnail = ({ file }: { file: OrderFile }) => {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const isImage = file.category === 'photo' || file.mime_type?.startsWith('image/');
+
+  useEffect(() => {
+    if (!isImage) return;
+    const loadImage = async () => {
+      const { data } = await supabase.storage
+        .from('order-files')
+        .createSignedUrl(file.storage_path, SIGNED_URL_TTL);
+      if (data) setImageUrl(data.signedUrl);
+    };
+    loadImage();
+  }, [file.storage_path, isImage]);
+
+  if (isImage && imageUrl) {
+    return <img src={imageUrl} alt={file.file_name} className="h-12 w-12 rounded object-cover" />;
+  }
+
+  return (
+    <div className="flex h-12 w-12 items-center justify-center rounded bg-muted">
+      <FileText className="h-5 w-5 text-muted-foreground" />
+    </div>
+  );
+};
+
+interface OrderFilesListProps {
+  orderId: string;
+  canDelete?: boolean;
+}
+
+export function OrderFilesList({ orderId, canDelete = false }: OrderFilesListProps) {
+  const { toast } = useToast();
+  const [files, setFiles] = useState<OrderFile[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchFiles = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('order_files')
+        .select('*')
+        .eq('order_id', orderId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setFiles(data || []);
+    } catch (error) {
+      console.error('Error fetching order files:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    fetchFiles();
+  }, [fetchFiles]);
+
+  const scanFiles = useMemo(() => files.filter(isViewableScan), [files]);
+
+  const handleDownload = async (file: OrderFile) => {
+    const { data, error } = await supabase.storage
+      .from('order-files')
+      .createSignedUrl(file.storage_path, SIGNED_URL_TTL, { download: file.file_name });
+
+    if (error || !data) {
+      console.error('Error creating signed url:', error);
+      toast({
+        title: "Erro ao baixar",
+        description: "Não foi possível gerar o link do arquivo.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    window.open(data.signedUrl, '_blank', 'noopener,noreferrer');
+  };
+
+  const handleDelete = async (file: OrderFile) => {
+    try {
+      const { error: storageError } = await supabase.storage
+        .from('order-files')
+        .remove([file.storage_path]);
+
+      if (storageError) throw storageError;
+
+      const { error } = await supabase
+        .from('order_files')
+        .delete()
+        .eq('id', file.id);
+
+      if (error) throw error;
+
+      setFiles(prev => prev.filter(f => f.id !== file.id));
+      toast({
+        title: "Arquivo excluído",
+        description: `${file.file_name} foi removido do pedido.`,
+      });
+    } catch (error) {
+      console.error('Error deleting order file:', error);
+      toast({
+        title: "Erro ao excluir",
+        description: "Não foi possível excluir o arquivo.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Carregando...</p>;
+  }
+
+  if (files.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nenhum arquivo anexado.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {scanFiles.length > 0 && <ScanViewerDialog files={scanFiles} />}
+      <ul className="space-y-2">
+        {files.map((file) => (
+          <li key={file.id} className="flex items-center gap-3 rounded-md border p-2">
+            <FileThumbnail file={file} />
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-sm font-medium">{file.file_name}</p>
+              <p className="text-xs text-muted-foreground">
+                {formatFileSize(file.size_bytes)} · {format(new Date(file.created_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+              </p>
+            </div>
+            <Badge variant="outline">{getFileCategoryLabel(file.category)}</Badge>
+            <Button variant="outline" size="sm" onClick={() => handleDownload(file)}>
+              <Download className="h-4 w-4" />
+            </Button>
+            {canDelete && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Excluir arquivo</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Tem certeza que deseja excluir {file.file_name}? Esta ação não pode ser desfeita.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={() => handleDelete(file)}
+                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                      Excluir
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
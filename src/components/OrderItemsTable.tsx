@@ -0,0 +1,74 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { getWorkTypeLabel, getImplantTypeLabel, getMaterialLabel } from "@/lib/dentalCatalog";
+import { useDentalCatalog } from "@/hooks/useDentalCatalog";
+import { useToothNumbering } from "@/hooks/useToothNumbering";
+import { formatTooth } from "@/lib/toothNumbering";
+import { formatItemShade, getOrderItemUnits, sortOrderItems, toToothConfigs, type OrderItem } from "@/lib/orderItems";
+import {
+  TOOTH_UNIT_ROLE_LABELS,
+  TOOTH_UNIT_TYPE_LABELS,
+  formatToothUnit,
+  getToothUnitRole,
+  type ToothUnitType,
+} from "@/lib/toothUnits";
+import { Link2 } from "lucide-react";
+
+interface OrderItemsTableProps {
+  items: OrderItem[] | null | undefined;
+}
+
+export function OrderItemsTable({ items }: OrderItemsTableProps) {
+  // Re-render with the catalog labels once they are loaded
+  useDentalCatalog();
+  const numbering = useToothNumbering();
+
+  if (!items || items.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nenhum dente configurado.</p>;
+  }
+
+  const units = getOrderItemUnits(items);
+  const configs = toToothConfigs(items);
+
+  return (
+    <div className="space-y-3">
+      {units.length > 0 && (
+        <div className="space-y-1">
+          {units.map((unit) => (
+            <p key={unit.id} className="flex items-center gap-2 text-sm">
+              <Link2 size={14} className="text-burgundy-700" />
+              {formatToothUnit(unit, configs)}
+            </p>
+          ))}
+        </div>
+      )}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Dente</TableHead>
+            <TableHead>Trabalho</TableHead>
+            <TableHead>Implante</TableHead>
+            <TableHead>Material</TableHead>
+            <TableHead>Cor</TableHead>
+            <TableHead>União</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {sortOrderItems(items).map((item) => (
+            <TableRow key={item.id}>
+              <TableCell className="font-medium">{formatTooth(item.tooth_number, numbering)}</TableCell>
+              <TableCell>{getWorkTypeLabel(item.work_type)}</TableCell>
+              <TableCell>{item.implant_type ? getImplantTypeLabel(item.implant_type) : "-"}</TableCell>
+              <TableCell>{item.material ? getMaterialLabel(item.material) : "-"}</TableCell>
+              <TableCell>{formatItemShade(item)}</TableCell>
+              <TableCell>
+                {item.unit_type
+                  ? `${TOOTH_UNIT_TYPE_LABELS[item.unit_type as ToothUnitType]} (${TOOTH_UNIT_ROLE_LABELS[getToothUnitRole({ workType: item.work_type })].toLowerCase()})`
+                  : "-"}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Tag } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { downloadOrderLabelsPdf, type OrderLabel } from "@/lib/orderLabels";
+
+interface OrderLabelsButtonProps {
+  orders: OrderLabel[];
+  label?: string;
+}
+
+const LABELS_PER_SHEET = 24;
+
+export function OrderLabelsButton({ orders, label = "Etiqueta" }: OrderLabelsButtonProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [startPosition, setStartPosition] = useState(1);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const handleDownload = async () => {
+    setIsGenerating(true);
+    try {
+      await downloadOrderLabelsPdf(orders, startPosition - 1);
+      setOpen(false);
+    } catch (error) {
+      console.error("Error generating order labels:", error);
+      toast({
+        title: "Erro ao gerar etiquetas",
+        description: "Não foi possível gerar as etiquetas.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" disabled={orders.length === 0}>
+          <Tag className="mr-1 h-4 w-4" />
+          {label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3" align="end">
+        <p className="text-sm text-muted-foreground">
+          {orders.length === 1 ? "1 etiqueta" : `${orders.length} etiquetas`} em folha A4 de {LABELS_PER_SHEET} (3 × 8).
+        </p>
+        <div className="space-y-1">
+          <Label htmlFor="label-start-position">Começar na posição</Label>
+          <Input
+            id="label-start-position"
+            type="number"
+            min={1}
+            max={LABELS_PER_SHEET}
+            value={startPosition}
+            onChange={(e) => setStartPosition(Math.min(LABELS_PER_SHEET, Math.max(1, Number(e.target.value) || 1)))}
+          />
+        </div>
+        <Button size="sm" className="w-full" onClick={handleDownload} disabled={isGenerating}>
+          Gerar PDF
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,102 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Receipt } from "lucide-react";
+import { useDentalCatalog } from "@/hooks/useDentalCatalog";
+import { useToothNumbering } from "@/hooks/useToothNumbering";
+import { getImplantTypeLabel, getMaterialLabel, getWorkTypeLabel } from "@/lib/dentalCatalog";
+import { formatTeeth } from "@/lib/toothNumbering";
+import { formatCurrency, type OrderQuote } from "@/lib/pricing";
+
+interface OrderQuoteCardProps {
+  quote: OrderQuote;
+  title?: string;
+}
+
+export function OrderQuoteCard({ quote, title = "Orçamento" }: OrderQuoteCardProps) {
+  useDentalCatalog();
+  const numbering = useToothNumbering();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3">
+          <Receipt className="text-burgundy-500" size={20} />
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {quote.lines.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Selecione os dentes para ver o orçamento.</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Trabalho</TableHead>
+                  <TableHead>Dentes</TableHead>
+                  <TableHead className="text-right">Qtd.</TableHead>
+                  <TableHead className="text-right">Unitário</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {quote.lines.map((line) => (
+                  <TableRow key={line.teeth.join(",")}>
+                    <TableCell>
+                      <span className="font-medium">{getWorkTypeLabel(line.workType)}</span>
+                      {(line.material || line.implantType) && (
+                        <span className="block text-xs text-muted-foreground">
+                          {[line.material && getMaterialLabel(line.material), line.implantType && getImplantTypeLabel(line.implantType)]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatTeeth(line.teeth, numbering)}</TableCell>
+                    <TableCell className="text-right">{line.teeth.length}</TableCell>
+                    <TableCell className="text-right">
+                      {line.unitPrice === null ? <span className="text-muted-foreground">Sem preço</span> : formatCurrency(line.unitPrice)}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(line.total)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <dl className="ml-auto max-w-xs space-y-1 text-sm">
+              <div className="flex justify-between">
+                <dt className="text-muted-foreground">Subtotal</dt>
+                <dd>{formatCurrency(quote.subtotal)}</dd>
+              </div>
+              {quote.discount > 0 && (
+                <div className="flex justify-between">
+                  <dt className="text-muted-foreground">Desconto da clínica ({quote.discountPercent}%)</dt>
+                  <dd>-{formatCurrency(quote.discount)}</dd>
+                </div>
+              )}
+              {quote.surcharge > 0 && (
+                <div className="flex justify-between">
+                  <dt className="text-muted-foreground">
+                    Urgência ({quote.urgencyDays} {quote.urgencyDays === 1 ? "dia" : "dias"}, +{quote.surchargePercent}%)
+                  </dt>
+                  <dd>+{formatCurrency(quote.surcharge)}</dd>
+                </div>
+              )}
+              <div className="flex justify-between border-t pt-1 text-base font-semibold">
+                <dt>Total</dt>
+                <dd>{formatCurrency(quote.total)}</dd>
+              </div>
+            </dl>
+
+            {quote.unpricedTeeth.length > 0 && (
+              <p className="flex items-start gap-2 text-sm text-amber-700">
+                <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+                Sem preço cadastrado para {formatTeeth(quote.unpricedTeeth, numbering)}. O laboratório confirmará o valor desses dentes.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
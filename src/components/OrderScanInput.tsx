@@ -0,0 +1,55 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { ScanLine } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { findScannedOrder } from "@/lib/orderLabels";
+
+interface OrderScanInputProps<T extends { id: string; order_number: string }> {
+  orders: T[];
+  onScan: (order: T) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+// Handheld scanners act as keyboards: they type the label code and press Enter
+export function OrderScanInput<T extends { id: string; order_number: string }>({
+  orders,
+  onScan,
+  placeholder = "Escanear etiqueta",
+  className,
+}: OrderScanInputProps<T>) {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== "Enter" || !code.trim()) return;
+    e.preventDefault();
+
+    const order = findScannedOrder(code, orders);
+    setCode("");
+    if (!order) {
+      toast({
+        title: "Pedido não encontrado",
+        description: `Nenhum pedido corresponde a "${code.trim()}".`,
+        variant: "destructive",
+      });
+      return;
+    }
+    onScan(order);
+  };
+
+  return (
+    <div className={cn("relative", className)}>
+      <ScanLine className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+      <Input
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        className="pl-9"
+        autoComplete="off"
+      />
+    </div>
+  );
+}
@@ -4,11 +4,18 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Input } from "@/components/ui/input";
-import { ClipboardList, Search, FileText, Image, Eye, RefreshCw } from "lucide-react";
+import { ClipboardList, Search, Eye, RefreshCw } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
+import { OrderItemsTable } from "@/components/OrderItemsTable";
+import { OrderFilesList } from "@/components/OrderFilesList";
+import { TrackingLinkButton } from "@/components/TrackingLinkButton";
+import { getOrderItemMaterials, type OrderItem } from "@/lib/orderItems";
+import { getStatusColor, getStatusLabel } from "@/lib/orderWorkflow";
+import { formatTeeth } from "@/lib/toothNumbering";
+import { useToothNumbering } from "@/hooks/useToothNumbering";
 
 interface Order {
   id: string;
@@ -32,6 +39,8 @@ interface Order {
   assigned_to: string | null;
   smile_photo_url: string | null;
   scan_file_url: string | null;
+  order_items: OrderItem[] | null;
+  tracking_token: string;
 }
 
 interface Profile {
@@ -39,78 +48,6 @@ interface Profile {
   username: string;
 }
 
-const STATUS_LABELS: Record<string, string> = {
-  pending: "Pendente",
-  "in-progress": "Em Andamento",
-  completed: "Concluído",
-  projetando: "Projetando",
-  projetado: "Projetado",
-  "fresado-provisorio": "Fresado Provisório",
-  "fresado-definitivo": "Fresado Definitivo",
-  maquiagem: "Maquiagem",
-  "entregue-provisorio": "Entregue Provisório",
-  vazado: "Vazado",
-  pureto: "Pureto",
-};
-
-const STATUS_COLORS: Record<string, string> = {
-  pending: "bg-yellow-100 text-yellow-800 border-yellow-300",
-  "in-progress": "bg-blue-100 text-blue-800 border-blue-300",
-  completed: "bg-green-100 text-green-800 border-green-300",
-  projetando: "bg-blue-100 text-blue-800 border-blue-300",
-  projetado: "bg-indigo-100 text-indigo-800 border-indigo-300",
-  "fresado-provisorio": "bg-orange-100 text-orange-800 border-orange-300",
-  "fresado-definitivo": "bg-purple-100 text-purple-800 border-purple-300",
-  maquiagem: "bg-pink-100 text-pink-800 border-pink-300",
-  "entregue-provisorio": "bg-teal-100 text-teal-800 border-teal-300",
-  vazado: "bg-gray-100 text-gray-800 border-gray-300",
-  pureto: "bg-amber-100 text-amber-800 border-amber-300",
-};
-
-const ImageWithSignedUrl = ({ filePath }: { filePath: string }) => {
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
-
-  useEffect(() => {
-    const loadImage = async () => {
-      const { data } = await supabase.storage
-        .from('order-files')
-        .createSignedUrl(filePath, 3600);
-      if (data) setImageUrl(data.signedUrl);
-    };
-    loadImage();
-  }, [filePath]);
-
-  return imageUrl ? (
-    <img src={imageUrl} alt="Arquivo" className="max-w-full h-auto rounded-lg" />
-  ) : (
-    <div className="text-muted-foreground">Carregando...</div>
-  );
-};
-
-const FileLink = ({ filePath }: { filePath: string }) => {
-  const [fileUrl, setFileUrl] = useState<string | null>(null);
-
-  useEffect(() => {
-    const loadUrl = async () => {
-      const { data } = await supabase.storage
-        .from('order-files')
-        .createSignedUrl(filePath, 3600);
-      if (data) setFileUrl(data.signedUrl);
-    };
-    loadUrl();
-  }, [filePath]);
-
-  return fileUrl ? (
-    <Button asChild variant="outline" size="sm">
-      <a href={fileUrl} target="_blank" rel="noopener noreferrer">
-        Abrir
-      </a>
-    </Button>
-  ) : (
-    <div className="text-muted-foreground text-sm">Carregando...</div>
-  );
-};
-
 const getUserColor = (name: string) => {
   switch(name.toLowerCase()) {
     case 'alexandre': return 'bg-purple-600 text-white';
@@ -121,6 +58,7 @@ const getUserColor = (name: string) => {
 };
 
 export function OrdersList() {
+  const numbering = useToothNumbering();
   const [orders, setOrders] = useState<Order[]>([]);
   const [users, setUsers] = useState<Profile[]>([]);
   const [loading, setLoading] = useState(true);
@@ -143,6 +81,17 @@ export function OrdersList() {
           fetchOrders();
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'order_items'
+        },
+        () => {
+          fetchOrders();
+        }
+      )
       .subscribe();
 
     return () => {
@@ -153,7 +102,7 @@ export function OrdersList() {
   const fetchOrders = async () => {
     const { data, error } = await supabase
       .from('orders')
-      .select('*')
+      .select('*, order_items(*)')
       .order('created_at', { ascending: false });
 
     if (!error && data) {
@@ -189,6 +138,12 @@ export function OrdersList() {
     }
   };
 
+  const formatMaterials = (order: Order) => {
+    const itemMaterials = getOrderItemMaterials(order.order_items);
+    if (itemMaterials.length > 0) return itemMaterials.join(", ");
+    return order.material || "-";
+  };
+
   if (loading) {
     return (
       <Card>
@@ -277,7 +232,10 @@ export function OrdersList() {
                           </DialogTrigger>
                           <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
                             <DialogHeader>
-                              <DialogTitle>Detalhes - OS {order.order_number}</DialogTitle>
+                              <div className="flex items-center justify-between pr-6">
+                                <DialogTitle>Detalhes - OS {order.order_number}</DialogTitle>
+                                <TrackingLinkButton token={order.tracking_token} />
+                              </div>
                             </DialogHeader>
                             <div className="space-y-6">
                               {/* Informações da Clínica */}
@@ -338,20 +296,28 @@ export function OrdersList() {
                                   </div>
                                   <div className="flex gap-2">
                                     <span className="font-medium">Dentes:</span>
-                                    <span>{order.selected_teeth?.join(', ') || '-'}</span>
+                                    <span>{order.selected_teeth?.length ? formatTeeth(order.selected_teeth, numbering) : '-'}</span>
                                   </div>
                                   <div className="flex gap-2">
                                     <span className="font-medium">Status:</span>
                                     <Badge 
                                       variant="outline" 
-                                      className={STATUS_COLORS[order.status] || "bg-gray-100 text-gray-800"}
+                                      className={getStatusColor(order.status)}
                                     >
-                                      {STATUS_LABELS[order.status] || order.status}
+                                      {getStatusLabel(order.status)}
                                     </Badge>
                                   </div>
                                 </div>
                               </div>
 
+                              {/* Configuração por Dente */}
+                              <div>
+                                <h3 className="font-semibold mb-3 text-lg">Configuração por Dente</h3>
+                                <div className="bg-muted p-4 rounded-lg">
+                                  <OrderItemsTable items={order.order_items} />
+                                </div>
+                              </div>
+
                               {/* Configurações Técnicas */}
                               <div>
                                 <h3 className="font-semibold mb-3 text-lg">Configurações Técnicas</h3>
@@ -376,31 +342,10 @@ export function OrdersList() {
                               </div>
 
                               {/* Arquivos */}
-                              {(order.smile_photo_url || order.scan_file_url) && (
-                                <div>
-                                  <h3 className="font-semibold mb-3 text-lg">Arquivos</h3>
-                                  <div className="space-y-4">
-                                    {order.smile_photo_url && (
-                                      <div>
-                                        <h4 className="font-medium mb-2 flex items-center gap-2">
-                                          <Image className="h-4 w-4" />
-                                          Foto do Sorriso
-                                        </h4>
-                                        <ImageWithSignedUrl filePath={order.smile_photo_url} />
-                                      </div>
-                                    )}
-                                    {order.scan_file_url && (
-                                      <div>
-                                        <h4 className="font-medium mb-2 flex items-center gap-2">
-                                          <FileText className="h-4 w-4" />
-                                          Arquivo de Scan
-                                        </h4>
-                                        <FileLink filePath={order.scan_file_url} />
-                                      </div>
-                                    )}
-                                  </div>
-                                </div>
-                              )}
+                              <div>
+                                <h3 className="font-semibold mb-3 text-lg">Arquivos</h3>
+                                <OrderFilesList orderId={order.id} />
+                              </div>
 
                               {/* Observações */}
                               {order.additional_notes && (
@@ -417,14 +362,14 @@ export function OrdersList() {
                       </TableCell>
                       <TableCell>{formatDate(order.date)}</TableCell>
                       <TableCell>{formatDate(order.delivery_deadline)}</TableCell>
-                      <TableCell>{order.material || "-"}</TableCell>
+                      <TableCell>{formatMaterials(order)}</TableCell>
                       <TableCell>{order.color || "-"}</TableCell>
                       <TableCell>
                         <Badge 
                           variant="outline" 
-                          className={STATUS_COLORS[order.status] || "bg-gray-100 text-gray-800"}
+                          className={getStatusColor(order.status)}
                         >
-                          {STATUS_LABELS[order.status] || order.status}
+                          {getStatusLabel(order.status)}
                         </Badge>
                       </TableCell>
                     </TableRow>
@@ -0,0 +1,249 @@
+import { useState, useEffect, useMemo } from "react";
+import { Canvas, type ThreeEvent } from "@react-three/fiber";
+import { OrbitControls, Bounds, Line, Html } from "@react-three/drei";
+import * as THREE from "three";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Box, Ruler, Loader2 } from "lucide-react";
+import { getFileCategoryLabel, type OrderFile } from "@/lib/orderFiles";
+import { loadScanFile } from "@/lib/scanLoader";
+
+interface ScanLayer {
+  file: OrderFile;
+  geometries: THREE.BufferGeometry[];
+  visible: boolean;
+  error: boolean;
+}
+
+const LAYER_COLORS: Record<string, string> = {
+  scan_upper: "#f3e5d0",
+  scan_lower: "#e6cfb8",
+  bite: "#93c5fd",
+};
+const DEFAULT_LAYER_COLOR = "#f3e5d0";
+
+// Pointer moves larger than this (px) are orbit drags, not measurement clicks
+const CLICK_TOLERANCE = 4;
+
+const getLayersBox = (layers: ScanLayer[]) => {
+  const box = new THREE.Box3();
+  layers.forEach((layer) =>
+    layer.geometries.forEach((geometry) => {
+      if (geometry.boundingBox) box.union(geometry.boundingBox);
+    })
+  );
+  return box;
+};
+
+function Measurement({ points, markerSize }: { points: THREE.Vector3[]; markerSize: number }) {
+  if (points.length === 0) return null;
+
+  const [start, end] = points;
+
+  return (
+    <group>
+      {points.map((point, index) => (
+        <mesh key={index} position={point}>
+          <sphereGeometry args={[markerSize, 16, 16]} />
+          <meshBasicMaterial color="#dc2626" depthTest={false} />
+        </mesh>
+      ))}
+      {end && (
+        <>
+          <Line points={[start, end]} color="#dc2626" lineWidth={2} depthTest={false} />
+          <Html position={start.clone().add(end).multiplyScalar(0.5)} center>
+            <div className="whitespace-nowrap rounded bg-white/90 px-2 py-0.5 text-xs font-semibold text-red-700 shadow">
+              {start.distanceTo(end).toFixed(2)} mm
+            </div>
+          </Html>
+        </>
+      )}
+    </group>
+  );
+}
+
+interface ScanViewerDialogProps {
+  files: OrderFile[];
+}
+
+export function ScanViewerDialog({ files }: ScanViewerDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [layers, setLayers] = useState<ScanLayer[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [wireframe, setWireframe] = useState(false);
+  const [measuring, setMeasuring] = useState(false);
+  const [points, setPoints] = useState<THREE.Vector3[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    let loaded: ScanLayer[] = [];
+
+    const loadLayers = async () => {
+      setLoading(true);
+      const results = await Promise.allSettled(files.map((file) => loadScanFile(file)));
+      loaded = results.map((result, index) => {
+        if (result.status === 'rejected') {
+          console.error('Error loading scan file:', result.reason);
+        }
+        return {
+          file: files[index],
+          geometries: result.status === 'fulfilled' ? result.value : [],
+          visible: true,
+          error: result.status === 'rejected',
+        };
+      });
+
+      if (cancelled) {
+        loaded.forEach((layer) => layer.geometries.forEach((geometry) => geometry.dispose()));
+        return;
+      }
+      setLayers(loaded);
+      setLoading(false);
+    };
+
+    loadLayers();
+
+    return () => {
+      cancelled = true;
+      loaded.forEach((layer) => layer.geometries.forEach((geometry) => geometry.dispose()));
+      setLayers([]);
+      setPoints([]);
+      setMeasuring(false);
+    };
+  }, [open, files]);
+
+  // The offset is computed from every layer so hiding an arch does not move the others (or the measurement)
+  const { offset, markerSize } = useMemo(() => {
+    const box = getLayersBox(layers);
+    if (box.isEmpty()) return { offset: new THREE.Vector3(), markerSize: 0.2 };
+    const center = box.getCenter(new THREE.Vector3());
+    return {
+      offset: center.negate(),
+      markerSize: box.getSize(new THREE.Vector3()).length() * 0.004,
+    };
+  }, [layers]);
+
+  const visibleSize = useMemo(() => {
+    const box = getLayersBox(layers.filter((layer) => layer.visible));
+    return box.isEmpty() ? null : box.getSize(new THREE.Vector3());
+  }, [layers]);
+
+  const toggleLayer = (id: string, visible: boolean) => {
+    setLayers((prev) => prev.map((layer) => (layer.file.id === id ? { ...layer, visible } : layer)));
+  };
+
+  const handleMeshClick = (e: ThreeEvent<MouseEvent>) => {
+    if (!measuring || e.delta > CLICK_TOLERANCE) return;
+    e.stopPropagation();
+    const point = e.point.clone();
+    // A third click starts a new measurement
+    setPoints((prev) => (prev.length >= 2 ? [point] : [...prev, point]));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Box className="mr-1 h-4 w-4" />
+          Visualizar 3D
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Visualizador de Escaneamentos</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-4">
+          {layers.map((layer) => (
+            <div key={layer.file.id} className="flex items-center gap-2">
+              <Checkbox
+                id={`layer-${layer.file.id}`}
+                checked={layer.visible}
+                disabled={layer.error}
+                onCheckedChange={(checked) => toggleLayer(layer.file.id, checked === true)}
+              />
+              <Label htmlFor={`layer-${layer.file.id}`} className={layer.error ? "text-destructive" : ""}>
+                {getFileCategoryLabel(layer.file.category)}
+                <span className="ml-1 text-xs text-muted-foreground">
+                  {layer.error ? "(erro ao carregar)" : `(${layer.file.file_name})`}
+                </span>
+              </Label>
+            </div>
+          ))}
+
+          <div className="ml-auto flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch id="scan-wireframe" checked={wireframe} onCheckedChange={setWireframe} />
+              <Label htmlFor="scan-wireframe">Wireframe</Label>
+            </div>
+            <Button
+              variant={measuring ? "default" : "outline"}
+              size="sm"
+              onClick={() => {
+                setMeasuring(!measuring);
+                setPoints([]);
+              }}
+            >
+              <Ruler className="mr-1 h-4 w-4" />
+              Medir
+            </Button>
+          </div>
+        </div>
+
+        <div className="relative h-[60vh] overflow-hidden rounded-lg bg-slate-900">
+          {loading ? (
+            <div className="flex h-full items-center justify-center text-slate-300">
+              <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+              Carregando escaneamentos...
+            </div>
+          ) : (
+            <Canvas camera={{ position: [0, 0, 100], fov: 45, near: 0.1, far: 5000 }}>
+              <ambientLight intensity={0.5} />
+              <directionalLight position={[50, 100, 100]} intensity={0.8} />
+              <directionalLight position={[-50, -50, -100]} intensity={0.3} />
+
+              <Bounds fit clip observe margin={1.2}>
+                <group position={offset}>
+                  {layers
+                    .filter((layer) => layer.visible)
+                    .map((layer) =>
+                      layer.geometries.map((geometry, index) => (
+                        <mesh key={`${layer.file.id}-${index}`} geometry={geometry} onClick={handleMeshClick}>
+                          <meshStandardMaterial
+                            color={geometry.getAttribute('color') ? "#ffffff" : LAYER_COLORS[layer.file.category] || DEFAULT_LAYER_COLOR}
+                            vertexColors={!!geometry.getAttribute('color')}
+                            wireframe={wireframe}
+                            roughness={0.6}
+                            side={THREE.DoubleSide}
+                          />
+                        </mesh>
+                      ))
+                    )}
+                </group>
+              </Bounds>
+
+              <Measurement points={points} markerSize={markerSize} />
+              <OrbitControls makeDefault />
+            </Canvas>
+          )}
+
+          {visibleSize && !loading && (
+            <div className="pointer-events-none absolute bottom-2 left-2 rounded bg-black/60 px-2 py-1 text-xs text-white">
+              Dimensões: {visibleSize.x.toFixed(1)} × {visibleSize.y.toFixed(1)} × {visibleSize.z.toFixed(1)} mm
+            </div>
+          )}
+          {measuring && !loading && (
+            <div className="pointer-events-none absolute right-2 top-2 rounded bg-black/60 px-2 py-1 text-xs text-white">
+              {points.length < 2 ? "Clique em dois pontos do modelo para medir" : "Clique novamente para uma nova medida"}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Palette, X } from "lucide-react";
+import {
+  OTHER_SHADES,
+  STUMP_SHADES,
+  VITA_3D_MASTER_SHADES,
+  VITA_CLASSICAL_SHADES,
+  getShadeSwatch,
+  normalizeShade,
+} from "@/lib/shades";
+
+interface ShadePickerProps {
+  value: string;
+  onChange: (value: string) => void;
+  // "stump" offers the die shades used for the prepared tooth
+  guide?: "tooth" | "stump";
+  placeholder?: string;
+  className?: string;
+  id?: string;
+}
+
+function ShadeGrid({ shades, selected, onSelect }: { shades: string[]; selected: string | null; onSelect: (shade: string) => void }) {
+  return (
+    <div className="grid grid-cols-5 gap-1.5">
+      {shades.map((shade) => (
+        <button
+          key={shade}
+          type="button"
+          onClick={() => onSelect(shade)}
+          className={`flex flex-col items-center gap-1 rounded-md border p-1.5 text-xs font-medium transition-all hover:border-burgundy-400 ${
+            selected === shade ? "border-burgundy-500 ring-2 ring-burgundy-500" : "border-gray-200"
+          }`}
+        >
+          <span className="h-5 w-5 rounded-full border border-gray-300" style={{ backgroundColor: getShadeSwatch(shade) }} />
+          {shade}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function ShadePicker({ value, onChange, guide = "tooth", placeholder = "Selecionar cor", className, id }: ShadePickerProps) {
+  const [open, setOpen] = useState(false);
+  const selected = normalizeShade(value);
+
+  const handleSelect = (shade: string) => {
+    onChange(shade);
+    setOpen(false);
+  };
+
+  const defaultTab = selected && VITA_3D_MASTER_SHADES.includes(selected)
+    ? "3d-master"
+    : selected && OTHER_SHADES.includes(selected)
+      ? "outras"
+      : "classica";
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <div className={`flex items-center gap-1 ${className || ""}`}>
+        <PopoverTrigger asChild>
+          <Button id={id} type="button" variant="outline" className="flex-1 justify-start font-normal">
+            {selected ? (
+              <>
+                <span
+                  className="mr-2 h-4 w-4 rounded-full border border-gray-300"
+                  style={{ backgroundColor: getShadeSwatch(selected) }}
+                />
+                {selected}
+              </>
+            ) : (
+              <>
+                <Palette className="mr-2 h-4 w-4 text-muted-foreground" />
+                <span className="text-muted-foreground">{placeholder}</span>
+              </>
+            )}
+          </Button>
+        </PopoverTrigger>
+        {selected && (
+          <Button type="button" variant="ghost" size="sm" className="px-2" onClick={() => onChange("")} title="Limpar">
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      <PopoverContent className="w-80" align="start">
+        {guide === "stump" ? (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Cor do Substrato</p>
+            <ShadeGrid shades={STUMP_SHADES} selected={selected} onSelect={handleSelect} />
+          </div>
+        ) : (
+          <Tabs defaultValue={defaultTab}>
+            <TabsList className="mb-3 grid w-full grid-cols-3">
+              <TabsTrigger value="classica">Clássica</TabsTrigger>
+              <TabsTrigger value="3d-master">3D-Master</TabsTrigger>
+              <TabsTrigger value="outras">Outras</TabsTrigger>
+            </TabsList>
+            <TabsContent value="classica">
+              <ShadeGrid shades={VITA_CLASSICAL_SHADES} selected={selected} onSelect={handleSelect} />
+            </TabsContent>
+            <TabsContent value="3d-master">
+              <ShadeGrid shades={VITA_3D_MASTER_SHADES} selected={selected} onSelect={handleSelect} />
+            </TabsContent>
+            <TabsContent value="outras">
+              <ShadeGrid shades={OTHER_SHADES} selected={selected} onSelect={handleSelect} />
+            </TabsContent>
+          </Tabs>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,127 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { X } from "lucide-react";
+import type { ToothConfig } from "@/components/tooth-selection";
+import { useDentalCatalog } from "@/hooks/useDentalCatalog";
+import { useToothNumbering } from "@/hooks/useToothNumbering";
+import { formatTooth } from "@/lib/toothNumbering";
+import { TOOTH_UNIT_ROLE_LABELS, TOOTH_UNIT_TYPE_LABELS, getToothUnitRole, sortTeethInArch } from "@/lib/toothUnits";
+import {
+  getActiveItems,
+  getAllowedMaterials,
+  getImplantTypeLabel,
+  getMaterialLabel,
+  getWorkTypeColor,
+  getWorkTypeLabel,
+  type CatalogItem,
+} from "@/lib/dentalCatalog";
+
+interface ToothConfigTableProps {
+  configs: ToothConfig[];
+  onChange: (toothNumber: string, changes: Partial<ToothConfig>) => void;
+  onRemove: (toothNumber: string) => void;
+}
+
+// Active options plus the current value, so teeth set before an item was deactivated keep it
+const withCurrent = (items: CatalogItem[], current: string | undefined, getLabel: (value: string) => string) => {
+  const options = items.map(item => ({ value: item.value, label: item.label }));
+  return !current || options.some(option => option.value === current)
+    ? options
+    : [...options, { value: current, label: getLabel(current) }];
+};
+
+export function ToothConfigTable({ configs, onChange, onRemove }: ToothConfigTableProps) {
+  const { catalog } = useDentalCatalog();
+  const numbering = useToothNumbering();
+
+  const sortedTeeth = sortTeethInArch(configs.map(config => config.toothNumber));
+  const sortedConfigs = sortedTeeth.map(tooth => configs.find(config => config.toothNumber === tooth)!);
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Dente</TableHead>
+          <TableHead>Trabalho</TableHead>
+          <TableHead>Implante</TableHead>
+          <TableHead>Material</TableHead>
+          <TableHead>União</TableHead>
+          <TableHead className="w-[40px]" />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {sortedConfigs.map((config) => (
+          <TableRow key={config.toothNumber}>
+            <TableCell className="font-medium">
+              <span className="flex items-center gap-2">
+                <span className="h-3 w-3 rounded-full" style={{ backgroundColor: getWorkTypeColor(config.workType) }} />
+                {formatTooth(config.toothNumber, numbering)}
+              </span>
+            </TableCell>
+            <TableCell>
+              <Select value={config.workType} onValueChange={(workType) => onChange(config.toothNumber, { workType })}>
+                <SelectTrigger className="h-8 min-w-[150px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {withCurrent(getActiveItems(catalog.workTypes), config.workType, getWorkTypeLabel).map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </TableCell>
+            <TableCell>
+              {config.workType === "sobre_implante" ? (
+                <Select
+                  value={config.implantType || ""}
+                  onValueChange={(implantType) => onChange(config.toothNumber, { implantType })}
+                >
+                  <SelectTrigger className="h-8 min-w-[150px]">
+                    <SelectValue placeholder="Selecione" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {withCurrent(getActiveItems(catalog.implantTypes), config.implantType, getImplantTypeLabel).map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <span className="text-muted-foreground">-</span>
+              )}
+            </TableCell>
+            <TableCell>
+              <Select
+                value={config.material || ""}
+                onValueChange={(material) => onChange(config.toothNumber, { material })}
+              >
+                <SelectTrigger className="h-8 min-w-[150px]">
+                  <SelectValue placeholder="Selecione" />
+                </SelectTrigger>
+                <SelectContent>
+                  {withCurrent(getAllowedMaterials(config.workType), config.material, getMaterialLabel).map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </TableCell>
+            <TableCell className="text-sm">
+              {config.unit
+                ? `${TOOTH_UNIT_TYPE_LABELS[config.unit.type]} (${TOOTH_UNIT_ROLE_LABELS[getToothUnitRole(config)].toLowerCase()})`
+                : "-"}
+            </TableCell>
+            <TableCell>
+              <button
+                type="button"
+                onClick={() => onRemove(config.toothNumber)}
+                className="rounded p-1 text-muted-foreground hover:bg-red-50 hover:text-red-600"
+                title="Remover dente"
+              >
+                <X size={14} />
+              </button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,40 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useToothNumbering } from "@/hooks/useToothNumbering";
+import {
+  TOOTH_NUMBERING_LABELS,
+  TOOTH_NUMBERING_SYSTEMS,
+  saveToothNumbering,
+  type ToothNumbering,
+} from "@/lib/toothNumbering";
+
+export function ToothNumberingSelect() {
+  const { toast } = useToast();
+  const numbering = useToothNumbering();
+
+  const handleChange = async (value: string) => {
+    try {
+      await saveToothNumbering(value as ToothNumbering);
+    } catch (error) {
+      console.error('Error saving tooth numbering:', error);
+      toast({
+        title: "Erro ao salvar",
+        description: "Não foi possível salvar o sistema de numeração.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Select value={numbering} onValueChange={handleChange}>
+      <SelectTrigger className="h-9 w-[170px]" title="Sistema de numeração dos dentes">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {TOOTH_NUMBERING_SYSTEMS.map(system => (
+          <SelectItem key={system} value={system}>{TOOTH_NUMBERING_LABELS[system]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
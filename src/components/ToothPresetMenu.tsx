@@ -0,0 +1,210 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { BookmarkPlus, ChevronDown, Layers, Trash2, Undo2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { ToothConfig } from "@/components/tooth-selection";
+import { useToothNumbering } from "@/hooks/useToothNumbering";
+import { formatTeeth } from "@/lib/toothNumbering";
+import {
+  TOOTH_PRESET_SCOPE_LABELS,
+  deleteToothPreset,
+  fetchToothPresets,
+  formatPresetTeeth,
+  getPresetScope,
+  saveToothPreset,
+  type ToothPreset,
+  type ToothPresetScope,
+} from "@/lib/toothPresets";
+
+interface ToothPresetMenuProps {
+  configs: ToothConfig[];
+  appliedPresetId: string | null;
+  onApply: (preset: ToothPreset) => void;
+  onUndo: () => void;
+}
+
+const SCOPE_ORDER: ToothPresetScope[] = ["lab", "clinic", "personal"];
+
+export function ToothPresetMenu({ configs, appliedPresetId, onApply, onUndo }: ToothPresetMenuProps) {
+  const { toast } = useToast();
+  const numbering = useToothNumbering();
+  const [presets, setPresets] = useState<ToothPreset[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [label, setLabel] = useState("");
+  const [shared, setShared] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchPresets = useCallback(async () => {
+    try {
+      const [{ data: { session } }, loaded] = await Promise.all([supabase.auth.getSession(), fetchToothPresets()]);
+      setUserId(session?.user.id ?? null);
+      setPresets(loaded.filter(preset => preset.active));
+    } catch (error) {
+      console.error('Error fetching presets:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPresets();
+  }, [fetchPresets]);
+
+  const configuredTeeth = configs.filter(config => config.workType);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveToothPreset(label.trim(), configuredTeeth, shared);
+      await fetchPresets();
+      toast({
+        title: "Preset salvo",
+        description: shared
+          ? `"${label.trim()}" está disponível para toda a equipe.`
+          : `"${label.trim()}" está disponível apenas para você.`,
+      });
+      setSaveOpen(false);
+      setLabel("");
+    } catch (error) {
+      console.error('Error saving preset:', error);
+      toast({
+        title: "Erro ao salvar preset",
+        description: "Não foi possível salvar o preset.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (preset: ToothPreset) => {
+    try {
+      await deleteToothPreset(preset.id);
+      setPresets(prev => prev.filter(p => p.id !== preset.id));
+    } catch (error) {
+      console.error('Error deleting preset:', error);
+      toast({
+        title: "Erro ao excluir",
+        description: "Não foi possível excluir o preset.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const appliedPreset = presets.find(preset => preset.id === appliedPresetId);
+
+  return (
+    <>
+      <div className="flex items-center gap-2">
+        {appliedPresetId && (
+          <Button variant="ghost" size="sm" onClick={onUndo} title="Voltar à seleção anterior">
+            <Undo2 className="mr-1 h-4 w-4" />
+            Desfazer preset
+          </Button>
+        )}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant={appliedPresetId ? "default" : "outline"} size="sm">
+              <Layers className="mr-1 h-4 w-4" />
+              {appliedPreset?.label || "Presets"}
+              <ChevronDown className="ml-1 h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-72">
+            {SCOPE_ORDER.map((scope) => {
+              const scopePresets = presets.filter(preset => getPresetScope(preset) === scope);
+              if (scopePresets.length === 0) return null;
+              return (
+                <div key={scope}>
+                  <DropdownMenuLabel>{TOOTH_PRESET_SCOPE_LABELS[scope]}</DropdownMenuLabel>
+                  {scopePresets.map((preset) => (
+                    <DropdownMenuItem key={preset.id} onSelect={() => onApply(preset)} className="flex items-start gap-2">
+                      <div className="flex-1">
+                        <p className="font-medium">{preset.label}</p>
+                        <p className="text-xs text-muted-foreground">{formatPresetTeeth(preset)}</p>
+                      </div>
+                      {preset.created_by === userId && (
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            // Don't apply the preset being deleted
+                            e.stopPropagation();
+                            handleDelete(preset);
+                          }}
+                          className="rounded p-1 text-muted-foreground hover:bg-red-50 hover:text-red-600"
+                          title="Excluir preset"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </button>
+                      )}
+                    </DropdownMenuItem>
+                  ))}
+                  <DropdownMenuSeparator />
+                </div>
+              );
+            })}
+            {presets.length === 0 && (
+              <>
+                <p className="px-2 py-1.5 text-sm text-muted-foreground">Nenhum preset salvo.</p>
+                <DropdownMenuSeparator />
+              </>
+            )}
+            <DropdownMenuItem disabled={configuredTeeth.length === 0} onSelect={() => setSaveOpen(true)}>
+              <BookmarkPlus className="mr-2 h-4 w-4" />
+              Salvar seleção como preset
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <Dialog open={saveOpen} onOpenChange={setSaveOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Salvar como Preset</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="preset-label">Nome</Label>
+              <Input
+                id="preset-label"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="Ex: Protocolo superior em zircônia"
+              />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {configuredTeeth.length} dente(s): {formatTeeth(configuredTeeth.map(config => config.toothNumber), numbering)}
+            </p>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={shared} onCheckedChange={(checked) => setShared(checked === true)} />
+              Compartilhar com a equipe
+            </label>
+            <p className="text-xs text-muted-foreground">
+              Presets compartilhados aparecem para toda a clínica; os salvos pelo laboratório, para todas as clínicas.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveOpen(false)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !label.trim()}>
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
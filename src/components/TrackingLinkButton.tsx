@@ -0,0 +1,36 @@
+import { Button } from "@/components/ui/button";
+import { Link2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getTrackingUrl } from "@/lib/tracking";
+
+interface TrackingLinkButtonProps {
+  token: string;
+}
+
+export function TrackingLinkButton({ token }: TrackingLinkButtonProps) {
+  const { toast } = useToast();
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(getTrackingUrl(token));
+      toast({
+        title: "Link copiado",
+        description: "O link de rastreio foi copiado para a área de transferência.",
+      });
+    } catch (error) {
+      console.error("Error copying tracking link:", error);
+      toast({
+        title: "Erro ao copiar",
+        description: "Não foi possível copiar o link de rastreio.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleCopy}>
+      <Link2 className="mr-1 h-4 w-4" />
+      Link de Rastreio
+    </Button>
+  );
+}
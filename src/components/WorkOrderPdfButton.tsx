@@ -0,0 +1,43 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Printer } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { downloadWorkOrderPdf, type WorkOrder } from "@/lib/workOrderPdf";
+
+interface WorkOrderPdfButtonProps {
+  order: WorkOrder;
+  // Icon-only button for table rows
+  compact?: boolean;
+}
+
+export function WorkOrderPdfButton({ order, compact = false }: WorkOrderPdfButtonProps) {
+  const { toast } = useToast();
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const handleDownload = async () => {
+    setIsGenerating(true);
+    try {
+      await downloadWorkOrderPdf(order);
+    } catch (error) {
+      console.error("Error generating work order PDF:", error);
+      toast({
+        title: "Erro ao gerar PDF",
+        description: "Não foi possível gerar a ordem de serviço.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return compact ? (
+    <Button variant="ghost" size="sm" onClick={handleDownload} disabled={isGenerating} title="Imprimir OS">
+      <Printer className="h-4 w-4" />
+    </Button>
+  ) : (
+    <Button variant="outline" size="sm" onClick={handleDownload} disabled={isGenerating}>
+      <Printer className="mr-1 h-4 w-4" />
+      Imprimir OS
+    </Button>
+  );
+}
@@ -0,0 +1,276 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowDown, ArrowUp, Plus } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  getActiveItems,
+  getCatalogTextColor,
+  toCatalogValue,
+  type CatalogItem,
+  type CatalogKind,
+  type DentalCatalog,
+} from "@/lib/dentalCatalog";
+
+interface CatalogItemsEditorProps {
+  kind: CatalogKind;
+  catalog: DentalCatalog;
+  onChanged: () => Promise<void>;
+}
+
+const getItems = (catalog: DentalCatalog, kind: CatalogKind) =>
+  kind === 'work_type' ? catalog.workTypes : kind === 'implant_type' ? catalog.implantTypes : catalog.materials;
+
+export function CatalogItemsEditor({ kind, catalog, onChanged }: CatalogItemsEditorProps) {
+  const { toast } = useToast();
+  const [newLabel, setNewLabel] = useState("");
+  const [newColor, setNewColor] = useState("#4b5563");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const items = getItems(catalog, kind);
+  const activeMaterials = getActiveItems(catalog.materials);
+
+  const runChange = async (change: () => Promise<void>, errorDescription: string) => {
+    setIsSaving(true);
+    try {
+      await change();
+      await onChanged();
+    } catch (error) {
+      console.error('Error updating catalog:', error);
+      toast({
+        title: "Erro ao salvar catálogo",
+        description: errorDescription,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateItem = (item: CatalogItem, changes: Partial<CatalogItem>) =>
+    runChange(async () => {
+      const { error } = await supabase
+        .from('catalog_items')
+        .update(changes)
+        .eq('id', item.id);
+
+      if (error) throw error;
+    }, `Não foi possível atualizar "${item.label}".`);
+
+  const handleLabelBlur = (item: CatalogItem, label: string) => {
+    const trimmed = label.trim();
+    if (!trimmed || trimmed === item.label) return;
+    updateItem(item, { label: trimmed });
+  };
+
+  const handleAbbreviationBlur = (item: CatalogItem, abbreviation: string) => {
+    const trimmed = abbreviation.trim() || null;
+    if (trimmed === item.abbreviation) return;
+    updateItem(item, { abbreviation: trimmed });
+  };
+
+  const handleLeadTimeBlur = (item: CatalogItem, value: string) => {
+    const days = Number(value);
+    if (!value.trim() || !Number.isInteger(days) || days < 0 || days === item.lead_time_days) return;
+    updateItem(item, { lead_time_days: days });
+  };
+
+  // Swaps the sort order with the neighbouring item
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const item = items[index];
+    const neighbour = items[index + direction];
+    if (!neighbour) return;
+
+    runChange(async () => {
+      const results = await Promise.all([
+        supabase.from('catalog_items').update({ sort_order: neighbour.sort_order }).eq('id', item.id),
+        supabase.from('catalog_items').update({ sort_order: item.sort_order }).eq('id', neighbour.id),
+      ]);
+      const failed = results.find(result => result.error);
+      if (failed) throw failed.error;
+    }, "Não foi possível alterar a ordem.");
+  };
+
+  const handleToggleMaterial = (workType: string, material: string, allowed: boolean) =>
+    runChange(async () => {
+      const { error } = allowed
+        ? await supabase.from('catalog_work_type_materials').insert({ work_type: workType, material })
+        : await supabase.from('catalog_work_type_materials').delete().eq('work_type', workType).eq('material', material);
+
+      if (error) throw error;
+    }, "Não foi possível atualizar os materiais permitidos.");
+
+  const handleAdd = () => {
+    const label = newLabel.trim();
+    const value = toCatalogValue(label);
+    if (!value) return;
+
+    if (items.some(item => item.value === value)) {
+      toast({
+        title: "Item já cadastrado",
+        description: `Já existe um item com o código "${value}". Reative-o na lista.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    runChange(async () => {
+      const { error } = await supabase
+        .from('catalog_items')
+        .insert({
+          kind,
+          value,
+          label,
+          color: newColor,
+          sort_order: Math.max(0, ...items.map(item => item.sort_order)) + 1,
+        });
+
+      if (error) throw error;
+      setNewLabel("");
+    }, `Não foi possível adicionar "${label}".`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-[90px]">Ordem</TableHead>
+            <TableHead className="w-[70px]">Cor</TableHead>
+            <TableHead>Nome</TableHead>
+            <TableHead>Código</TableHead>
+            {kind === 'material' && <TableHead>Abreviação</TableHead>}
+            {kind === 'work_type' && <TableHead>Materiais Permitidos</TableHead>}
+            {kind !== 'implant_type' && (
+              <TableHead title="Dias úteis de produção; para materiais, dias somados ao do trabalho">
+                {kind === 'work_type' ? "Prazo (dias úteis)" : "Dias extras"}
+              </TableHead>
+            )}
+            <TableHead className="text-right">Ativo</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {items.map((item, index) => {
+            const allowedMaterials = catalog.workTypeMaterials[item.value] || [];
+            return (
+              <TableRow key={item.id} className={item.active ? "" : "opacity-60"}>
+                <TableCell>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" className="px-2" disabled={isSaving || index === 0} onClick={() => handleMove(index, -1)}>
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" className="px-2" disabled={isSaving || index === items.length - 1} onClick={() => handleMove(index, 1)}>
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+                <TableCell>
+                  {/* Saved on blur: the picker fires change events continuously while dragging */}
+                  <input
+                    key={item.color}
+                    type="color"
+                    defaultValue={item.color}
+                    onBlur={(e) => e.target.value !== item.color && updateItem(item, { color: e.target.value })}
+                    className="h-8 w-10 cursor-pointer rounded border"
+                    title="Cor do botão"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    key={item.label}
+                    defaultValue={item.label}
+                    onBlur={(e) => handleLabelBlur(item, e.target.value)}
+                    className="h-8"
+                  />
+                </TableCell>
+                <TableCell className="font-mono text-xs text-muted-foreground">{item.value}</TableCell>
+                {kind === 'material' && (
+                  <TableCell>
+                    <Input
+                      key={item.abbreviation || ""}
+                      defaultValue={item.abbreviation || ""}
+                      onBlur={(e) => handleAbbreviationBlur(item, e.target.value)}
+                      placeholder={item.label}
+                      className="h-8 w-[110px]"
+                    />
+                  </TableCell>
+                )}
+                {kind === 'work_type' && (
+                  <TableCell>
+                    <div className="flex flex-wrap gap-3">
+                      {activeMaterials.map((material) => (
+                        <label key={material.value} className="flex items-center gap-1.5 text-sm">
+                          <Checkbox
+                            checked={allowedMaterials.includes(material.value)}
+                            disabled={isSaving}
+                            onCheckedChange={(checked) => handleToggleMaterial(item.value, material.value, checked === true)}
+                          />
+                          {material.label}
+                        </label>
+                      ))}
+                    </div>
+                    {allowedMaterials.length === 0 && (
+                      <p className="mt-1 text-xs text-muted-foreground">Nenhum marcado: aceita qualquer material.</p>
+                    )}
+                  </TableCell>
+                )}
+                {kind !== 'implant_type' && (
+                  <TableCell>
+                    <Input
+                      key={item.lead_time_days}
+                      defaultValue={item.lead_time_days}
+                      onBlur={(e) => handleLeadTimeBlur(item, e.target.value)}
+                      type="number"
+                      min={0}
+                      className="h-8 w-[80px]"
+                    />
+                  </TableCell>
+                )}
+                <TableCell className="text-right">
+                  <Switch
+                    checked={item.active}
+                    disabled={isSaving}
+                    onCheckedChange={(active) => updateItem(item, { active })}
+                  />
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      <div className="flex flex-wrap items-center gap-2 border-t pt-4">
+        <input
+          type="color"
+          value={newColor}
+          onChange={(e) => setNewColor(e.target.value)}
+          className="h-10 w-12 cursor-pointer rounded border"
+          title="Cor do botão"
+        />
+        <Input
+          value={newLabel}
+          onChange={(e) => setNewLabel(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder="Nome do novo item"
+          className="max-w-xs"
+        />
+        <Button onClick={handleAdd} disabled={isSaving || !toCatalogValue(newLabel)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Adicionar
+        </Button>
+        {newLabel.trim() && (
+          <span
+            className="rounded-lg px-3 py-2 text-sm font-medium"
+            style={{ backgroundColor: newColor, color: getCatalogTextColor(newColor) }}
+          >
+            {newLabel.trim()}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
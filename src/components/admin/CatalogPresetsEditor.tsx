@@ -0,0 +1,147 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useToothNumbering } from "@/hooks/useToothNumbering";
+import {
+  TOOTH_PRESET_SCOPE_LABELS,
+  deleteToothPreset,
+  fetchToothPresets,
+  formatPresetTeeth,
+  getPresetScope,
+  updateToothPreset,
+  type ToothPreset,
+} from "@/lib/toothPresets";
+
+export function CatalogPresetsEditor() {
+  const { toast } = useToast();
+  // Re-render the teeth column when the numbering system changes
+  useToothNumbering();
+  const [presets, setPresets] = useState<ToothPreset[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPresets = useCallback(async () => {
+    setLoading(true);
+    try {
+      setPresets(await fetchToothPresets());
+    } catch (error) {
+      console.error('Error fetching presets:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPresets();
+  }, [fetchPresets]);
+
+  const handleUpdate = async (preset: ToothPreset, changes: { label?: string; active?: boolean }) => {
+    try {
+      await updateToothPreset(preset.id, changes);
+      setPresets(prev => prev.map(p => p.id === preset.id ? { ...p, ...changes } : p));
+    } catch (error) {
+      console.error('Error updating preset:', error);
+      toast({
+        title: "Erro ao salvar preset",
+        description: `Não foi possível atualizar "${preset.label}".`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (preset: ToothPreset) => {
+    try {
+      await deleteToothPreset(preset.id);
+      setPresets(prev => prev.filter(p => p.id !== preset.id));
+      toast({
+        title: "Preset excluído",
+        description: `"${preset.label}" foi removido.`,
+      });
+    } catch (error) {
+      console.error('Error deleting preset:', error);
+      toast({
+        title: "Erro ao excluir",
+        description: "Não foi possível excluir o preset.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Para criar um preset, configure os dentes em um novo pedido e use "Salvar como preset". Presets do laboratório ficam disponíveis para todas as clínicas.
+      </p>
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Carregando presets...</p>
+      ) : presets.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nenhum preset cadastrado.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Nome</TableHead>
+              <TableHead>Visibilidade</TableHead>
+              <TableHead>Dentes</TableHead>
+              <TableHead className="text-right">Ativo</TableHead>
+              <TableHead className="w-[60px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {presets.map((preset) => (
+              <TableRow key={preset.id} className={preset.active ? "" : "opacity-60"}>
+                <TableCell>
+                  <Input
+                    key={preset.label}
+                    defaultValue={preset.label}
+                    onBlur={(e) => {
+                      const label = e.target.value.trim();
+                      if (label && label !== preset.label) handleUpdate(preset, { label });
+                    }}
+                    className="h-8"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline">{TOOTH_PRESET_SCOPE_LABELS[getPresetScope(preset)]}</Badge>
+                </TableCell>
+                <TableCell className="text-sm">{formatPresetTeeth(preset)}</TableCell>
+                <TableCell className="text-right">
+                  <Switch
+                    checked={preset.active}
+                    onCheckedChange={(active) => handleUpdate(preset, { active })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-700 hover:bg-red-50">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Excluir preset?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          "{preset.label}" deixará de aparecer na seleção de dentes. Esta ação não pode ser desfeita.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => handleDelete(preset)}>Excluir</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useLabCalendar } from "@/hooks/useLabCalendar";
+import { WEEKDAY_LABELS, formatTimeOfDay, getBrazilianHolidays, parseTimeOfDay } from "@/lib/workingDays";
+
+const formatDate = (date: string) => format(parseISO(date), "dd/MM/yyyy");
+
+export function LabCalendarEditor() {
+  const { toast } = useToast();
+  const { labCalendar, reload } = useLabCalendar();
+  const [isSaving, setIsSaving] = useState(false);
+  const [newStart, setNewStart] = useState("");
+  const [newEnd, setNewEnd] = useState("");
+  const [newReason, setNewReason] = useState("");
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const year = new Date().getFullYear();
+  const upcomingHolidays = [...getBrazilianHolidays(year), ...getBrazilianHolidays(year + 1)]
+    .filter(holiday => holiday.date >= today)
+    .slice(0, 8);
+  const closures = labCalendar.closures.filter(closure => closure.end_date >= today);
+
+  const runChange = async (change: () => Promise<void>, errorDescription: string) => {
+    setIsSaving(true);
+    try {
+      await change();
+      await reload();
+    } catch (error) {
+      console.error('Error updating lab calendar:', error);
+      toast({
+        title: "Erro ao salvar calendário",
+        description: errorDescription,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateSettings = (changes: { work_days?: number[]; work_start?: string; work_end?: string }) =>
+    runChange(async () => {
+      const { error } = await supabase.from('lab_settings').update(changes).eq('id', true);
+      if (error) throw error;
+    }, "Não foi possível atualizar o horário de funcionamento.");
+
+  const handleToggleDay = (day: number, working: boolean) => {
+    const workDays = working
+      ? [...labCalendar.workDays, day].sort((a, b) => a - b)
+      : labCalendar.workDays.filter(d => d !== day);
+    if (workDays.length === 0) return;
+    updateSettings({ work_days: workDays });
+  };
+
+  const handleHoursBlur = (field: "work_start" | "work_end", value: string) => {
+    if (!value) return;
+    const minutes = parseTimeOfDay(value);
+    const start = field === "work_start" ? minutes : labCalendar.workStart;
+    const end = field === "work_end" ? minutes : labCalendar.workEnd;
+    if (end <= start) {
+      toast({
+        title: "Horário inválido",
+        description: "O fechamento precisa ser depois da abertura.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (start === labCalendar.workStart && end === labCalendar.workEnd) return;
+    updateSettings({ [field]: value });
+  };
+
+  const handleAddClosure = () => {
+    const reason = newReason.trim();
+    const endDate = newEnd || newStart;
+    if (!newStart || !reason || endDate < newStart) return;
+
+    runChange(async () => {
+      const { error } = await supabase
+        .from('lab_closures')
+        .insert({ start_date: newStart, end_date: endDate, reason });
+      if (error) throw error;
+      setNewStart("");
+      setNewEnd("");
+      setNewReason("");
+    }, "Não foi possível adicionar o fechamento.");
+  };
+
+  const handleDeleteClosure = (id: string) =>
+    runChange(async () => {
+      const { error } = await supabase.from('lab_closures').delete().eq('id', id);
+      if (error) throw error;
+    }, "Não foi possível remover o fechamento.");
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        Os tempos de produção em horário útil e o prazo sugerido no formulário de pedido só contam os dias e horários
+        abaixo, descontando feriados nacionais e fechamentos programados.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-6">
+        <div className="space-y-2">
+          <Label>Dias de funcionamento</Label>
+          <div className="flex flex-wrap gap-3">
+            {WEEKDAY_LABELS.map((label, day) => (
+              <label key={day} className="flex items-center gap-1.5 text-sm">
+                <Checkbox
+                  checked={labCalendar.workDays.includes(day)}
+                  disabled={isSaving}
+                  onCheckedChange={(checked) => handleToggleDay(day, checked === true)}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="work-start">Abertura</Label>
+          <Input
+            id="work-start"
+            key={`start-${labCalendar.workStart}`}
+            type="time"
+            defaultValue={formatTimeOfDay(labCalendar.workStart)}
+            onBlur={(e) => handleHoursBlur("work_start", e.target.value)}
+            className="w-[120px]"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="work-end">Fechamento</Label>
+          <Input
+            id="work-end"
+            key={`end-${labCalendar.workEnd}`}
+            type="time"
+            defaultValue={formatTimeOfDay(labCalendar.workEnd)}
+            onBlur={(e) => handleHoursBlur("work_end", e.target.value)}
+            className="w-[120px]"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Fechamentos programados</Label>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Início</TableHead>
+              <TableHead>Fim</TableHead>
+              <TableHead>Motivo</TableHead>
+              <TableHead className="w-[60px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {closures.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground">
+                  Nenhum fechamento programado.
+                </TableCell>
+              </TableRow>
+            ) : (
+              closures.map(closure => (
+                <TableRow key={closure.id}>
+                  <TableCell>{formatDate(closure.start_date)}</TableCell>
+                  <TableCell>{formatDate(closure.end_date)}</TableCell>
+                  <TableCell>{closure.reason}</TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="sm" disabled={isSaving} onClick={() => handleDeleteClosure(closure.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+        <div className="flex flex-wrap items-center gap-2">
+          <Input type="date" value={newStart} onChange={(e) => setNewStart(e.target.value)} className="w-[160px]" />
+          <Input
+            type="date"
+            value={newEnd}
+            min={newStart}
+            onChange={(e) => setNewEnd(e.target.value)}
+            className="w-[160px]"
+            title="Deixe em branco para um único dia"
+          />
+          <Input
+            value={newReason}
+            onChange={(e) => setNewReason(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddClosure()}
+            placeholder="Motivo (ex.: férias coletivas)"
+            className="max-w-xs"
+          />
+          <Button onClick={handleAddClosure} disabled={isSaving || !newStart || !newReason.trim()}>
+            <Plus className="mr-2 h-4 w-4" />
+            Adicionar
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Próximos feriados nacionais</Label>
+        <div className="flex flex-wrap gap-2">
+          {upcomingHolidays.map(holiday => (
+            <Badge key={holiday.date} variant="outline">
+              {formatDate(holiday.date)} · {holiday.name}
+            </Badge>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,6 +7,22 @@ import { Pencil, Save, X, Undo2 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
+import { OrderItemsTable } from "@/components/OrderItemsTable";
+import { OrderFilesList } from "@/components/OrderFilesList";
+import { ShadePicker } from "@/components/ShadePicker";
+import { TrackingLinkButton } from "@/components/TrackingLinkButton";
+import { WorkOrderPdfButton } from "@/components/WorkOrderPdfButton";
+import { OrderLabelsButton } from "@/components/OrderLabelsButton";
+import { OrderQuoteCard } from "@/components/OrderQuoteCard";
+import { RemakeOrderDialog } from "@/components/admin/RemakeOrderDialog";
+import type { OrderItem } from "@/lib/orderItems";
+import type { OrderQuote } from "@/lib/pricing";
+import { getRemakeReasonLabel } from "@/lib/orderRemakes";
+import { DELIVERED_STATUSES } from "@/lib/orderWorkflow";
+import type { Json } from "@/integrations/supabase/types";
+import { formatTeeth } from "@/lib/toothNumbering";
+import { useToothNumbering } from "@/hooks/useToothNumbering";
+import { getFieldErrors, orderUpdateSchema } from "@/lib/orderSchema";
 
 interface Order {
   id: string;
@@ -30,19 +46,36 @@ interface Order {
   additional_notes?: string | null;
   assigned_to?: string | null;
   assigned_user?: { username: string } | null;
+  order_items?: OrderItem[] | null;
+  tracking_token?: string;
+  price_quote?: Json | null;
+  clinic_id?: string | null;
+  parent_order_id?: string | null;
+  remake_reason?: string | null;
+  is_warranty?: boolean;
   updated_at: string;
 }
 
+interface RelatedOrder {
+  id: string;
+  order_number: string;
+  remake_reason?: string | null;
+  is_warranty?: boolean;
+}
+
 interface OrderDetailsDialogProps {
   order: Order;
   getStatusBadge: (status: string) => React.ReactNode;
   handleDeliveryDeadlineChange: (orderId: string, deadline: string) => Promise<void>;
   handleAcceptOrder: (orderId: string) => Promise<void>;
   handleUnacceptOrder: (orderId: string) => Promise<void>;
-  ImageWithSignedUrl: React.ComponentType<{ filePath: string }>;
-  FileLink: React.ComponentType<{ filePath: string }>;
   onUpdate: () => void;
   toast: any;
+  // Original order of a remake, and remakes created from this order
+  parentOrder?: RelatedOrder;
+  remakes?: RelatedOrder[];
+  onOpenOrder?: (orderId: string) => void;
+  onRemakeCreated?: (order: { id: string; order_number: string }) => void;
 }
 
 export function OrderDetailsDialog({
@@ -51,11 +84,14 @@ export function OrderDetailsDialog({
   handleDeliveryDeadlineChange,
   handleAcceptOrder,
   handleUnacceptOrder,
-  ImageWithSignedUrl,
-  FileLink,
   onUpdate,
   toast,
+  parentOrder,
+  remakes = [],
+  onOpenOrder,
+  onRemakeCreated,
 }: OrderDetailsDialogProps) {
+  const numbering = useToothNumbering();
   const [isEditing, setIsEditing] = useState(false);
   const [editData, setEditData] = useState({
     clinic_name: order.clinic_name || "",
@@ -95,22 +131,35 @@ export function OrderDetailsDialog({
   };
 
   const handleSaveEdit = async () => {
+    const result = orderUpdateSchema.safeParse({ ...editData, orderDate: order.date });
+
+    if (!result.success) {
+      toast({
+        title: "Dados inválidos",
+        description: Object.values(getFieldErrors(result.error)).join(" "),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const data = result.data;
+
     try {
       const { error } = await supabase
         .from("orders")
         .update({
-          clinic_name: editData.clinic_name || null,
-          email: editData.email || null,
-          phone: editData.phone || null,
-          address: editData.address || null,
-          patient_name: editData.patient_name,
-          patient_id: editData.patient_id || null,
-          dentist_name: editData.dentist_name,
-          material: editData.material || null,
-          prosthesis_type: editData.prosthesis_type || null,
-          color: editData.color || null,
-          delivery_deadline: editData.delivery_deadline || null,
-          additional_notes: editData.additional_notes || null,
+          clinic_name: data.clinic_name || null,
+          email: data.email || null,
+          phone: data.phone || null,
+          address: data.address || null,
+          patient_name: data.patient_name,
+          patient_id: data.patient_id || null,
+          dentist_name: data.dentist_name,
+          material: data.material || null,
+          prosthesis_type: data.prosthesis_type || null,
+          color: data.color || null,
+          delivery_deadline: data.delivery_deadline || null,
+          additional_notes: data.additional_notes || null,
         })
         .eq("id", order.id);
 
@@ -146,6 +195,12 @@ export function OrderDetailsDialog({
             <span className="text-xs text-muted-foreground">
               Última modificação: {formatLastModified(order.updated_at)}
             </span>
+            <WorkOrderPdfButton order={order} />
+            <OrderLabelsButton orders={[order]} />
+            {onRemakeCreated && (DELIVERED_STATUSES as string[]).includes(order.status) && (
+              <RemakeOrderDialog order={order} onCreated={onRemakeCreated} />
+            )}
+            {order.tracking_token && <TrackingLinkButton token={order.tracking_token} />}
             {isEditing ? (
               <div className="flex gap-2">
                 <Button variant="outline" size="sm" onClick={handleCancelEdit}>
@@ -269,15 +324,55 @@ export function OrderDetailsDialog({
             </div>
             <div className="flex gap-2">
               <span className="font-medium min-w-[100px]">Dentes:</span>
-              <span>{order.selected_teeth?.join(", ") || "-"}</span>
+              <span>{order.selected_teeth?.length ? formatTeeth(order.selected_teeth, numbering) : "-"}</span>
             </div>
             <div className="flex gap-2">
               <span className="font-medium min-w-[100px]">Status:</span>
               {getStatusBadge(order.status)}
             </div>
+            {order.parent_order_id && (
+              <div className="flex gap-2 items-center">
+                <span className="font-medium min-w-[100px]">Refação de:</span>
+                {parentOrder ? (
+                  <Button variant="link" className="h-auto p-0" onClick={() => onOpenOrder?.(parentOrder.id)}>
+                    OS {parentOrder.order_number}
+                  </Button>
+                ) : (
+                  <span>-</span>
+                )}
+                <span className="text-sm text-muted-foreground">
+                  ({getRemakeReasonLabel(order.remake_reason)}{order.is_warranty ? ", garantia" : ""})
+                </span>
+              </div>
+            )}
+            {remakes.length > 0 && (
+              <div className="flex gap-2 items-center">
+                <span className="font-medium min-w-[100px]">Refações:</span>
+                <div className="flex flex-wrap gap-x-3">
+                  {remakes.map(remake => (
+                    <Button key={remake.id} variant="link" className="h-auto p-0" onClick={() => onOpenOrder?.(remake.id)}>
+                      OS {remake.order_number} ({getRemakeReasonLabel(remake.remake_reason)})
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         </div>
 
+        {/* Configuração por Dente */}
+        <div>
+          <h3 className="font-semibold mb-3 text-lg">Configuração por Dente</h3>
+          <div className="bg-muted p-4 rounded-lg">
+            <OrderItemsTable items={order.order_items} />
+          </div>
+        </div>
+
+        {/* Quote frozen when the order was submitted */}
+        {order.price_quote && (
+          <OrderQuoteCard quote={order.price_quote as unknown as OrderQuote} title="Orçamento (fixado no envio)" />
+        )}
+
         {/* Configurações Técnicas */}
         <div>
           <h3 className="font-semibold mb-3 text-lg">Configurações Técnicas</h3>
@@ -309,9 +404,9 @@ export function OrderDetailsDialog({
             <div className="flex gap-2 items-center">
               <span className="font-medium min-w-[130px]">Cor / Tonalidade:</span>
               {isEditing ? (
-                <Input
+                <ShadePicker
                   value={editData.color}
-                  onChange={(e) => setEditData({ ...editData, color: e.target.value })}
+                  onChange={(value) => setEditData({ ...editData, color: value })}
                   className="flex-1"
                 />
               ) : (
@@ -337,25 +432,10 @@ export function OrderDetailsDialog({
         </div>
 
         {/* Arquivos */}
-        {(order.smile_photo_url || order.scan_file_url) && (
-          <div>
-            <h3 className="font-semibold mb-3 text-lg">Arquivos</h3>
-            <div className="space-y-4">
-              {order.smile_photo_url && (
-                <div>
-                  <h4 className="font-medium mb-2">Foto do Sorriso</h4>
-                  <ImageWithSignedUrl filePath={order.smile_photo_url} />
-                </div>
-              )}
-              {order.scan_file_url && (
-                <div>
-                  <h4 className="font-medium mb-2">Arquivo de Scan</h4>
-                  <FileLink filePath={order.scan_file_url} />
-                </div>
-              )}
-            </div>
-          </div>
-        )}
+        <div>
+          <h3 className="font-semibold mb-3 text-lg">Arquivos</h3>
+          <OrderFilesList orderId={order.id} canDelete />
+        </div>
 
         {/* Observações */}
         <div>
@@ -0,0 +1,357 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { usePriceTables } from "@/hooks/usePriceTables";
+import {
+  getActiveItems,
+  getAllowedMaterials,
+  getImplantTypeLabel,
+  getMaterialLabel,
+  getWorkTypeLabel,
+  type DentalCatalog,
+} from "@/lib/dentalCatalog";
+import { findPriceEntry, formatCurrency, type PriceTableEntry } from "@/lib/pricing";
+
+interface PriceTableEditorProps {
+  catalog: DentalCatalog;
+}
+
+// Select values standing in for NULL columns
+const LAB_SCOPE = "lab";
+const ANY = "any";
+
+const parsePrice = (value: string) => {
+  const price = Number(value.replace(",", "."));
+  return value.trim() && Number.isFinite(price) && price >= 0 ? Math.round(price * 100) / 100 : null;
+};
+
+export function PriceTableEditor({ catalog }: PriceTableEditorProps) {
+  const { toast } = useToast();
+  const { priceTables, reload } = usePriceTables();
+  const [clinics, setClinics] = useState<{ id: string; name: string }[]>([]);
+  const [scope, setScope] = useState(LAB_SCOPE);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newWorkType, setNewWorkType] = useState("");
+  const [newMaterial, setNewMaterial] = useState(ANY);
+  const [newImplantType, setNewImplantType] = useState(ANY);
+  const [newPrice, setNewPrice] = useState("");
+  const [newMaxDays, setNewMaxDays] = useState("");
+  const [newSurcharge, setNewSurcharge] = useState("");
+
+  useEffect(() => {
+    const fetchClinics = async () => {
+      const { data, error } = await supabase.from('clinics').select('id, name').order('name');
+      if (error) {
+        console.error('Error fetching clinics:', error);
+        return;
+      }
+      setClinics(data);
+    };
+
+    fetchClinics();
+  }, []);
+
+  const clinicId = scope === LAB_SCOPE ? null : scope;
+  const entries = priceTables.entries
+    .filter(entry => entry.clinic_id === clinicId)
+    .sort((a, b) =>
+      getWorkTypeLabel(a.work_type).localeCompare(getWorkTypeLabel(b.work_type)) ||
+      (a.material || "").localeCompare(b.material || "") ||
+      (a.implant_type || "").localeCompare(b.implant_type || "")
+    );
+
+  const runChange = async (change: () => Promise<void>, errorDescription: string) => {
+    setIsSaving(true);
+    try {
+      await change();
+      await reload();
+    } catch (error) {
+      console.error('Error updating prices:', error);
+      toast({
+        title: "Erro ao salvar preços",
+        description: errorDescription,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePriceBlur = (entry: PriceTableEntry, value: string) => {
+    const price = parsePrice(value);
+    if (price === null || price === Number(entry.price)) return;
+    runChange(async () => {
+      const { error } = await supabase.from('price_table_entries').update({ price }).eq('id', entry.id);
+      if (error) throw error;
+    }, "Não foi possível atualizar o preço.");
+  };
+
+  const handleDeleteEntry = (entry: PriceTableEntry) =>
+    runChange(async () => {
+      const { error } = await supabase.from('price_table_entries').delete().eq('id', entry.id);
+      if (error) throw error;
+    }, "Não foi possível remover o preço.");
+
+  const handleAddEntry = () => {
+    const price = parsePrice(newPrice);
+    if (!newWorkType || price === null) return;
+
+    const material = newMaterial === ANY ? null : newMaterial;
+    const implantType = newWorkType === "sobre_implante" && newImplantType !== ANY ? newImplantType : null;
+    if (entries.some(e => e.work_type === newWorkType && e.material === material && e.implant_type === implantType)) {
+      toast({
+        title: "Preço já cadastrado",
+        description: "Já existe um preço para essa combinação nesta tabela. Edite-o na lista.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    runChange(async () => {
+      const { error } = await supabase
+        .from('price_table_entries')
+        .insert({ clinic_id: clinicId, work_type: newWorkType, material, implant_type: implantType, price });
+      if (error) throw error;
+      setNewPrice("");
+    }, "Não foi possível adicionar o preço.");
+  };
+
+  const handleDiscountBlur = (value: string) => {
+    const discount = parsePrice(value) ?? 0;
+    if (!clinicId || discount > 100 || discount === (priceTables.clinicDiscounts[clinicId] || 0)) return;
+    runChange(async () => {
+      const { error } = await supabase
+        .from('clinic_pricing')
+        .upsert({ clinic_id: clinicId, discount_percent: discount });
+      if (error) throw error;
+    }, "Não foi possível salvar o desconto.");
+  };
+
+  const handleAddSurcharge = () => {
+    const maxDays = Number(newMaxDays);
+    const surcharge = parsePrice(newSurcharge);
+    if (!Number.isInteger(maxDays) || maxDays < 0 || surcharge === null) return;
+
+    runChange(async () => {
+      const { error } = await supabase
+        .from('price_urgency_surcharges')
+        .upsert({ max_days: maxDays, surcharge_percent: surcharge }, { onConflict: 'max_days' });
+      if (error) throw error;
+      setNewMaxDays("");
+      setNewSurcharge("");
+    }, "Não foi possível salvar a taxa de urgência.");
+  };
+
+  const handleDeleteSurcharge = (id: string) =>
+    runChange(async () => {
+      const { error } = await supabase.from('price_urgency_surcharges').delete().eq('id', id);
+      if (error) throw error;
+    }, "Não foi possível remover a taxa de urgência.");
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label>Tabela</Label>
+          <Select value={scope} onValueChange={setScope}>
+            <SelectTrigger className="w-[260px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={LAB_SCOPE}>Laboratório (padrão)</SelectItem>
+              {clinics.map(clinic => (
+                <SelectItem key={clinic.id} value={clinic.id}>{clinic.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {clinicId && (
+          <div className="space-y-1">
+            <Label htmlFor="clinic-discount">Desconto da clínica (%)</Label>
+            <Input
+              id="clinic-discount"
+              key={`${clinicId}-${priceTables.clinicDiscounts[clinicId] || 0}`}
+              defaultValue={priceTables.clinicDiscounts[clinicId] || 0}
+              onBlur={(e) => handleDiscountBlur(e.target.value)}
+              inputMode="decimal"
+              className="w-[120px]"
+            />
+          </div>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        {clinicId
+          ? "Preços desta clínica substituem os do laboratório; o que não estiver aqui usa a tabela do laboratório."
+          : "Material ou conexão \"Qualquer\" vale para todos; um preço mais específico tem prioridade."}
+      </p>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Trabalho</TableHead>
+            <TableHead>Material</TableHead>
+            <TableHead>Conexão</TableHead>
+            {clinicId && <TableHead className="text-right">Laboratório</TableHead>}
+            <TableHead className="w-[140px]">Preço (R$)</TableHead>
+            <TableHead className="w-[40px]" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {entries.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={clinicId ? 6 : 5} className="py-6 text-center text-muted-foreground">
+                Nenhum preço cadastrado nesta tabela.
+              </TableCell>
+            </TableRow>
+          ) : (
+            entries.map(entry => {
+              const config = { workType: entry.work_type, material: entry.material || undefined, implantType: entry.implant_type || undefined };
+              const labEntry = clinicId ? findPriceEntry(config, null, priceTables) : undefined;
+              return (
+                <TableRow key={entry.id}>
+                  <TableCell className="font-medium">{getWorkTypeLabel(entry.work_type)}</TableCell>
+                  <TableCell>{entry.material ? getMaterialLabel(entry.material) : "Qualquer"}</TableCell>
+                  <TableCell>
+                    {entry.work_type === "sobre_implante" ? (entry.implant_type ? getImplantTypeLabel(entry.implant_type) : "Qualquer") : "-"}
+                  </TableCell>
+                  {clinicId && (
+                    <TableCell className="text-right text-muted-foreground">
+                      {labEntry ? formatCurrency(Number(labEntry.price)) : "-"}
+                    </TableCell>
+                  )}
+                  <TableCell>
+                    <Input
+                      key={entry.price}
+                      defaultValue={Number(entry.price).toFixed(2)}
+                      onBlur={(e) => handlePriceBlur(entry, e.target.value)}
+                      inputMode="decimal"
+                      className="h-8"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="sm" className="px-2" disabled={isSaving} onClick={() => handleDeleteEntry(entry)} title="Remover preço">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })
+          )}
+        </TableBody>
+      </Table>
+
+      <div className="flex flex-wrap items-center gap-2 border-t pt-4">
+        <Select
+          value={newWorkType}
+          onValueChange={(value) => {
+            setNewWorkType(value);
+            setNewMaterial(ANY);
+            setNewImplantType(ANY);
+          }}
+        >
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="Trabalho" />
+          </SelectTrigger>
+          <SelectContent>
+            {getActiveItems(catalog.workTypes).map(item => (
+              <SelectItem key={item.value} value={item.value}>{item.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={newMaterial} onValueChange={setNewMaterial} disabled={!newWorkType}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Qualquer material</SelectItem>
+            {getAllowedMaterials(newWorkType).map(item => (
+              <SelectItem key={item.value} value={item.value}>{item.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {newWorkType === "sobre_implante" && (
+          <Select value={newImplantType} onValueChange={setNewImplantType}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Qualquer conexão</SelectItem>
+              {getActiveItems(catalog.implantTypes).map(item => (
+                <SelectItem key={item.value} value={item.value}>{item.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Input
+          value={newPrice}
+          onChange={(e) => setNewPrice(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAddEntry()}
+          placeholder="Preço (R$)"
+          inputMode="decimal"
+          className="w-[130px]"
+        />
+        <Button onClick={handleAddEntry} disabled={isSaving || !newWorkType || parsePrice(newPrice) === null}>
+          <Plus className="mr-2 h-4 w-4" />
+          Adicionar
+        </Button>
+      </div>
+
+      {!clinicId && (
+        <div className="space-y-3 border-t pt-4">
+          <div>
+            <h3 className="font-medium">Taxas de urgência</h3>
+            <p className="text-sm text-muted-foreground">
+              Aplicadas ao total (após o desconto) quando o prazo de entrega fica a até N dias da data da solicitação. Vale a faixa mais curta.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {priceTables.urgencySurcharges.map(surcharge => (
+              <span key={surcharge.id} className="flex items-center gap-1 rounded-lg border px-3 py-1 text-sm">
+                Até {surcharge.max_days} {surcharge.max_days === 1 ? "dia" : "dias"}: +{Number(surcharge.surcharge_percent)}%
+                <button
+                  type="button"
+                  onClick={() => handleDeleteSurcharge(surcharge.id)}
+                  disabled={isSaving}
+                  className="rounded p-0.5 text-muted-foreground hover:text-red-600"
+                  title="Remover taxa"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+            {priceTables.urgencySurcharges.length === 0 && (
+              <span className="text-sm text-muted-foreground">Nenhuma taxa cadastrada.</span>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              value={newMaxDays}
+              onChange={(e) => setNewMaxDays(e.target.value)}
+              placeholder="Até N dias"
+              inputMode="numeric"
+              className="w-[120px]"
+            />
+            <Input
+              value={newSurcharge}
+              onChange={(e) => setNewSurcharge(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddSurcharge()}
+              placeholder="Taxa (%)"
+              inputMode="decimal"
+              className="w-[120px]"
+            />
+            <Button variant="outline" onClick={handleAddSurcharge} disabled={isSaving || !newMaxDays || !newSurcharge}>
+              <Plus className="mr-2 h-4 w-4" />
+              Adicionar taxa
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
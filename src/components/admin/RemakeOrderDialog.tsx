@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { REMAKE_REASONS, REMAKE_REASON_LABELS, createRemakeOrder, type RemakeReason } from "@/lib/orderRemakes";
+
+interface RemakeOrderDialogProps {
+  order: Parameters<typeof createRemakeOrder>[0];
+  onCreated: (order: { id: string; order_number: string }) => void;
+  // Icon-only button for table rows
+  compact?: boolean;
+}
+
+export function RemakeOrderDialog({ order, onCreated, compact = false }: RemakeOrderDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<RemakeReason | "">("");
+  const [warranty, setWarranty] = useState(false);
+  const [deliveryDeadline, setDeliveryDeadline] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) {
+      setReason("");
+      setWarranty(false);
+      setDeliveryDeadline("");
+      setNotes("");
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!reason) return;
+    setIsSaving(true);
+    try {
+      const remake = await createRemakeOrder(order, { reason, warranty, deliveryDeadline, notes: notes.trim() });
+      toast({
+        title: "Refação criada",
+        description: `A OS ${remake.order_number} foi criada a partir da OS ${order.order_number}.`,
+      });
+      setOpen(false);
+      onCreated(remake);
+    } catch (error) {
+      console.error('Error creating remake:', error);
+      toast({
+        title: "Erro ao criar refação",
+        description: "Não foi possível criar o pedido de refação.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {compact ? (
+          <Button variant="ghost" size="sm" title="Refação / ajuste">
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm">
+            <RotateCcw className="mr-1 h-4 w-4" />
+            Refação
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Refação / Ajuste - OS {order.order_number}</DialogTitle>
+          <DialogDescription>
+            Cria um novo pedido pendente para {order.patient_name} com a mesma configuração dos dentes, vinculado a esta OS.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Motivo</Label>
+            <Select value={reason} onValueChange={(value) => setReason(value as RemakeReason)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione o motivo" />
+              </SelectTrigger>
+              <SelectContent>
+                {REMAKE_REASONS.map(value => (
+                  <SelectItem key={value} value={value}>{REMAKE_REASON_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={warranty} onCheckedChange={(checked) => setWarranty(checked === true)} />
+            Garantia (sem custo para a clínica)
+          </label>
+          <div className="space-y-1">
+            <Label htmlFor="remake-deadline">Prazo de Entrega</Label>
+            <Input
+              id="remake-deadline"
+              type="date"
+              value={deliveryDeadline}
+              onChange={(e) => setDeliveryDeadline(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="remake-notes">Observações</Label>
+            <Textarea
+              id="remake-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="O que precisa ser ajustado..."
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleCreate} disabled={!reason || isSaving}>
+            Criar Refação
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
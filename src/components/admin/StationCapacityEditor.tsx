@@ -0,0 +1,93 @@
+import { useState, useEffect, useCallback } from "react";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { emptyProductionLoad, fetchProductionLoad } from "@/lib/deliveryEstimates";
+import { BENCH_STATIONS, PRODUCTION_STATION_LABELS, type ProductionStation } from "@/lib/orderWorkflow";
+
+export function StationCapacityEditor() {
+  const { toast } = useToast();
+  const [load, setLoad] = useState(emptyProductionLoad);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const reload = useCallback(async () => {
+    try {
+      setLoad(await fetchProductionLoad());
+    } catch (error) {
+      console.error('Error loading station capacity:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const handleCapacityBlur = async (station: ProductionStation, value: string) => {
+    const dailyUnits = value.trim() ? Number(value) : null;
+    if (dailyUnits !== null && (!Number.isInteger(dailyUnits) || dailyUnits <= 0)) return;
+    if (dailyUnits === (load.capacity[station] ?? null)) return;
+
+    setIsSaving(true);
+    try {
+      const { error } = dailyUnits === null
+        ? await supabase.from('production_station_capacity').delete().eq('station', station)
+        : await supabase.from('production_station_capacity').upsert({ station, daily_units: dailyUnits });
+
+      if (error) throw error;
+      await reload();
+    } catch (error) {
+      console.error('Error updating station capacity:', error);
+      toast({
+        title: "Erro ao salvar capacidade",
+        description: `Não foi possível atualizar a capacidade de ${PRODUCTION_STATION_LABELS[station]}.`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Dentes que cada estação conclui por dia útil. Junto com a fila de pedidos em aberto, define o prazo mínimo sugerido no
+        formulário de pedido. Deixe em branco para não limitar a estação.
+      </p>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Estação</TableHead>
+            <TableHead>Capacidade (dentes/dia)</TableHead>
+            <TableHead className="text-center">Fila atual (dentes)</TableHead>
+            <TableHead className="text-center">Dias de fila</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {BENCH_STATIONS.map(station => {
+            const capacity = load.capacity[station];
+            const backlog = load.backlog[station] || 0;
+            return (
+              <TableRow key={station}>
+                <TableCell className="font-medium">{PRODUCTION_STATION_LABELS[station]}</TableCell>
+                <TableCell>
+                  <Input
+                    key={capacity ?? ""}
+                    defaultValue={capacity ?? ""}
+                    onBlur={(e) => handleCapacityBlur(station, e.target.value)}
+                    disabled={isSaving}
+                    type="number"
+                    min={1}
+                    className="h-8 w-[100px]"
+                  />
+                </TableCell>
+                <TableCell className="text-center">{backlog}</TableCell>
+                <TableCell className="text-center">{capacity ? Math.ceil(backlog / capacity) : "-"}</TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { Canvas } from "@react-three/fiber";
 import { OrbitControls, Html } from "@react-three/drei";
 import { Suspense, useState } from "react";
 import * as THREE from "three";
+import { getStation } from "@/lib/orderWorkflow";
 
 interface Order {
   id: string;
@@ -43,24 +44,6 @@ const USER_POSITIONS: Record<string, [number, number, number]> = {
   henrique: [2, 0, -3],
 };
 
-// Status to station mapping
-const getStation = (status: string): string => {
-  switch (status) {
-    case "pending": return "espera";
-    case "in-progress":
-    case "projetando": return "projeto";
-    case "projetado": return "fresadora";
-    case "fresado-definitivo":
-    case "maquiagem": return "maquiagem";
-    case "fresado-provisorio": return "saida";
-    case "vazado": return "vazado";
-    case "pureto": return "pureto";
-    case "completed":
-    case "entregue-provisorio": return "saida";
-    default: return "espera";
-  }
-};
-
 // Simple Floor Component
 function Floor() {
   return (
@@ -3,6 +3,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Trash2 } from "lucide-react";
+import { DELIVERED_STATUSES } from "@/lib/orderWorkflow";
 
 interface Order {
   id: string;
@@ -65,7 +66,7 @@ export function ProductionSidebar({
   onDeleteStation,
 }: ProductionSidebarProps) {
   const activeOrders = orders.filter(order => 
-    !['completed', 'entregue-provisorio', 'fresado-provisorio'].includes(order.status)
+    !(DELIVERED_STATUSES as string[]).includes(order.status)
   );
 
   const getOrdersByUser = (username: string) => {
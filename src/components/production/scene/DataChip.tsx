@@ -2,6 +2,7 @@ import { useRef, useState } from "react";
 import { useFrame } from "@react-three/fiber";
 import { Text, Html, Float } from "@react-three/drei";
 import * as THREE from "three";
+import { getStatusLabel } from "@/lib/orderWorkflow";
 
 interface Order {
   id: string;
@@ -156,21 +157,3 @@ export function DataChip({
     </group>
   );
 }
-
-function getStatusLabel(status: string): string {
-  const labels: Record<string, string> = {
-    pending: "Pendente",
-    "in-progress": "Em Andamento",
-    projetando: "Projetando",
-    projetado: "Projetado",
-    fresado: "Fresado",
-    "fresado-definitivo": "Fresado Definitivo",
-    "fresado-provisorio": "Fresado Provisório",
-    maquiagem: "Maquiagem",
-    vazado: "Vazado",
-    pureto: "Pureto",
-    completed: "Concluído",
-    "entregue-provisorio": "Entregue Provisório",
-  };
-  return labels[status] || status;
-}
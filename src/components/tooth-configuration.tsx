@@ -1,22 +1,58 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
-import { Settings } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Settings } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { ShadePicker } from "@/components/ShadePicker";
+import type { ToothConfig } from "@/components/tooth-selection";
+import { getWorkTypeLabel } from "@/lib/dentalCatalog";
+import { formatTooth } from "@/lib/toothNumbering";
+import { useToothNumbering } from "@/hooks/useToothNumbering";
+import { STUMP_SHADE_WORK_TYPES, type ToothShade, type ToothShades } from "@/lib/shades";
+import type { DeliveryEstimate } from "@/lib/deliveryEstimates";
+import { PRODUCTION_STATION_LABELS } from "@/lib/orderWorkflow";
+import { getDayOffReason, isWorkingDay } from "@/lib/workingDays";
 
 interface ToothConfigurationProps {
   color?: string;
   deliveryDeadline?: string;
+  // Earliest feasible date from lead times and queue load; null until teeth are selected
+  deliveryEstimate?: DeliveryEstimate | null;
+  toothConfigs?: ToothConfig[];
+  toothShades?: ToothShades;
   onColorChange?: (value: string) => void;
   onDeliveryDeadlineChange?: (value: string) => void;
+  onToothShadesChange?: (value: ToothShades) => void;
+  errors?: { color?: string; deliveryDeadline?: string; toothShades?: string };
 }
 
 export function ToothConfiguration({
   color,
   deliveryDeadline,
+  deliveryEstimate,
+  toothConfigs = [],
+  toothShades = {},
   onColorChange,
-  onDeliveryDeadlineChange
+  onDeliveryDeadlineChange,
+  onToothShadesChange,
+  errors = {}
 }: ToothConfigurationProps) {
+  const numbering = useToothNumbering();
+
+  const handleToothShadeChange = (toothNumber: string, region: keyof ToothShade, value: string) => {
+    const shade = { ...toothShades[toothNumber], [region]: value || undefined };
+    onToothShadesChange?.({ ...toothShades, [toothNumber]: shade });
+  };
+
+  const formatDate = (date: string) => format(parseISO(date), "dd/MM/yyyy (EEEE)", { locale: ptBR });
+  const isDeadlineTooSoon = !!deliveryDeadline && !!deliveryEstimate && deliveryDeadline < deliveryEstimate.earliestDate;
+  const deadlineDayOff = deliveryDeadline ? getDayOffReason(deliveryDeadline) : null;
+
+  const sortedConfigs = [...toothConfigs].sort((a, b) => Number(a.toothNumber) - Number(b.toothNumber));
+
   return (
     <Card>
       <CardHeader>
@@ -29,25 +65,123 @@ export function ToothConfiguration({
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div className="space-y-2">
             <Label htmlFor="cor">Cor / Tonalidade</Label>
-            <Input 
-              id="cor" 
-              placeholder="Ex: A2, B1, etc." 
-              value={color}
-              onChange={(e) => onColorChange?.(e.target.value)}
+            <ShadePicker
+              id="cor"
+              value={color || ""}
+              onChange={(value) => onColorChange?.(value)}
             />
+            {errors.color && <p className="text-sm font-medium text-destructive">{errors.color}</p>}
           </div>
 
           <div className="space-y-2">
             <Label htmlFor="prazo">Prazo de Entrega</Label>
-            <Input 
-              id="prazo" 
-              type="date" 
+            <Input
+              id="prazo"
+              type="date"
               value={deliveryDeadline}
               onChange={(e) => onDeliveryDeadlineChange?.(e.target.value)}
             />
+            {errors.deliveryDeadline && <p className="text-sm font-medium text-destructive">{errors.deliveryDeadline}</p>}
+            {deliveryEstimate && (
+              <p className="text-xs text-muted-foreground">
+                Prazo sugerido: <span className="font-medium text-foreground">{formatDate(deliveryEstimate.earliestDate)}</span>
+                {" "}({deliveryEstimate.leadDays} {deliveryEstimate.leadDays === 1 ? "dia útil" : "dias úteis"} de produção
+                {deliveryEstimate.bottleneck && ` + ${deliveryEstimate.queueDays} de fila em ${PRODUCTION_STATION_LABELS[deliveryEstimate.bottleneck]}`})
+                {deliveryDeadline !== deliveryEstimate.earliestDate && (
+                  <Button
+                    type="button"
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0 pl-1 text-xs"
+                    onClick={() => onDeliveryDeadlineChange?.(deliveryEstimate.earliestDate)}
+                  >
+                    Usar
+                  </Button>
+                )}
+              </p>
+            )}
+            {isDeadlineTooSoon && (
+              <p className="flex items-start gap-1 text-sm text-amber-700">
+                <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                O prazo solicitado é anterior ao prazo viável com a fila atual; o laboratório pode não conseguir entregar a tempo.
+              </p>
+            )}
+            {deliveryDeadline && !isWorkingDay(deliveryDeadline) && (
+              <p className="flex items-start gap-1 text-sm text-amber-700">
+                <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                {deadlineDayOff ? `O laboratório estará fechado (${deadlineDayOff})` : "O laboratório não funciona nesse dia da semana"}; não há entregas nesse dia.
+              </p>
+            )}
           </div>
         </div>
+
+        {sortedConfigs.length > 0 && (
+          <div className="space-y-2">
+            <Label>Cores por Dente</Label>
+            <p className="text-xs text-muted-foreground">
+              Opcional. Campos em branco usam a cor geral; o substrato é a cor do preparo sob facetas e restaurações sobre dente.
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Dente</TableHead>
+                  <TableHead>Cervical</TableHead>
+                  <TableHead>Corpo</TableHead>
+                  <TableHead>Incisal</TableHead>
+                  <TableHead>Substrato</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedConfigs.map((config) => {
+                  const shade = toothShades[config.toothNumber] || {};
+                  return (
+                    <TableRow key={config.toothNumber}>
+                      <TableCell className="font-medium">
+                        {formatTooth(config.toothNumber, numbering)}
+                        <span className="block text-xs text-muted-foreground">{getWorkTypeLabel(config.workType)}</span>
+                      </TableCell>
+                      <TableCell>
+                        <ShadePicker
+                          value={shade.cervical || ""}
+                          onChange={(value) => handleToothShadeChange(config.toothNumber, "cervical", value)}
+                          placeholder={shade.body || color || "-"}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <ShadePicker
+                          value={shade.body || ""}
+                          onChange={(value) => handleToothShadeChange(config.toothNumber, "body", value)}
+                          placeholder={color || "-"}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <ShadePicker
+                          value={shade.incisal || ""}
+                          onChange={(value) => handleToothShadeChange(config.toothNumber, "incisal", value)}
+                          placeholder={shade.body || color || "-"}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {STUMP_SHADE_WORK_TYPES.includes(config.workType) ? (
+                          <ShadePicker
+                            guide="stump"
+                            value={shade.stump || ""}
+                            onChange={(value) => handleToothShadeChange(config.toothNumber, "stump", value)}
+                            placeholder="ND"
+                          />
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            {errors.toothShades && <p className="text-sm font-medium text-destructive">{errors.toothShades}</p>}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
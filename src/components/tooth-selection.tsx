@@ -1,106 +1,168 @@
-import { useState } from "react";
+import { Fragment, useRef, useState, type KeyboardEvent } from "react";
 import { ToothIcon } from "./tooth-icon";
+import { ToothConfigTable } from "@/components/ToothConfigTable";
+import { cn } from "@/lib/utils";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
-import { Smile, X, ArrowLeft } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Smile, X, ArrowLeft, Link2, Undo2, Redo2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import {
   Dialog,
   DialogContent,
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { ToothPresetMenu } from "@/components/ToothPresetMenu";
+import { ToothNumberingSelect } from "@/components/ToothNumberingSelect";
+import { useDentalCatalog } from "@/hooks/useDentalCatalog";
+import { useToothNumbering } from "@/hooks/useToothNumbering";
+import { TOOTH_NUMBERING_PLACEHOLDERS, formatTeeth, formatTooth, parseTooth } from "@/lib/toothNumbering";
+import {
+  DENTITIONS,
+  DENTITION_LABELS,
+  PERMANENT_TEETH,
+  PRIMARY_TEETH,
+  dentitionIncludes,
+  getDentitionForTeeth,
+  type Dentition,
+  type DentitionQuadrants,
+} from "@/lib/dentition";
+import type { ToothPreset } from "@/lib/toothPresets";
+import {
+  TOOTH_UNIT_TYPES,
+  TOOTH_UNIT_TYPE_LABELS,
+  areTeethConnected,
+  areTeethContiguous,
+  formatToothUnit,
+  getToothUnitError,
+  getToothUnits,
+  pruneToothUnits,
+  sortTeethInArch,
+  type ToothUnitType,
+} from "@/lib/toothUnits";
+import {
+  getActiveItems,
+  getAllowedMaterials,
+  getCatalogTextColor,
+  isMaterialAllowed,
+  type CatalogItem,
+} from "@/lib/dentalCatalog";
 
 export interface ToothConfig {
   toothNumber: string;
   workType: string;
   implantType?: string;
   material?: string;
+  // Set on every tooth of a bridge, splint or bar (see lib/toothUnits)
+  unit?: { id: string; type: ToothUnitType };
 }
 
 interface ToothSelectionProps {
+  // Only read on mount; remount the component (key) to load a different selection
+  initialConfigs?: ToothConfig[];
   onSelectionChange?: (selected: ToothConfig[]) => void;
 }
 
-const workTypes = [
-  { value: "faceta", label: "Faceta", color: "bg-cyan-500 hover:bg-cyan-600" },
-  { value: "onlay", label: "Onlay", color: "bg-green-600 hover:bg-green-700" },
-  { value: "enceramento", label: "Enceramento", color: "bg-emerald-400 hover:bg-emerald-500" },
-  { value: "coping", label: "Coping", color: "bg-amber-200 hover:bg-amber-300 text-amber-900" },
-  { value: "provisorio_oco", label: "Provisório Oco", color: "bg-yellow-600 hover:bg-yellow-700" },
-  { value: "pontico", label: "Pôntico", color: "bg-rose-900 hover:bg-rose-950" },
-  { value: "sobre_dente", label: "Sobre Dente", color: "bg-purple-600 hover:bg-purple-700" },
-  { value: "sobre_implante", label: "Sobre Implante", color: "bg-blue-800 hover:bg-blue-900" },
-];
-
-const implantTypes = [
-  { value: "pilar_gt", label: "Pilar GT", color: "bg-amber-600 hover:bg-amber-700" },
-  { value: "he_4.1_sem_link", label: "HE 4.1 (Sem link)", color: "bg-cyan-600 hover:bg-cyan-700" },
-  { value: "he_4.1_com_link", label: "HE 4.1 (Com Link)", color: "bg-indigo-600 hover:bg-indigo-700" },
-  { value: "mini_pilar", label: "Mini-Pilar", color: "bg-rose-600 hover:bg-rose-700" },
-  { value: "munhao_universal_3.3x4", label: "Munhão Universal (3.3x4)", color: "bg-pink-600 hover:bg-pink-700" },
-  { value: "munhao_universal_3.3x6", label: "Munhão Universal (3.3x6)", color: "bg-violet-600 hover:bg-violet-700" },
-  { value: "munhao_universal_4.5x4", label: "Munhão Universal (4.5x4)", color: "bg-orange-600 hover:bg-orange-700" },
-  { value: "munhao_universal_4.5x6", label: "Munhão Universal (4.5x6)", color: "bg-fuchsia-600 hover:bg-fuchsia-700" },
-  { value: "pilar_cm_ws", label: "PILAR CM_WS", color: "bg-teal-600 hover:bg-teal-700" },
-];
-
-const materials = [
-  { value: "dissilicato", label: "Dissilicato", color: "bg-slate-600 hover:bg-slate-700" },
-  { value: "zirconia", label: "Zirconia", color: "bg-stone-500 hover:bg-stone-600" },
-  { value: "pmma", label: "PMMA", color: "bg-zinc-500 hover:bg-zinc-600" },
-  { value: "modelo_3d", label: "Modelo 3D", color: "bg-neutral-600 hover:bg-neutral-700" },
-];
-
-// Preset options for quick selection
-const presetOptions = [
-  { value: "none", label: "Selecione um preset" },
-  { value: "placa_miorrelaxante", label: "Placa Miorrelaxante" },
-];
-
-// Teeth to select for Placa Miorrelaxante (only upper arch)
-const placaMiorrelaxanteTeeth = ["16", "15", "14", "13", "12", "11", "21", "22", "23", "24", "25", "26"];
-
-export function ToothSelection({ onSelectionChange }: ToothSelectionProps) {
-  const [toothConfigs, setToothConfigs] = useState<ToothConfig[]>([]);
+const HISTORY_LIMIT = 50;
+
+// Keys picking the options of the configuration dialog, in order
+const OPTION_HOTKEYS = "123456789abcdefghijklmnopqrstuvwxyz";
+
+const getItemStyle = (item: CatalogItem) => ({
+  backgroundColor: item.color,
+  color: getCatalogTextColor(item.color),
+});
+
+export function ToothSelection({ initialConfigs = [], onSelectionChange }: ToothSelectionProps) {
+  const { catalog } = useDentalCatalog();
+  const numbering = useToothNumbering();
+  const [toothConfigs, setToothConfigs] = useState<ToothConfig[]>(initialConfigs);
+  const [dentition, setDentition] = useState<Dentition>(() =>
+    getDentitionForTeeth(initialConfigs.map(config => config.toothNumber))
+  );
   const [selectedTooth, setSelectedTooth] = useState<string | null>(null);
   const [dialogStep, setDialogStep] = useState<"workType" | "implantType" | "material">("workType");
   const [lastConfiguredTooth, setLastConfiguredTooth] = useState<ToothConfig | null>(null);
-  const [selectedPreset, setSelectedPreset] = useState<string>("none");
+  const [selectedPreset, setSelectedPreset] = useState<string | null>(null);
   const [previousConfigs, setPreviousConfigs] = useState<ToothConfig[]>([]);
+  // Teeth picked for a new bridge/splint/bar; null when not grouping
+  const [groupingTeeth, setGroupingTeeth] = useState<string[] | null>(null);
+  const [groupingType, setGroupingType] = useState<ToothUnitType>("bridge");
+  // Tooth typed in the user's numbering system, as an alternative to clicking the odontogram
+  const [toothInput, setToothInput] = useState("");
+  const [toothInputError, setToothInputError] = useState(false);
+  // Reported selections before (past) and after (future) the current one
+  const [history, setHistory] = useState<{ past: ToothConfig[][]; future: ToothConfig[][] }>({ past: [], future: [] });
+  const committedConfigs = useRef(initialConfigs);
+  // Tooth highlighted for keyboard navigation; shown while the odontogram has focus
+  const [focusedTooth, setFocusedTooth] = useState<string | null>(null);
+  const [odontogramFocused, setOdontogramFocused] = useState(false);
+
+  const charts: DentitionQuadrants[] = dentition === "mixed"
+    ? [PERMANENT_TEETH, PRIMARY_TEETH]
+    : [dentition === "primary" ? PRIMARY_TEETH : PERMANENT_TEETH];
+
+  // Switches to a chart showing the given teeth when the current one can't
+  const showTeeth = (teeth: string[]) => {
+    if (!dentitionIncludes(dentition, teeth)) {
+      setDentition(dentitionIncludes("permanent", teeth) ? "permanent" : dentitionIncludes("primary", teeth) ? "primary" : "mixed");
+    }
+  };
 
-  const upperRight = ["18", "17", "16", "15", "14", "13", "12", "11"];
-  const upperLeft = ["21", "22", "23", "24", "25", "26", "27", "28"];
-  const lowerRight = ["48", "47", "46", "45", "44", "43", "42", "41"];
-  const lowerLeft = ["31", "32", "33", "34", "35", "36", "37", "38"];
+  // Shows a selection and reports it to the form
+  const applyConfigs = (newConfigs: ToothConfig[]) => {
+    committedConfigs.current = newConfigs;
+    setToothConfigs(newConfigs);
+    onSelectionChange?.(newConfigs);
+    showTeeth(newConfigs.map(config => config.toothNumber));
+  };
 
-  const handlePresetChange = (value: string) => {
-    if (value === "placa_miorrelaxante") {
-      // Save current configs before applying preset
-      setPreviousConfigs(toothConfigs);
-      
-      // Select only upper arch teeth for Placa Miorrelaxante
-      const newConfigs: ToothConfig[] = placaMiorrelaxanteTeeth.map((tooth) => ({
-        toothNumber: tooth,
-        workType: "placa_miorrelaxante",
-        material: "pmma",
-      }));
-      
-      setToothConfigs(newConfigs);
-      onSelectionChange?.(newConfigs);
-      setSelectedPreset(value);
-    } else if (value === "none") {
-      // Restore previous configs or clear
-      setToothConfigs(previousConfigs);
-      onSelectionChange?.(previousConfigs);
-      setSelectedPreset(value);
-    }
+  // Every selection reported to the form is an undo step; the choices made inside the
+  // configuration dialog only count once the tooth is complete
+  const commitConfigs = (newConfigs: ToothConfig[]) => {
+    const previous = committedConfigs.current;
+    setHistory(prev => ({ past: [...prev.past, previous].slice(-HISTORY_LIMIT), future: [] }));
+    applyConfigs(newConfigs);
   };
 
-  // Full dental arch order for range selection
-  const upperArch = [...upperRight, ...upperLeft];
-  const lowerArch = [...lowerLeft, ...lowerRight];
-  const allTeeth = [...upperArch, ...lowerArch];
+  const handleUndo = () => {
+    if (history.past.length === 0) return;
+    setHistory({ past: history.past.slice(0, -1), future: [committedConfigs.current, ...history.future] });
+    applyConfigs(history.past[history.past.length - 1]);
+  };
+
+  const handleRedo = () => {
+    if (history.future.length === 0) return;
+    setHistory({ past: [...history.past, committedConfigs.current], future: history.future.slice(1) });
+    applyConfigs(history.future[0]);
+  };
+
+  const handleApplyPreset = (preset: ToothPreset) => {
+    // Save current configs before applying preset (switching presets keeps the original ones)
+    if (!selectedPreset) setPreviousConfigs(toothConfigs);
+
+    // Fresh unit ids, so applying a preset twice never shares units between orders
+    const unitIds = new Map<string, string>();
+    const newConfigs = preset.configs.map((config) => {
+      if (!config.unit) return { ...config };
+      if (!unitIds.has(config.unit.id)) unitIds.set(config.unit.id, crypto.randomUUID());
+      return { ...config, unit: { ...config.unit, id: unitIds.get(config.unit.id)! } };
+    });
+    commitConfigs(newConfigs);
+    setSelectedPreset(preset.id);
+  };
+
+  const handleUndoPreset = () => {
+    // Restore previous configs or clear
+    commitConfigs(previousConfigs);
+    setSelectedPreset(null);
+  };
+
+  // Full dental arch order of each chart for range selection; ranges don't cross charts
+  const rangeOrders = charts.map(chart => [...chart.upperRight, ...chart.upperLeft, ...chart.lowerLeft, ...chart.lowerRight]);
 
   const isToothSelected = (tooth: string) => {
     return toothConfigs.some(config => config.toothNumber === tooth);
@@ -111,11 +173,11 @@ export function ToothSelection({ onSelectionChange }: ToothSelectionProps) {
   };
 
   const getTeethInRange = (startTooth: string, endTooth: string): string[] => {
+    const allTeeth = rangeOrders.find(teeth => teeth.includes(startTooth) && teeth.includes(endTooth));
+    if (!allTeeth) return [endTooth];
+
     const startIndex = allTeeth.indexOf(startTooth);
     const endIndex = allTeeth.indexOf(endTooth);
-    
-    if (startIndex === -1 || endIndex === -1) return [endTooth];
-    
     const minIndex = Math.min(startIndex, endIndex);
     const maxIndex = Math.max(startIndex, endIndex);
     
@@ -123,32 +185,36 @@ export function ToothSelection({ onSelectionChange }: ToothSelectionProps) {
   };
 
   const handleToothClick = (tooth: string, ctrlKey: boolean, shiftKey: boolean) => {
+    // While grouping, clicks pick the teeth of the unit instead of configuring them
+    if (groupingTeeth) {
+      if (!isToothSelected(tooth)) return;
+      setGroupingTeeth(groupingTeeth.includes(tooth)
+        ? groupingTeeth.filter(t => t !== tooth)
+        : [...groupingTeeth, tooth]);
+      return;
+    }
+
     // If Shift is pressed and we have a last configured tooth, copy to range
     if (shiftKey && lastConfiguredTooth && lastConfiguredTooth.material) {
       const teethInRange = getTeethInRange(lastConfiguredTooth.toothNumber, tooth);
       
-      setToothConfigs((prev) => {
-        let newConfigs = [...prev];
-        
-        teethInRange.forEach((toothNum) => {
-          const newConfig: ToothConfig = {
-            toothNumber: toothNum,
-            workType: lastConfiguredTooth.workType,
-            implantType: lastConfiguredTooth.implantType,
-            material: lastConfiguredTooth.material,
-          };
-          
-          const existingIndex = newConfigs.findIndex(c => c.toothNumber === toothNum);
-          if (existingIndex >= 0) {
-            newConfigs[existingIndex] = newConfig;
-          } else {
-            newConfigs.push(newConfig);
-          }
-        });
-        
-        onSelectionChange?.(newConfigs);
-        return newConfigs;
+      const newConfigs = [...toothConfigs];
+      teethInRange.forEach((toothNum) => {
+        const newConfig: ToothConfig = {
+          toothNumber: toothNum,
+          workType: lastConfiguredTooth.workType,
+          implantType: lastConfiguredTooth.implantType,
+          material: lastConfiguredTooth.material,
+        };
+
+        const existingIndex = newConfigs.findIndex(c => c.toothNumber === toothNum);
+        if (existingIndex >= 0) {
+          newConfigs[existingIndex] = { ...newConfig, unit: newConfigs[existingIndex].unit };
+        } else {
+          newConfigs.push(newConfig);
+        }
       });
+      commitConfigs(newConfigs);
       
       // Update last configured tooth to the end of range
       setLastConfiguredTooth({
@@ -169,18 +235,14 @@ export function ToothSelection({ onSelectionChange }: ToothSelectionProps) {
         material: lastConfiguredTooth.material,
       };
       
-      setToothConfigs((prev) => {
-        const existingIndex = prev.findIndex(c => c.toothNumber === tooth);
-        let newConfigs;
-        if (existingIndex >= 0) {
-          newConfigs = [...prev];
-          newConfigs[existingIndex] = newConfig;
-        } else {
-          newConfigs = [...prev, newConfig];
-        }
-        onSelectionChange?.(newConfigs);
-        return newConfigs;
-      });
+      const existingIndex = toothConfigs.findIndex(c => c.toothNumber === tooth);
+      if (existingIndex >= 0) {
+        const newConfigs = [...toothConfigs];
+        newConfigs[existingIndex] = { ...newConfig, unit: toothConfigs[existingIndex].unit };
+        commitConfigs(newConfigs);
+      } else {
+        commitConfigs([...toothConfigs, newConfig]);
+      }
       
       setLastConfiguredTooth(newConfig);
       return;
@@ -190,6 +252,17 @@ export function ToothSelection({ onSelectionChange }: ToothSelectionProps) {
     setDialogStep("workType");
   };
 
+  const handleToothInput = () => {
+    const tooth = parseTooth(toothInput, numbering);
+    if (!tooth) {
+      setToothInputError(true);
+      return;
+    }
+    showTeeth([...toothConfigs.map(config => config.toothNumber), tooth]);
+    handleToothClick(tooth, false, false);
+    setToothInput("");
+  };
+
   const handleWorkTypeSelect = (workType: string) => {
     if (!selectedTooth) return;
 
@@ -226,22 +299,19 @@ export function ToothSelection({ onSelectionChange }: ToothSelectionProps) {
   const handleMaterialSelect = (material: string) => {
     if (!selectedTooth) return;
 
-    setToothConfigs((prev) => {
-      const newConfigs = prev.map((config) =>
-        config.toothNumber === selectedTooth
-          ? { ...config, material }
-          : config
-      );
-      
-      // Save the last configured tooth for Ctrl+Click copying
-      const configuredTooth = newConfigs.find(c => c.toothNumber === selectedTooth);
-      if (configuredTooth) {
-        setLastConfiguredTooth(configuredTooth);
-      }
-      
-      onSelectionChange?.(newConfigs);
-      return newConfigs;
-    });
+    const newConfigs = toothConfigs.map((config) =>
+      config.toothNumber === selectedTooth
+        ? { ...config, material }
+        : config
+    );
+
+    // Save the last configured tooth for Ctrl+Click copying
+    const configuredTooth = newConfigs.find(c => c.toothNumber === selectedTooth);
+    if (configuredTooth) {
+      setLastConfiguredTooth(configuredTooth);
+    }
+
+    commitConfigs(newConfigs);
     setSelectedTooth(null);
     setDialogStep("workType");
   };
@@ -249,136 +319,364 @@ export function ToothSelection({ onSelectionChange }: ToothSelectionProps) {
   const handleRemoveTooth = () => {
     if (!selectedTooth) return;
     
-    setToothConfigs((prev) => {
-      const newConfigs = prev.filter((config) => config.toothNumber !== selectedTooth);
-      onSelectionChange?.(newConfigs);
-      return newConfigs;
-    });
+    commitConfigs(pruneToothUnits(toothConfigs.filter((config) => config.toothNumber !== selectedTooth)));
     setSelectedTooth(null);
     setDialogStep("workType");
   };
 
   const removeTooth = (tooth: string) => {
-    setToothConfigs((prev) => {
-      const newConfigs = prev.filter((config) => config.toothNumber !== tooth);
-      onSelectionChange?.(newConfigs);
-      return newConfigs;
-    });
+    commitConfigs(pruneToothUnits(toothConfigs.filter((config) => config.toothNumber !== tooth)));
   };
 
-  const getWorkTypeLabel = (value: string) => {
-    return workTypes.find(t => t.value === value)?.label || value;
+  // Inline edits from the summary table
+  const updateTooth = (tooth: string, changes: Partial<ToothConfig>) => {
+    commitConfigs(toothConfigs.map((config) => {
+      if (config.toothNumber !== tooth) return config;
+      const updated = { ...config, ...changes };
+      // A new work type keeps only the implant and material that still apply to it
+      if (updated.workType !== "sobre_implante") updated.implantType = undefined;
+      if (updated.material && !isMaterialAllowed(updated.workType, updated.material)) updated.material = undefined;
+      return updated;
+    }));
   };
 
-  const getImplantTypeLabel = (value: string) => {
-    return implantTypes.find(t => t.value === value)?.label || value;
+  const groupingError = !groupingTeeth
+    ? null
+    : groupingTeeth.length < 2
+      ? "Clique em pelo menos dois dentes configurados"
+      : !areTeethContiguous(groupingTeeth)
+        ? "Os dentes devem ser vizinhos na mesma arcada"
+        : null;
+
+  const handleConfirmGrouping = () => {
+    if (!groupingTeeth || groupingError) return;
+
+    const unit = { id: crypto.randomUUID(), type: groupingType };
+    // Teeth taken from another unit may leave it too small or with a gap
+    commitConfigs(pruneToothUnits(toothConfigs.map((config) =>
+      groupingTeeth.includes(config.toothNumber) ? { ...config, unit } : config
+    )));
+    setGroupingTeeth(null);
   };
 
-  const getMaterialLabel = (value: string) => {
-    return materials.find(t => t.value === value)?.label || value;
+  const removeUnit = (unitId: string) => {
+    commitConfigs(toothConfigs.map((config) =>
+      config.unit?.id === unitId ? { ...config, unit: undefined } : config
+    ));
   };
 
-  const getMaterialAbbreviation = (value: string) => {
-    const abbreviations: Record<string, string> = {
-      zirconia: "ZrO2",
-      dissilicato: "Diss",
-    };
-    return abbreviations[value] || getMaterialLabel(value);
-  };
+  const connector = (connected: boolean, className = "w-2") => (
+    <div className={`${className} h-1.5 self-center rounded-full ${connected ? "bg-burgundy-700" : ""}`} />
+  );
 
-  const renderToothRow = (teeth: string[]) => (
-    <div className="flex gap-2 justify-center">
-      {teeth.map((tooth) => (
-        <ToothIcon
-          key={tooth}
-          number={tooth}
-          selected={isToothSelected(tooth)}
-          onClick={(e) => handleToothClick(tooth, e.ctrlKey || e.metaKey, e.shiftKey)}
-        />
+  // midlineNeighbour: first tooth of the other half, so a unit crossing the midline is drawn connected
+  const renderToothRow = (teeth: string[], midlineNeighbour?: string) => (
+    <div key={teeth[0]} className={`flex ${midlineNeighbour ? "justify-end" : "justify-start"}`}>
+      {teeth.map((tooth, index) => (
+        <Fragment key={tooth}>
+          {index > 0 && connector(areTeethConnected(toothConfigs, teeth[index - 1], tooth))}
+          <ToothIcon
+            number={formatTooth(tooth, numbering)}
+            selected={isToothSelected(tooth)}
+            className={cn(
+              groupingTeeth?.includes(tooth) && "ring-2 ring-offset-2 ring-primary",
+              odontogramFocused && focusedTooth === tooth && "outline outline-2 outline-offset-2 outline-burgundy-400"
+            )}
+            onClick={(e) => {
+              setFocusedTooth(tooth);
+              handleToothClick(tooth, e.ctrlKey || e.metaKey, e.shiftKey);
+            }}
+          />
+        </Fragment>
       ))}
+      {midlineNeighbour && connector(areTeethConnected(toothConfigs, teeth[teeth.length - 1], midlineNeighbour), "w-8 -mr-8")}
+    </div>
+  );
+
+  // Odontogram rows as drawn; primary teeth sit inside the permanent ones
+  const upperRows = charts.map(chart => ({ right: chart.upperRight, left: chart.upperLeft }));
+  const lowerRows = [...charts].reverse().map(chart => ({ right: chart.lowerRight, left: chart.lowerLeft }));
+  const keyboardRows = [...upperRows, ...lowerRows].map(row => [...row.right, ...row.left]);
+
+  const moveFocus = (key: string) => {
+    const rowIndex = keyboardRows.findIndex(row => row.includes(focusedTooth ?? ""));
+    if (rowIndex < 0) {
+      setFocusedTooth(keyboardRows[0][0]);
+      return;
+    }
+
+    const row = keyboardRows[rowIndex];
+    const index = row.indexOf(focusedTooth!);
+    if (key === "ArrowLeft" || key === "ArrowRight") {
+      const next = index + (key === "ArrowLeft" ? -1 : 1);
+      setFocusedTooth(row[Math.min(row.length - 1, Math.max(0, next))]);
+      return;
+    }
+
+    const target = keyboardRows[rowIndex + (key === "ArrowUp" ? -1 : 1)];
+    if (!target) return;
+    // Keep the distance from the midline between rows of permanent and primary teeth
+    const offset = index - row.length / 2;
+    setFocusedTooth(target[Math.min(target.length - 1, Math.max(0, target.length / 2 + offset))]);
+  };
+
+  const handleOdontogramKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (["ArrowLeft", "ArrowRight", "ArrowUp", "ArrowDown"].includes(e.key)) {
+      e.preventDefault();
+      moveFocus(e.key);
+    } else if ((e.key === "Enter" || e.key === " ") && focusedTooth) {
+      e.preventDefault();
+      handleToothClick(focusedTooth, e.ctrlKey || e.metaKey, e.shiftKey);
+    } else if ((e.key === "Delete" || e.key === "Backspace") && focusedTooth && isToothSelected(focusedTooth)) {
+      e.preventDefault();
+      removeTooth(focusedTooth);
+    }
+  };
+
+  // Anywhere in the card except the tooth input, which keeps its own text undo
+  const handleHistoryKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (!(e.ctrlKey || e.metaKey) || e.target instanceof HTMLInputElement) return;
+    const key = e.key.toLowerCase();
+    if (key === "z" && !e.shiftKey) {
+      e.preventDefault();
+      handleUndo();
+    } else if (key === "y" || (key === "z" && e.shiftKey)) {
+      e.preventDefault();
+      handleRedo();
+    }
+  };
+
+  const dialogOptions = dialogStep === "workType"
+    ? getActiveItems(catalog.workTypes)
+    : dialogStep === "implantType"
+      ? getActiveItems(catalog.implantTypes)
+      : getAllowedMaterials((selectedTooth && getToothConfig(selectedTooth)?.workType) || "");
+
+  const handleDialogOption = (value: string) => {
+    if (dialogStep === "workType") handleWorkTypeSelect(value);
+    else if (dialogStep === "implantType") handleImplantTypeSelect(value);
+    else handleMaterialSelect(value);
+  };
+
+  const handleDialogBack = () => {
+    if (dialogStep === "material" && getToothConfig(selectedTooth!)?.workType === "sobre_implante") {
+      setDialogStep("implantType");
+    } else {
+      setDialogStep("workType");
+    }
+  };
+
+  const handleDialogKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    if (e.key === "Backspace" && dialogStep !== "workType") {
+      e.preventDefault();
+      handleDialogBack();
+      return;
+    }
+    const option = e.key.length === 1 ? dialogOptions[OPTION_HOTKEYS.indexOf(e.key.toLowerCase())] : undefined;
+    if (option) {
+      e.preventDefault();
+      handleDialogOption(option.value);
+    }
+  };
+
+  const renderDialogOption = (item: CatalogItem, index: number, className = "") => (
+    <button
+      key={item.value}
+      onClick={() => handleDialogOption(item.value)}
+      className={`flex items-center gap-2 p-4 rounded-lg font-medium text-sm transition-all hover:brightness-90 ${className}`}
+      style={getItemStyle(item)}
+    >
+      {OPTION_HOTKEYS[index] && (
+        <kbd className="rounded border border-current px-1.5 text-xs opacity-70">{OPTION_HOTKEYS[index]}</kbd>
+      )}
+      {item.label}
+    </button>
+  );
+
+  const renderArch = (rows: { right: string[]; left: string[] }[]) => (
+    <div className="flex gap-8 justify-center">
+      <div className="space-y-2">
+        <p className="text-xs text-gray-500 text-center">Direita</p>
+        {rows.map(row => renderToothRow(row.right, row.left[0]))}
+      </div>
+      <div className="space-y-2">
+        <p className="text-xs text-gray-500 text-center">Esquerda</p>
+        {rows.map(row => renderToothRow(row.left))}
+      </div>
     </div>
   );
 
   const selectedConfigs = toothConfigs.filter(config => config.toothNumber && config.workType);
+  const units = getToothUnits(toothConfigs);
   const currentToothConfig = selectedTooth ? getToothConfig(selectedTooth) : null;
 
   return (
     <>
-      <Card>
+      <Card onKeyDown={handleHistoryKeyDown}>
         <CardHeader>
           <div className="flex items-center justify-between">
             <CardTitle className="flex items-center gap-3">
               <Smile className="text-burgundy-500" size={20} />
               Seleção de Dentes
             </CardTitle>
-            <Button
-              variant={selectedPreset === "placa_miorrelaxante" ? "default" : "outline"}
-              size="sm"
-              onClick={() => handlePresetChange(selectedPreset === "placa_miorrelaxante" ? "none" : "placa_miorrelaxante")}
-            >
-              Placa Miorrelaxante
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleUndo}
+                disabled={history.past.length === 0}
+                title="Desfazer (Ctrl+Z)"
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleRedo}
+                disabled={history.future.length === 0}
+                title="Refazer (Ctrl+Y)"
+              >
+                <Redo2 className="h-4 w-4" />
+              </Button>
+              <ToothNumberingSelect />
+              <ToothPresetMenu
+                configs={toothConfigs}
+                appliedPresetId={selectedPreset}
+                onApply={handleApplyPreset}
+                onUndo={handleUndoPreset}
+              />
+            </div>
           </div>
         </CardHeader>
         <CardContent className="space-y-6">
-          <div className="space-y-3">
-            <p className="text-sm text-gray-600 text-center">Arcada Superior</p>
-            <div className="flex gap-8 justify-center">
-              <div>
-                <p className="text-xs text-gray-500 text-center mb-2">Direita</p>
-                {renderToothRow(upperRight)}
-              </div>
-              <div>
-                <p className="text-xs text-gray-500 text-center mb-2">Esquerda</p>
-                {renderToothRow(upperLeft)}
-              </div>
+          <div className="flex flex-wrap items-center justify-center gap-4">
+            <ToggleGroup
+              type="single"
+              value={dentition}
+              onValueChange={(value) => value && setDentition(value as Dentition)}
+            >
+              {DENTITIONS.map(option => (
+                <ToggleGroupItem
+                  key={option}
+                  value={option}
+                  // Configured teeth must stay visible
+                  disabled={!dentitionIncludes(option, toothConfigs.map(config => config.toothNumber))}
+                  className="px-4"
+                >
+                  {DENTITION_LABELS[option]}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="tooth-input" className="text-sm text-gray-600">Digitar dente</Label>
+              <Input
+                id="tooth-input"
+                value={toothInput}
+                onChange={(e) => {
+                  setToothInput(e.target.value);
+                  setToothInputError(false);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    // Don't submit the order form
+                    e.preventDefault();
+                    handleToothInput();
+                  }
+                }}
+                placeholder={TOOTH_NUMBERING_PLACEHOLDERS[numbering]}
+                className={`h-8 w-36 ${toothInputError ? "border-destructive" : ""}`}
+              />
+              {toothInputError && <p className="text-sm text-destructive">Dente inválido</p>}
             </div>
           </div>
 
-          <div className="border-t pt-6 space-y-3">
-            <p className="text-sm text-gray-600 text-center">Arcada Inferior</p>
-            <div className="flex gap-8 justify-center">
-              <div>
-                <p className="text-xs text-gray-500 text-center mb-2">Direita</p>
-                {renderToothRow(lowerRight)}
-              </div>
-              <div>
-                <p className="text-xs text-gray-500 text-center mb-2">Esquerda</p>
-                {renderToothRow(lowerLeft)}
-              </div>
+          {groupingTeeth && (
+            <div className="flex flex-wrap items-center gap-3 rounded-lg border border-primary/40 bg-primary/5 p-3">
+              <Select value={groupingType} onValueChange={(value) => setGroupingType(value as ToothUnitType)}>
+                <SelectTrigger className="w-[170px] bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TOOTH_UNIT_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{TOOTH_UNIT_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="flex-1 text-sm text-muted-foreground">
+                {groupingError || `Dentes: ${formatTeeth(sortTeethInArch(groupingTeeth), numbering)}`}
+              </p>
+              <Button variant="outline" size="sm" onClick={() => setGroupingTeeth(null)}>
+                Cancelar
+              </Button>
+              <Button size="sm" onClick={handleConfirmGrouping} disabled={!!groupingError}>
+                Confirmar União
+              </Button>
+            </div>
+          )}
+
+          <div
+            tabIndex={0}
+            onKeyDown={handleOdontogramKeyDown}
+            onFocus={() => {
+              setOdontogramFocused(true);
+              if (!focusedTooth) setFocusedTooth(keyboardRows[0][0]);
+            }}
+            onBlur={() => setOdontogramFocused(false)}
+            className="space-y-6 rounded-lg outline-none focus-visible:ring-2 focus-visible:ring-burgundy-300"
+          >
+            <div className="space-y-3">
+              <p className="text-sm text-gray-600 text-center">Arcada Superior</p>
+              {renderArch(upperRows)}
+            </div>
+
+            <div className="border-t pt-6 space-y-3">
+              <p className="text-sm text-gray-600 text-center">Arcada Inferior</p>
+              {renderArch(lowerRows)}
             </div>
           </div>
+          <p className="text-center text-xs text-muted-foreground">
+            Teclado: setas navegam, Enter configura o dente, Ctrl+Enter copia o último dente configurado, Shift+Enter copia até o dente, Delete remove e Ctrl+Z / Ctrl+Y desfazem e refazem.
+          </p>
 
           {/* Selected teeth summary */}
           {selectedConfigs.length > 0 && (
             <div className="mt-6 border-t pt-6 space-y-4">
-              <p className="text-sm font-semibold text-gray-700">Dentes Configurados</p>
-              <div className="flex flex-wrap gap-2">
-                {selectedConfigs.map((config) => {
-                  const workType = workTypes.find(t => t.value === config.workType);
-                  return (
-                    <div
-                      key={config.toothNumber}
-                      className={`flex items-center gap-2 px-3 py-2 rounded-lg text-white text-sm ${workType?.color.split(' ')[0] || 'bg-gray-600'}`}
-                    >
-                      <span className="font-bold">Dente {config.toothNumber}</span>
-                      <span className="opacity-80">- {getWorkTypeLabel(config.workType)}</span>
-                      {config.implantType && (
-                        <span className="opacity-80">({getImplantTypeLabel(config.implantType)})</span>
-                      )}
-                      {config.material && (
-                        <span className="opacity-80">[{getMaterialAbbreviation(config.material)}]</span>
-                      )}
-                      <button
-                        onClick={() => removeTooth(config.toothNumber)}
-                        className="ml-1 hover:bg-white/20 rounded p-0.5"
-                      >
-                        <X size={14} />
-                      </button>
-                    </div>
-                  );
-                })}
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-semibold text-gray-700">Dentes Configurados</p>
+                {selectedConfigs.length > 1 && !groupingTeeth && (
+                  <Button variant="outline" size="sm" onClick={() => setGroupingTeeth([])}>
+                    <Link2 className="mr-1 h-4 w-4" />
+                    Unir Dentes
+                  </Button>
+                )}
               </div>
+              <ToothConfigTable configs={selectedConfigs} onChange={updateTooth} onRemove={removeTooth} />
+
+              {units.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-semibold text-gray-700">Uniões</p>
+                  {units.map((unit) => {
+                    const error = getToothUnitError(unit, toothConfigs);
+                    return (
+                      <div key={unit.id} className="flex items-center gap-2 rounded-lg border px-3 py-2 text-sm">
+                        <Link2 size={14} className="text-burgundy-700" />
+                        <span className="flex-1">
+                          {formatToothUnit(unit, toothConfigs)}
+                          {error && <span className="block text-xs text-destructive">{error}</span>}
+                        </span>
+                        <button
+                          onClick={() => removeUnit(unit.id)}
+                          className="rounded p-0.5 hover:bg-gray-100"
+                          title="Desfazer união"
+                        >
+                          <X size={14} />
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
             </div>
           )}
         </CardContent>
@@ -386,7 +684,7 @@ export function ToothSelection({ onSelectionChange }: ToothSelectionProps) {
 
       {/* Tooth Configuration Dialog */}
       <Dialog open={selectedTooth !== null} onOpenChange={(open) => !open && setSelectedTooth(null)}>
-        <DialogContent className="sm:max-w-lg">
+        <DialogContent className="sm:max-w-lg" onKeyDown={handleDialogKeyDown}>
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               {(dialogStep === "implantType" || dialogStep === "material") && (
@@ -394,23 +692,12 @@ export function ToothSelection({ onSelectionChange }: ToothSelectionProps) {
                   variant="ghost"
                   size="sm"
                   className="p-1 h-auto"
-                  onClick={() => {
-                    if (dialogStep === "material") {
-                      const config = getToothConfig(selectedTooth!);
-                      if (config?.workType === "sobre_implante") {
-                        setDialogStep("implantType");
-                      } else {
-                        setDialogStep("workType");
-                      }
-                    } else {
-                      setDialogStep("workType");
-                    }
-                  }}
+                  onClick={handleDialogBack}
                 >
                   <ArrowLeft size={18} />
                 </Button>
               )}
-              Dente {selectedTooth}
+              Dente {selectedTooth && formatTooth(selectedTooth, numbering)}
               {dialogStep === "implantType" && <span className="text-muted-foreground"> - Tipo de Implante</span>}
               {dialogStep === "material" && <span className="text-muted-foreground"> - Material</span>}
             </DialogTitle>
@@ -420,17 +707,9 @@ export function ToothSelection({ onSelectionChange }: ToothSelectionProps) {
             <div className="space-y-4">
               <Label className="text-sm font-medium">Tipo de Trabalho</Label>
               <div className="grid grid-cols-2 gap-3">
-                {workTypes.map((type) => (
-                  <button
-                    key={type.value}
-                    onClick={() => handleWorkTypeSelect(type.value)}
-                    className={`p-4 rounded-lg text-white font-medium text-sm transition-all ${type.color} ${
-                      currentToothConfig?.workType === type.value ? 'ring-2 ring-offset-2 ring-primary' : ''
-                    }`}
-                  >
-                    {type.label}
-                  </button>
-                ))}
+                {dialogOptions.map((type, index) =>
+                  renderDialogOption(type, index, currentToothConfig?.workType === type.value ? "ring-2 ring-offset-2 ring-primary" : "")
+                )}
               </div>
               
               <div className="pt-4 border-t flex gap-3">
@@ -453,30 +732,14 @@ export function ToothSelection({ onSelectionChange }: ToothSelectionProps) {
             <div className="space-y-4">
               <Label className="text-sm font-medium">Selecione o Tipo de Implante</Label>
               <div className="grid grid-cols-2 gap-3">
-                {implantTypes.map((type) => (
-                  <button
-                    key={type.value}
-                    onClick={() => handleImplantTypeSelect(type.value)}
-                    className={`p-4 rounded-lg text-white font-medium text-sm transition-all ${type.color}`}
-                  >
-                    {type.label}
-                  </button>
-                ))}
+                {dialogOptions.map((type, index) => renderDialogOption(type, index))}
               </div>
             </div>
           ) : (
             <div className="space-y-4">
               <Label className="text-sm font-medium">Selecione o Material</Label>
               <div className="grid grid-cols-2 gap-3">
-                {materials.map((type) => (
-                  <button
-                    key={type.value}
-                    onClick={() => handleMaterialSelect(type.value)}
-                    className={`p-4 rounded-lg text-white font-medium text-sm transition-all ${type.color}`}
-                  >
-                    {type.label}
-                  </button>
-                ))}
+                {dialogOptions.map((type, index) => renderDialogOption(type, index))}
               </div>
             </div>
           )}
@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import type { CachedLoader } from "@/lib/cachedLoader";
+
+/**
+ * Reads a module-level cache (see lib/cachedLoader) and re-renders when it changes.
+ * Loads it on mount and again after it is dropped for another user; `label` names it in errors.
+ */
+export function useCachedLoader<T>(loader: CachedLoader<T>, label: string) {
+  const data = useSyncExternalStore(loader.subscribe, loader.get);
+
+  useEffect(() => {
+    // load() returns the pending or finished request, so it only refetches after a reset
+    const load = () => {
+      loader.load().catch((error) => console.error(`Error loading ${label}:`, error));
+    };
+    load();
+    return loader.subscribe(load);
+  }, [loader, label]);
+
+  const reload = useCallback(async () => {
+    await loader.load(true);
+  }, [loader]);
+
+  return { data, reload };
+}
@@ -0,0 +1,11 @@
+import { useCachedLoader } from "@/hooks/useCachedLoader";
+import { dentalCatalogLoader } from "@/lib/dentalCatalog";
+
+/**
+ * Loads the work type / implant / material catalog and re-renders once it is available.
+ * Components rendering catalog labels call this so they update when the catalog arrives.
+ */
+export function useDentalCatalog() {
+  const { data: catalog, reload } = useCachedLoader(dentalCatalogLoader, "catalog");
+  return { catalog, reload };
+}
@@ -0,0 +1,11 @@
+import { useCachedLoader } from "@/hooks/useCachedLoader";
+import { labCalendarLoader } from "@/lib/workingDays";
+
+/**
+ * Loads the lab's working days, opening hours and closures.
+ * Components showing business time or delivery dates call this so they update when it arrives.
+ */
+export function useLabCalendar() {
+  const { data: labCalendar, reload } = useCachedLoader(labCalendarLoader, "lab calendar");
+  return { labCalendar, reload };
+}
@@ -0,0 +1,100 @@
+import { useState, useEffect } from "react";
+import {
+  clearLocalDraft,
+  deleteServerDraft,
+  isDraftEmpty,
+  loadLocalDraft,
+  saveLocalDraft,
+  saveServerDraft,
+  type OrderDraftData,
+} from "@/lib/orderDrafts";
+
+const AUTOSAVE_DELAY = 1000;
+
+type DraftContent = Omit<OrderDraftData, 'savedAt'>;
+
+/**
+ * Autosaves the order form to local storage (and to the server draft, once one exists).
+ * Autosave stays paused while a previously stored draft is waiting to be resumed or discarded,
+ * so the empty form never overwrites it.
+ */
+export function useOrderDraft(userId: string | null, draft: DraftContent) {
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [restorableDraft, setRestorableDraft] = useState<(OrderDraftData & { draftId?: string | null }) | null>(null);
+  const [autosaveEnabled, setAutosaveEnabled] = useState(false);
+  const serialized = JSON.stringify(draft);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const stored = loadLocalDraft(userId);
+    if (stored && !isDraftEmpty(stored)) {
+      setRestorableDraft(stored);
+    } else {
+      setAutosaveEnabled(true);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId || !autosaveEnabled) return;
+
+    const timeout = setTimeout(() => {
+      const current: DraftContent = JSON.parse(serialized);
+      if (isDraftEmpty(current)) {
+        clearLocalDraft(userId);
+        return;
+      }
+
+      const data = { ...current, savedAt: new Date().toISOString() };
+      saveLocalDraft(userId, data, draftId);
+      if (draftId) {
+        saveServerDraft(draftId, data).catch((error) => console.error('Error autosaving draft:', error));
+      }
+    }, AUTOSAVE_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [userId, autosaveEnabled, serialized, draftId]);
+
+  const saveToServer = async () => {
+    const data = { ...draft, savedAt: new Date().toISOString() };
+    const id = await saveServerDraft(draftId, data);
+    setDraftId(id);
+    if (userId) saveLocalDraft(userId, data, id);
+    return id;
+  };
+
+  // Called once the form holds a restored draft, so autosave continues on top of it
+  const resumeDraft = (id: string | null) => {
+    setDraftId(id);
+    setRestorableDraft(null);
+    setAutosaveEnabled(true);
+  };
+
+  const discardRestorableDraft = () => {
+    if (userId) clearLocalDraft(userId);
+    setRestorableDraft(null);
+    setAutosaveEnabled(true);
+  };
+
+  // After the order is submitted the draft has served its purpose
+  const clearDraft = async () => {
+    if (userId) clearLocalDraft(userId);
+    if (draftId) {
+      try {
+        await deleteServerDraft(draftId);
+      } catch (error) {
+        console.error('Error deleting draft:', error);
+      }
+    }
+    setDraftId(null);
+  };
+
+  return {
+    draftId,
+    restorableDraft,
+    saveToServer,
+    resumeDraft,
+    discardRestorableDraft,
+    clearDraft,
+  };
+}
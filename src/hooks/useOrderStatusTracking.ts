@@ -1,61 +1,10 @@
+import type { Tables } from "@/integrations/supabase/types";
 import { supabase } from "@/integrations/supabase/client";
+import { ACCEPTED_STATUSES } from "@/lib/orderWorkflow";
+import { getBusinessSeconds, getLabCalendar, type LabCalendar } from "@/lib/workingDays";
 
-interface StatusChangeParams {
-  orderId: string;
-  oldStatus: string | null;
-  newStatus: string;
-  userId: string;
-  previousChangedAt?: string;
-}
-
-export const recordStatusChange = async ({
-  orderId,
-  oldStatus,
-  newStatus,
-  userId,
-  previousChangedAt,
-}: StatusChangeParams) => {
-  // Calculate duration since last status change (if available)
-  let durationSeconds: number | null = null;
-  
-  if (previousChangedAt) {
-    const previousTime = new Date(previousChangedAt).getTime();
-    const currentTime = new Date().getTime();
-    durationSeconds = Math.floor((currentTime - previousTime) / 1000);
-  }
-
-  const { error } = await supabase
-    .from('order_status_history')
-    .insert({
-      order_id: orderId,
-      old_status: oldStatus,
-      new_status: newStatus,
-      changed_by: userId,
-      duration_seconds: durationSeconds,
-    });
-
-  if (error) {
-    console.error('Error recording status change:', error);
-    throw error;
-  }
-};
-
-export const getLastStatusChange = async (orderId: string) => {
-  const { data, error } = await supabase
-    .from('order_status_history')
-    .select('*')
-    .eq('order_id', orderId)
-    .order('changed_at', { ascending: false })
-    .limit(1)
-    .maybeSingle();
-
-  if (error) {
-    console.error('Error fetching last status change:', error);
-    return null;
-  }
-
-  return data;
-};
+// Status history rows are written by the record_order_status_change trigger
+// whenever orders.status changes; the helpers below only read them.
 
 export const getOrderStatusHistory = async (orderId: string) => {
   const { data, error } = await supabase
@@ -72,24 +21,42 @@ export const getOrderStatusHistory = async (orderId: string) => {
   return data || [];
 };
 
-export const calculateTotalProductionTime = (history: any[]) => {
+type StatusHistoryEntry = Pick<Tables<"order_status_history">, "new_status" | "changed_at">;
+
+// Acceptance and completion entries bounding the production time; null until completed
+export const getProductionInterval = (history: StatusHistoryEntry[]) => {
   // Find when the order was first accepted (moved from pending to in-progress or similar)
-  const acceptedStatuses = ['in-progress', 'projetando'];
   const completedStatus = 'completed';
 
-  const acceptedEntry = history.find(h => acceptedStatuses.includes(h.new_status));
+  const acceptedEntry = history.find(h => (ACCEPTED_STATUSES as string[]).includes(h.new_status));
   const completedEntry = history.find(h => h.new_status === completedStatus);
 
   if (!acceptedEntry || !completedEntry) {
     return null;
   }
 
-  const startTime = new Date(acceptedEntry.changed_at).getTime();
-  const endTime = new Date(completedEntry.changed_at).getTime();
+  return { start: acceptedEntry.changed_at, end: completedEntry.changed_at };
+};
+
+// Wall-clock time, nights and weekends included
+export const calculateTotalProductionTime = (history: StatusHistoryEntry[]) => {
+  const interval = getProductionInterval(history);
+  if (!interval) return null;
+
+  const startTime = new Date(interval.start).getTime();
+  const endTime = new Date(interval.end).getTime();
 
   return Math.floor((endTime - startTime) / 1000); // Return in seconds
 };
 
+// Only the time inside the lab's opening hours on working days (see lib/workingDays)
+export const calculateBusinessProductionTime = (history: StatusHistoryEntry[], calendar: LabCalendar = getLabCalendar()) => {
+  const interval = getProductionInterval(history);
+  if (!interval) return null;
+
+  return getBusinessSeconds(interval.start, interval.end, calendar);
+};
+
 export const formatDuration = (seconds: number | null): string => {
   if (seconds === null || seconds === undefined) return '-';
   
@@ -101,3 +68,14 @@ export const formatDuration = (seconds: number | null): string => {
   }
   return `${minutes}min`;
 };
+
+// Business time in working days of the lab's opening hours, e.g. "2,5 dias úteis (25h 0min)"
+export const formatBusinessDuration = (seconds: number | null, calendar: LabCalendar = getLabCalendar()): string => {
+  if (seconds === null || seconds === undefined) return '-';
+
+  const workdaySeconds = (calendar.workEnd - calendar.workStart) * 60;
+  const days = workdaySeconds > 0 ? seconds / workdaySeconds : 0;
+  const daysLabel = days.toLocaleString('pt-BR', { maximumFractionDigits: 1 });
+
+  return `${daysLabel} ${days === 1 ? 'dia útil' : 'dias úteis'} (${formatDuration(seconds)})`;
+};
@@ -0,0 +1,11 @@
+import { useCachedLoader } from "@/hooks/useCachedLoader";
+import { priceTablesLoader } from "@/lib/pricing";
+
+/**
+ * Loads the price tables, clinic discounts and urgency surcharges visible to the user.
+ * Components showing quotes call this so they update when the prices arrive.
+ */
+export function usePriceTables() {
+  const { data: priceTables, reload } = useCachedLoader(priceTablesLoader, "price tables");
+  return { priceTables, reload };
+}
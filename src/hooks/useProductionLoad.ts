@@ -0,0 +1,26 @@
+import { useState, useEffect } from "react";
+import { emptyProductionLoad, fetchProductionLoad } from "@/lib/deliveryEstimates";
+
+/**
+ * Loads the station capacities and open-order queue once, for delivery date suggestions.
+ * Until it arrives (or if it fails) the estimate only uses the lead times.
+ */
+export function useProductionLoad() {
+  const [productionLoad, setProductionLoad] = useState(emptyProductionLoad);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchProductionLoad()
+      .then((loaded) => {
+        if (!cancelled) setProductionLoad(loaded);
+      })
+      .catch((error) => console.error('Error loading production load:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return productionLoad;
+}
@@ -0,0 +1,16 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { getToothNumbering, loadToothNumbering, subscribeToothNumbering } from "@/lib/toothNumbering";
+
+/**
+ * Loads the user's tooth numbering system and re-renders whenever it changes.
+ * Components showing tooth numbers call this so they follow the setting.
+ */
+export function useToothNumbering() {
+  const numbering = useSyncExternalStore(subscribeToothNumbering, getToothNumbering);
+
+  useEffect(() => {
+    loadToothNumbering().catch((error) => console.error('Error loading tooth numbering:', error));
+  }, []);
+
+  return numbering;
+}
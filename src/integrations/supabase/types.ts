@@ -14,10 +14,484 @@ export type Database = {
   }
   public: {
     Tables: {
+      catalog_items: {
+        Row: {
+          abbreviation: string | null
+          active: boolean
+          color: string
+          created_at: string
+          id: string
+          kind: string
+          label: string
+          lead_time_days: number
+          sort_order: number
+          updated_at: string
+          value: string
+        }
+        Insert: {
+          abbreviation?: string | null
+          active?: boolean
+          color?: string
+          created_at?: string
+          id?: string
+          kind: string
+          label: string
+          lead_time_days?: number
+          sort_order?: number
+          updated_at?: string
+          value: string
+        }
+        Update: {
+          abbreviation?: string | null
+          active?: boolean
+          color?: string
+          created_at?: string
+          id?: string
+          kind?: string
+          label?: string
+          lead_time_days?: number
+          sort_order?: number
+          updated_at?: string
+          value?: string
+        }
+        Relationships: []
+      }
+      catalog_presets: {
+        Row: {
+          active: boolean
+          clinic_id: string | null
+          configs: Json
+          created_at: string
+          created_by: string | null
+          id: string
+          label: string
+          shared: boolean
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          clinic_id?: string | null
+          configs?: Json
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          label: string
+          shared?: boolean
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          clinic_id?: string | null
+          configs?: Json
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          label?: string
+          shared?: boolean
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "catalog_presets_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      catalog_work_type_materials: {
+        Row: {
+          material: string
+          work_type: string
+        }
+        Insert: {
+          material: string
+          work_type: string
+        }
+        Update: {
+          material?: string
+          work_type?: string
+        }
+        Relationships: []
+      }
+      clinic_pricing: {
+        Row: {
+          clinic_id: string
+          discount_percent: number
+          updated_at: string
+        }
+        Insert: {
+          clinic_id: string
+          discount_percent?: number
+          updated_at?: string
+        }
+        Update: {
+          clinic_id?: string
+          discount_percent?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clinic_pricing_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: true
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      clinics: {
+        Row: {
+          address: string | null
+          created_at: string
+          email: string | null
+          id: string
+          name: string
+          phone: string | null
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          name: string
+          phone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          name?: string
+          phone?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      invoice_items: {
+        Row: {
+          amount: number
+          completed_at: string
+          created_at: string
+          id: string
+          invoice_id: string
+          order_id: string | null
+          order_number: string
+          patient_name: string
+        }
+        Insert: {
+          amount?: number
+          completed_at: string
+          created_at?: string
+          id?: string
+          invoice_id: string
+          order_id?: string | null
+          order_number: string
+          patient_name: string
+        }
+        Update: {
+          amount?: number
+          completed_at?: string
+          created_at?: string
+          id?: string
+          invoice_id?: string
+          order_id?: string | null
+          order_number?: string
+          patient_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_items_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_number_counters: {
+        Row: {
+          last_value: number
+          period: string
+        }
+        Insert: {
+          last_value?: number
+          period: string
+        }
+        Update: {
+          last_value?: number
+          period?: string
+        }
+        Relationships: []
+      }
+      invoices: {
+        Row: {
+          clinic_id: string
+          created_at: string
+          due_date: string
+          id: string
+          invoice_number: string
+          paid_at: string | null
+          period: string
+          total: number
+          updated_at: string
+        }
+        Insert: {
+          clinic_id: string
+          created_at?: string
+          due_date: string
+          id?: string
+          invoice_number: string
+          paid_at?: string | null
+          period: string
+          total?: number
+          updated_at?: string
+        }
+        Update: {
+          clinic_id?: string
+          created_at?: string
+          due_date?: string
+          id?: string
+          invoice_number?: string
+          paid_at?: string | null
+          period?: string
+          total?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lab_closures: {
+        Row: {
+          created_at: string
+          end_date: string
+          id: string
+          reason: string
+          start_date: string
+        }
+        Insert: {
+          created_at?: string
+          end_date: string
+          id?: string
+          reason: string
+          start_date: string
+        }
+        Update: {
+          created_at?: string
+          end_date?: string
+          id?: string
+          reason?: string
+          start_date?: string
+        }
+        Relationships: []
+      }
+      lab_settings: {
+        Row: {
+          id: boolean
+          invoice_due_days: number
+          order_number_prefix: string
+          updated_at: string
+          work_days: number[]
+          work_end: string
+          work_start: string
+        }
+        Insert: {
+          id?: boolean
+          invoice_due_days?: number
+          order_number_prefix?: string
+          updated_at?: string
+          work_days?: number[]
+          work_end?: string
+          work_start?: string
+        }
+        Update: {
+          id?: boolean
+          invoice_due_days?: number
+          order_number_prefix?: string
+          updated_at?: string
+          work_days?: number[]
+          work_end?: string
+          work_start?: string
+        }
+        Relationships: []
+      }
+      order_drafts: {
+        Row: {
+          clinic_id: string | null
+          created_at: string
+          data: Json
+          id: string
+          patient_name: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          clinic_id?: string | null
+          created_at?: string
+          data: Json
+          id?: string
+          patient_name?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          clinic_id?: string | null
+          created_at?: string
+          data?: Json
+          id?: string
+          patient_name?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_drafts_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_files: {
+        Row: {
+          category: string
+          created_at: string
+          file_name: string
+          id: string
+          mime_type: string | null
+          order_id: string
+          size_bytes: number | null
+          storage_path: string
+          uploaded_by: string | null
+        }
+        Insert: {
+          category: string
+          created_at?: string
+          file_name: string
+          id?: string
+          mime_type?: string | null
+          order_id: string
+          size_bytes?: number | null
+          storage_path: string
+          uploaded_by?: string | null
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          file_name?: string
+          id?: string
+          mime_type?: string | null
+          order_id?: string
+          size_bytes?: number | null
+          storage_path?: string
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_files_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_items: {
+        Row: {
+          created_at: string
+          id: string
+          implant_type: string | null
+          material: string | null
+          order_id: string
+          shade: string | null
+          shade_cervical: string | null
+          shade_incisal: string | null
+          stump_shade: string | null
+          tooth_number: string
+          unit_id: string | null
+          unit_type: string | null
+          work_type: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          implant_type?: string | null
+          material?: string | null
+          order_id: string
+          shade?: string | null
+          shade_cervical?: string | null
+          shade_incisal?: string | null
+          stump_shade?: string | null
+          tooth_number: string
+          unit_id?: string | null
+          unit_type?: string | null
+          work_type: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          implant_type?: string | null
+          material?: string | null
+          order_id?: string
+          shade?: string | null
+          shade_cervical?: string | null
+          shade_incisal?: string | null
+          stump_shade?: string | null
+          tooth_number?: string
+          unit_id?: string | null
+          unit_type?: string | null
+          work_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_number_counters: {
+        Row: {
+          last_value: number
+          year: number
+        }
+        Insert: {
+          last_value?: number
+          year: number
+        }
+        Update: {
+          last_value?: number
+          year?: number
+        }
+        Relationships: []
+      }
       order_status_history: {
         Row: {
           changed_at: string
-          changed_by: string
+          changed_by: string | null
           duration_seconds: number | null
           id: string
           new_status: string
@@ -26,7 +500,7 @@ export type Database = {
         }
         Insert: {
           changed_at?: string
-          changed_by: string
+          changed_by?: string | null
           duration_seconds?: number | null
           id?: string
           new_status: string
@@ -35,7 +509,7 @@ export type Database = {
         }
         Update: {
           changed_at?: string
-          changed_by?: string
+          changed_by?: string | null
           duration_seconds?: number | null
           id?: string
           new_status?: string
@@ -52,12 +526,28 @@ export type Database = {
           },
         ]
       }
+      order_status_transitions: {
+        Row: {
+          from_status: string
+          to_status: string
+        }
+        Insert: {
+          from_status: string
+          to_status: string
+        }
+        Update: {
+          from_status?: string
+          to_status?: string
+        }
+        Relationships: []
+      }
       orders: {
         Row: {
           additional_notes: string | null
           address: string | null
           admin_notes: string | null
           assigned_to: string | null
+          clinic_id: string | null
           clinic_name: string | null
           color: string | null
           created_at: string
@@ -66,16 +556,22 @@ export type Database = {
           dentist_name: string
           email: string | null
           id: string
+          is_warranty: boolean
           material: string | null
           order_number: string
+          parent_order_id: string | null
           patient_id: string | null
           patient_name: string
           phone: string | null
+          price_quote: Json | null
+          price_total: number | null
           prosthesis_type: string | null
+          remake_reason: string | null
           scan_file_url: string | null
           selected_teeth: string[]
           smile_photo_url: string | null
           status: string
+          tracking_token: string
           updated_at: string
         }
         Insert: {
@@ -83,6 +579,7 @@ export type Database = {
           address?: string | null
           admin_notes?: string | null
           assigned_to?: string | null
+          clinic_id?: string | null
           clinic_name?: string | null
           color?: string | null
           created_at?: string
@@ -91,16 +588,22 @@ export type Database = {
           dentist_name: string
           email?: string | null
           id?: string
+          is_warranty?: boolean
           material?: string | null
-          order_number: string
+          order_number?: string
+          parent_order_id?: string | null
           patient_id?: string | null
           patient_name: string
           phone?: string | null
+          price_quote?: Json | null
+          price_total?: number | null
           prosthesis_type?: string | null
+          remake_reason?: string | null
           scan_file_url?: string | null
           selected_teeth: string[]
           smile_photo_url?: string | null
           status?: string
+          tracking_token?: string
           updated_at?: string
         }
         Update: {
@@ -108,6 +611,7 @@ export type Database = {
           address?: string | null
           admin_notes?: string | null
           assigned_to?: string | null
+          clinic_id?: string | null
           clinic_name?: string | null
           color?: string | null
           created_at?: string
@@ -116,16 +620,22 @@ export type Database = {
           dentist_name?: string
           email?: string | null
           id?: string
+          is_warranty?: boolean
           material?: string | null
           order_number?: string
+          parent_order_id?: string | null
           patient_id?: string | null
           patient_name?: string
           phone?: string | null
+          price_quote?: Json | null
+          price_total?: number | null
           prosthesis_type?: string | null
+          remake_reason?: string | null
           scan_file_url?: string | null
           selected_teeth?: string[]
           smile_photo_url?: string | null
           status?: string
+          tracking_token?: string
           updated_at?: string
         }
         Relationships: [
@@ -136,28 +646,136 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["user_id"]
           },
+          {
+            foreignKeyName: "orders_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_parent_order_id_fkey"
+            columns: ["parent_order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      price_table_entries: {
+        Row: {
+          clinic_id: string | null
+          created_at: string
+          id: string
+          implant_type: string | null
+          material: string | null
+          price: number
+          updated_at: string
+          work_type: string
+        }
+        Insert: {
+          clinic_id?: string | null
+          created_at?: string
+          id?: string
+          implant_type?: string | null
+          material?: string | null
+          price: number
+          updated_at?: string
+          work_type: string
+        }
+        Update: {
+          clinic_id?: string | null
+          created_at?: string
+          id?: string
+          implant_type?: string | null
+          material?: string | null
+          price?: number
+          updated_at?: string
+          work_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_table_entries_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      price_urgency_surcharges: {
+        Row: {
+          created_at: string
+          id: string
+          max_days: number
+          surcharge_percent: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          max_days: number
+          surcharge_percent: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          max_days?: number
+          surcharge_percent?: number
+        }
+        Relationships: []
+      }
+      production_station_capacity: {
+        Row: {
+          daily_units: number
+          station: string
+          updated_at: string
+        }
+        Insert: {
+          daily_units: number
+          station: string
+          updated_at?: string
+        }
+        Update: {
+          daily_units?: number
+          station?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
+          clinic_id: string | null
           created_at: string
           id: string
+          tooth_numbering: string
           user_id: string
           username: string
         }
         Insert: {
+          clinic_id?: string | null
           created_at?: string
           id?: string
+          tooth_numbering?: string
           user_id: string
           username: string
         }
         Update: {
+          clinic_id?: string | null
           created_at?: string
           id?: string
+          tooth_numbering?: string
           user_id?: string
           username?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "profiles_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_roles: {
         Row: {
@@ -185,6 +803,52 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      create_order: {
+        Args: {
+          _files?: Json
+          _items: Json
+          _order: Json
+        }
+        Returns: Database["public"]["Tables"]["orders"]["Row"]
+      }
+      current_clinic_id: {
+        Args: never
+        Returns: string
+      }
+      generate_invoices: {
+        Args: {
+          _period: string
+        }
+        Returns: number
+      }
+      get_order_tracking: {
+        Args: {
+          _token: string
+        }
+        Returns: Json
+      }
+      get_production_queue: {
+        Args: never
+        Returns: {
+          orders: number
+          status: string
+          units: number
+        }[]
+      }
+      get_unbilled_orders: {
+        Args: {
+          _period: string
+        }
+        Returns: {
+          amount: number
+          clinic_id: string
+          clinic_name: string
+          completed_at: string
+          id: string
+          order_number: string
+          patient_name: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -192,9 +856,34 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_lab_staff: {
+        Args: {
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      next_order_number: {
+        Args: never
+        Returns: string
+      }
+      normalize_shade: {
+        Args: {
+          _shade: string
+        }
+        Returns: string
+      }
+      quote_order: {
+        Args: {
+          _clinic_id: string
+          _date: string
+          _deadline: string
+          _items: Json
+        }
+        Returns: Json
+      }
     }
     Enums: {
-      app_role: "admin" | "user"
+      app_role: "admin" | "user" | "dentist"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -322,7 +1011,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "user"],
+      app_role: ["admin", "user", "dentist"],
     },
   },
 } as const
@@ -0,0 +1,74 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Data loaded once and cached at module level so helpers can read it synchronously (price
+// tables, catalog, lab calendar). Each cache holds what the signed-in user may see, so all of
+// them are dropped when the user signs out or another one signs in; mounted components load
+// them again through useCachedLoader.
+
+export interface CachedLoader<T> {
+  get: () => T;
+  // Shared by every component mounting at the same time; `refresh` refetches after edits
+  load: (refresh?: boolean) => Promise<T>;
+  // Called whenever the cached value changes or is dropped
+  subscribe: (listener: () => void) => () => void;
+}
+
+const resets = new Set<() => void>();
+
+export const createCachedLoader = <T>(fetch: () => Promise<T>, initial: T): CachedLoader<T> => {
+  let value = initial;
+  let request: Promise<T> | null = null;
+  // Bumped on reset so a request started for the previous user cannot fill the cache
+  let generation = 0;
+  const listeners = new Set<() => void>();
+  const notify = () => listeners.forEach(listener => listener());
+
+  const load = (refresh = false) => {
+    if (!request || refresh) {
+      const started = generation;
+      const current: Promise<T> = fetch()
+        .then((loaded) => {
+          if (started === generation) {
+            value = loaded;
+            notify();
+          }
+          return loaded;
+        })
+        .catch((error) => {
+          if (request === current) request = null;
+          throw error;
+        });
+      request = current;
+    }
+    return request;
+  };
+
+  resets.add(() => {
+    generation++;
+    value = initial;
+    request = null;
+    notify();
+  });
+
+  return {
+    get: () => value,
+    load,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+// undefined until the first auth event tells who is signed in
+let currentUserId: string | null | undefined;
+
+supabase.auth.onAuthStateChange((_event, session) => {
+  const userId = session?.user.id ?? null;
+  if (currentUserId !== undefined && userId !== currentUserId) {
+    resets.forEach(reset => reset());
+  }
+  currentUserId = userId;
+});
@@ -0,0 +1,99 @@
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { ToothConfig } from "@/components/tooth-selection";
+import type { DentalCatalog } from "@/lib/dentalCatalog";
+import { BENCH_STATIONS, getStation, type ProductionStation } from "@/lib/orderWorkflow";
+import { addWorkingDays, getLabCalendar, type LabCalendar } from "@/lib/workingDays";
+
+// Earliest feasible delivery date for a new order: the production lead time of its slowest
+// tooth (work type days plus material days, set in /catalogo) plus the working days the
+// busiest bench station needs to get through the open orders ahead of it.
+
+export interface ProductionLoad {
+  // Units each bench station finishes per working day; stations without a capacity never limit
+  capacity: Partial<Record<ProductionStation, number>>;
+  // Open units that still have to pass through each bench station
+  backlog: Partial<Record<ProductionStation, number>>;
+}
+
+export interface DeliveryEstimate {
+  leadDays: number;
+  queueDays: number;
+  // Station causing the queue days; null when no station is behind
+  bottleneck: ProductionStation | null;
+  earliestDate: string;
+}
+
+export const emptyProductionLoad: ProductionLoad = { capacity: {}, backlog: {} };
+
+export const fetchProductionLoad = async (): Promise<ProductionLoad> => {
+  const [capacityResult, queueResult] = await Promise.all([
+    supabase.from('production_station_capacity').select('station, daily_units'),
+    supabase.rpc('get_production_queue'),
+  ]);
+
+  if (capacityResult.error) throw capacityResult.error;
+  if (queueResult.error) throw queueResult.error;
+
+  const backlog: ProductionLoad["backlog"] = {};
+  queueResult.data.forEach(({ status, units }) => {
+    const station = getStation(status);
+    // Waiting orders go through every station; orders at the exit are not in production
+    const from = station === "espera" ? 0 : BENCH_STATIONS.indexOf(station);
+    if (from < 0) return;
+    BENCH_STATIONS.slice(from).forEach(ahead => {
+      backlog[ahead] = (backlog[ahead] || 0) + Number(units);
+    });
+  });
+
+  return {
+    capacity: Object.fromEntries(capacityResult.data.map(row => [row.station, row.daily_units])),
+    backlog,
+  };
+};
+
+// Working days of production for the slowest tooth
+export const getLeadTimeDays = (configs: ToothConfig[], catalog: DentalCatalog) => {
+  const leadTime = (items: DentalCatalog["workTypes"], value?: string) =>
+    (value && items.find(item => item.value === value)?.lead_time_days) || 0;
+
+  return Math.max(0, ...configs.map(config =>
+    leadTime(catalog.workTypes, config.workType) + leadTime(catalog.materials, config.material)
+  ));
+};
+
+// null without teeth; dates before today are estimated from today
+export const estimateDelivery = (
+  configs: ToothConfig[],
+  date: string,
+  catalog: DentalCatalog,
+  load: ProductionLoad,
+  calendar: LabCalendar = getLabCalendar(),
+): DeliveryEstimate | null => {
+  if (configs.length === 0) return null;
+
+  const leadDays = getLeadTimeDays(configs, catalog);
+
+  // Extra days a station needs beyond the first to finish everything ahead plus this order
+  let queueDays = 0;
+  let bottleneck: ProductionStation | null = null;
+  BENCH_STATIONS.forEach(station => {
+    const capacity = load.capacity[station];
+    if (!capacity) return;
+    const days = Math.ceil(((load.backlog[station] || 0) + configs.length) / capacity) - 1;
+    if (days > queueDays) {
+      queueDays = days;
+      bottleneck = station;
+    }
+  });
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const start = date && date > today ? date : today;
+
+  return {
+    leadDays,
+    queueDays,
+    bottleneck,
+    earliestDate: format(addWorkingDays(parseISO(start), leadDays + queueDays, calendar), "yyyy-MM-dd"),
+  };
+};
@@ -0,0 +1,110 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { supabase } from "@/integrations/supabase/client";
+import { createCachedLoader } from "@/lib/cachedLoader";
+
+// Work types, implant connections and materials are managed by admins in the
+// catalog tables (see /catalogo). The catalog is loaded once and cached here so label
+// helpers stay synchronous; components read it through useDentalCatalog.
+
+export type CatalogItem = Tables<"catalog_items">;
+
+export type CatalogKind = "work_type" | "implant_type" | "material";
+
+export const CATALOG_KIND_LABELS: Record<CatalogKind, string> = {
+  work_type: "Tipos de Trabalho",
+  implant_type: "Conexões de Implante",
+  material: "Materiais",
+};
+
+export interface DentalCatalog {
+  workTypes: CatalogItem[];
+  implantTypes: CatalogItem[];
+  materials: CatalogItem[];
+  // Allowed material values per work type; work types not listed accept any material
+  workTypeMaterials: Record<string, string[]>;
+}
+
+const emptyCatalog: DentalCatalog = {
+  workTypes: [],
+  implantTypes: [],
+  materials: [],
+  workTypeMaterials: {},
+};
+
+const fetchDentalCatalog = async (): Promise<DentalCatalog> => {
+  const [itemsResult, allowedResult] = await Promise.all([
+    supabase.from('catalog_items').select('*').order('sort_order').order('label'),
+    supabase.from('catalog_work_type_materials').select('*'),
+  ]);
+
+  if (itemsResult.error) throw itemsResult.error;
+  if (allowedResult.error) throw allowedResult.error;
+
+  const items = itemsResult.data;
+  const workTypeMaterials: Record<string, string[]> = {};
+  allowedResult.data.forEach(({ work_type, material }) => {
+    workTypeMaterials[work_type] = [...(workTypeMaterials[work_type] || []), material];
+  });
+
+  return {
+    workTypes: items.filter(item => item.kind === 'work_type'),
+    implantTypes: items.filter(item => item.kind === 'implant_type'),
+    materials: items.filter(item => item.kind === 'material'),
+    workTypeMaterials,
+  };
+};
+
+export const dentalCatalogLoader = createCachedLoader(fetchDentalCatalog, emptyCatalog);
+
+export const getDentalCatalog = dentalCatalogLoader.get;
+
+export const loadDentalCatalog = dentalCatalogLoader.load;
+
+export const getActiveItems = <T extends { active: boolean }>(items: T[]) => items.filter(item => item.active);
+
+export const getAllowedMaterials = (workType: string) => {
+  const catalog = getDentalCatalog();
+  const allowed = catalog.workTypeMaterials[workType];
+  const materials = getActiveItems(catalog.materials);
+  return allowed ? materials.filter(m => allowed.includes(m.value)) : materials;
+};
+
+export const isMaterialAllowed = (workType: string, material: string) =>
+  getAllowedMaterials(workType).some(m => m.value === material);
+
+// Inactive items are still looked up so older orders keep their labels
+export const getWorkTypeLabel = (value: string) => {
+  return getDentalCatalog().workTypes.find(t => t.value === value)?.label || value;
+};
+
+export const getImplantTypeLabel = (value: string) => {
+  return getDentalCatalog().implantTypes.find(t => t.value === value)?.label || value;
+};
+
+export const getMaterialLabel = (value: string) => {
+  return getDentalCatalog().materials.find(t => t.value === value)?.label || value;
+};
+
+export const getMaterialAbbreviation = (value: string) => {
+  return getDentalCatalog().materials.find(t => t.value === value)?.abbreviation || getMaterialLabel(value);
+};
+
+export const getWorkTypeColor = (value: string) => {
+  return getDentalCatalog().workTypes.find(t => t.value === value)?.color || "#4b5563";
+};
+
+// White or near-black text, whichever reads better on the item colour
+export const getCatalogTextColor = (hex: string) => {
+  const [r, g, b] = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+  return r * 0.299 + g * 0.587 + b * 0.114 > 170 ? "#1f2937" : "#ffffff";
+};
+
+// Stable identifier for a new item, e.g. "Munhão Universal (3.3x4)" -> "munhao_universal_3.3x4"
+export const toCatalogValue = (label: string) =>
+  label
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[()]/g, "")
+    .replace(/[^a-z0-9.]+/g, "_")
+    .replace(/^_+|_+$/g, "");
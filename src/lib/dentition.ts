@@ -0,0 +1,58 @@
+// Permanent (11–48) and primary (51–85) teeth in FDI. The odontogram shows one chart or
+// both (mixed dentition); orders and presets may hold teeth from either.
+
+export const DENTITIONS = ["permanent", "primary", "mixed"] as const;
+
+export type Dentition = typeof DENTITIONS[number];
+
+export const DENTITION_LABELS: Record<Dentition, string> = {
+  permanent: "Permanente",
+  primary: "Decídua",
+  mixed: "Mista",
+};
+
+export interface DentitionQuadrants {
+  upperRight: string[];
+  upperLeft: string[];
+  lowerRight: string[];
+  lowerLeft: string[];
+}
+
+// Quadrants as drawn on the odontogram: the patient's right on the viewer's left, midline inwards
+export const PERMANENT_TEETH: DentitionQuadrants = {
+  upperRight: ["18", "17", "16", "15", "14", "13", "12", "11"],
+  upperLeft: ["21", "22", "23", "24", "25", "26", "27", "28"],
+  lowerRight: ["48", "47", "46", "45", "44", "43", "42", "41"],
+  lowerLeft: ["31", "32", "33", "34", "35", "36", "37", "38"],
+};
+
+export const PRIMARY_TEETH: DentitionQuadrants = {
+  upperRight: ["55", "54", "53", "52", "51"],
+  upperLeft: ["61", "62", "63", "64", "65"],
+  lowerRight: ["85", "84", "83", "82", "81"],
+  lowerLeft: ["71", "72", "73", "74", "75"],
+};
+
+// Teeth in mesial-distal sequence along each arch, right to left from the patient's view
+export const ARCHES: Record<string, string[]> = {
+  upper: [...PERMANENT_TEETH.upperRight, ...PERMANENT_TEETH.upperLeft],
+  lower: [...PERMANENT_TEETH.lowerRight, ...PERMANENT_TEETH.lowerLeft],
+  upperPrimary: [...PRIMARY_TEETH.upperRight, ...PRIMARY_TEETH.upperLeft],
+  lowerPrimary: [...PRIMARY_TEETH.lowerRight, ...PRIMARY_TEETH.lowerLeft],
+};
+
+export const ALL_TEETH = Object.values(ARCHES).flat();
+
+export const isValidTooth = (tooth: string) => ALL_TEETH.includes(tooth);
+
+export const isPrimaryTooth = (tooth: string) => Number(tooth[0]) >= 5;
+
+// Chart able to show every given tooth; permanent when there are none
+export const getDentitionForTeeth = (teeth: string[]): Dentition => {
+  const primary = teeth.filter(isPrimaryTooth).length;
+  if (primary === 0) return "permanent";
+  return primary === teeth.length ? "primary" : "mixed";
+};
+
+export const dentitionIncludes = (dentition: Dentition, teeth: string[]) =>
+  dentition === "mixed" || teeth.every(tooth => isPrimaryTooth(tooth) === (dentition === "primary"));
@@ -0,0 +1,117 @@
+import { jsPDF } from "jspdf";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { INVOICE_STATUS_LABELS, formatInvoicePeriod, getInvoiceStatus, type Invoice } from "@/lib/invoices";
+import { formatCurrency } from "@/lib/pricing";
+import { loadImage } from "@/lib/workOrderPdf";
+
+// A4 billing statement sent to the clinic: every order billed on the invoice and the total due.
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+
+const COLUMNS: { label: string; width: number; align?: "right" }[] = [
+  { label: "OS", width: 40 },
+  { label: "Paciente", width: 80 },
+  { label: "Concluído em", width: 30 },
+  { label: "Valor", width: 30, align: "right" },
+];
+
+const formatDate = (date: string) => format(parseISO(date), "dd/MM/yyyy", { locale: ptBR });
+
+export const buildInvoicePdf = async (invoice: Invoice) => {
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  let y = MARGIN;
+
+  try {
+    doc.addImage(await loadImage("/header-logo-new.png"), "PNG", MARGIN, y, 14, 14);
+  } catch (error) {
+    console.error('Error loading logo:', error);
+  }
+
+  doc.setTextColor(17, 24, 39);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(16);
+  doc.text("Laboratório Odontológico", MARGIN + 18, y + 6);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(11);
+  doc.text("Extrato de Faturamento", MARGIN + 18, y + 12);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(14);
+  doc.text(invoice.invoice_number, PAGE_WIDTH - MARGIN, y + 6, { align: "right" });
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.text(`Competência: ${formatInvoicePeriod(invoice.period)}`, PAGE_WIDTH - MARGIN, y + 12, { align: "right" });
+  y += 24;
+
+  const fields: [string, string][] = [
+    ["Clínica", invoice.clinic?.name || "-"],
+    ["Email", invoice.clinic?.email || "-"],
+    ["Telefone", invoice.clinic?.phone || "-"],
+    ["Endereço", invoice.clinic?.address || "-"],
+    ["Vencimento", formatDate(invoice.due_date)],
+    ["Situação", INVOICE_STATUS_LABELS[getInvoiceStatus(invoice)]],
+  ];
+  doc.setFontSize(10);
+  fields.forEach(([label, value]) => {
+    doc.setFont("helvetica", "bold");
+    doc.text(`${label}:`, MARGIN, y);
+    doc.setFont("helvetica", "normal");
+    doc.text(doc.splitTextToSize(value, PAGE_WIDTH - MARGIN * 2 - 28)[0], MARGIN + 28, y);
+    y += 6;
+  });
+  y += 4;
+
+  const drawRow = (values: string[], bold: boolean) => {
+    if (y + 7 > PAGE_HEIGHT - MARGIN - 10) {
+      doc.addPage();
+      y = MARGIN;
+    }
+    doc.setFont("helvetica", bold ? "bold" : "normal");
+    doc.setFontSize(9);
+    let x = MARGIN;
+    values.forEach((value, index) => {
+      const column = COLUMNS[index];
+      const text = doc.splitTextToSize(value, column.width - 2)[0];
+      if (column.align === "right") doc.text(text, x + column.width, y + 4, { align: "right" });
+      else doc.text(text, x, y + 4);
+      x += column.width;
+    });
+    y += 6;
+    doc.setDrawColor(229, 231, 235);
+    doc.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+  };
+
+  drawRow(COLUMNS.map(column => column.label), true);
+  invoice.invoice_items.forEach(item =>
+    drawRow([item.order_number, item.patient_name, formatDate(item.completed_at), formatCurrency(Number(item.amount))], false)
+  );
+
+  y += 8;
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(12);
+  doc.text(
+    `Total (${invoice.invoice_items.length} ${invoice.invoice_items.length === 1 ? "pedido" : "pedidos"}): ${formatCurrency(Number(invoice.total))}`,
+    PAGE_WIDTH - MARGIN,
+    y,
+    { align: "right" },
+  );
+
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.setTextColor(107, 114, 128);
+    doc.text(`Gerado em ${format(new Date(), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}`, MARGIN, PAGE_HEIGHT - 8);
+    doc.text(`${invoice.invoice_number} · Página ${page} de ${pages}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 8, { align: "right" });
+  }
+
+  return doc;
+};
+
+export const downloadInvoicePdf = async (invoice: Invoice) => {
+  const doc = await buildInvoicePdf(invoice);
+  doc.save(`${invoice.invoice_number}.pdf`);
+};
@@ -0,0 +1,137 @@
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { Database, Tables } from "@/integrations/supabase/types";
+import { supabase } from "@/integrations/supabase/client";
+
+// Monthly invoices per clinic, generated by public.generate_invoices from the orders completed
+// in a closed month. Totals are kept in sync with the items by a database trigger.
+
+export type InvoiceItem = Tables<"invoice_items">;
+
+export type Invoice = Tables<"invoices"> & {
+  clinic: { name: string; email: string | null; phone: string | null; address: string | null } | null;
+  invoice_items: InvoiceItem[];
+};
+
+// Completed order of the month that is on no invoice (see public.get_unbilled_orders)
+export type UnbilledOrder = Database["public"]["Functions"]["get_unbilled_orders"]["Returns"][number];
+
+export type InvoiceStatus = "paid" | "unpaid" | "overdue";
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  paid: "Paga",
+  unpaid: "Em aberto",
+  overdue: "Vencida",
+};
+
+export const INVOICE_STATUS_COLORS: Record<InvoiceStatus, string> = {
+  paid: "bg-green-100 text-green-800 border-green-300",
+  unpaid: "bg-yellow-100 text-yellow-800 border-yellow-300",
+  overdue: "bg-red-100 text-red-800 border-red-300",
+};
+
+// Overdue from the day after the due date
+export const getInvoiceStatus = (invoice: Pick<Invoice, "paid_at" | "due_date">, today = format(new Date(), "yyyy-MM-dd")): InvoiceStatus => {
+  if (invoice.paid_at) return "paid";
+  return invoice.due_date < today ? "overdue" : "unpaid";
+};
+
+// "2025-11-01" -> "novembro de 2025"
+export const formatInvoicePeriod = (period: string) => format(parseISO(period), "MMMM 'de' yyyy", { locale: ptBR });
+
+export const fetchInvoices = async (period?: string) => {
+  let query = supabase
+    .from('invoices')
+    .select('*, clinic:clinics(name, email, phone, address), invoice_items(*)')
+    .order('period', { ascending: false })
+    .order('invoice_number');
+
+  if (period) query = query.eq('period', period);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data.map(invoice => ({
+    ...invoice,
+    invoice_items: [...invoice.invoice_items].sort((a, b) => a.completed_at.localeCompare(b.completed_at)),
+  })) as Invoice[];
+};
+
+export const fetchUnbilledOrders = async (period: string) => {
+  const { data, error } = await supabase.rpc('get_unbilled_orders', { _period: period });
+  if (error) throw error;
+  return data;
+};
+
+// Why generate_invoices has not billed the order; `invoices` are the invoices of its month
+export const getUnbilledReason = (order: UnbilledOrder, invoices: Pick<Invoice, "clinic_id" | "invoice_number" | "paid_at">[]) => {
+  if (!order.clinic_id) return "Sem clínica vinculada";
+  const invoice = invoices.find(invoice => invoice.clinic_id === order.clinic_id);
+  return invoice?.paid_at ? `Fatura ${invoice.invoice_number} já paga` : "Aguardando geração das faturas";
+};
+
+// Returns the number of orders added to invoices
+export const generateInvoices = async (period: string) => {
+  const { data, error } = await supabase.rpc('generate_invoices', { _period: period });
+  if (error) throw error;
+  return data;
+};
+
+export const setInvoicePaid = async (invoiceId: string, paid: boolean) => {
+  const { error } = await supabase
+    .from('invoices')
+    .update({ paid_at: paid ? new Date().toISOString() : null })
+    .eq('id', invoiceId);
+
+  if (error) throw error;
+};
+
+export const updateInvoiceItemAmount = async (itemId: string, amount: number) => {
+  const { error } = await supabase
+    .from('invoice_items')
+    .update({ amount })
+    .eq('id', itemId);
+
+  if (error) throw error;
+};
+
+// One row per billed order, semicolon-separated with decimal commas as spreadsheets in pt-BR expect
+export const buildInvoicesCsv = (invoices: Invoice[]) => {
+  // Text starting like a formula (e.g. a patient named "=HYPERLINK(...)") is kept as text
+  const escape = (value: string) => {
+    const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const amount = (value: number) => Number(value).toFixed(2).replace(".", ",");
+  const date = (value: string | null) => (value ? format(parseISO(value), "dd/MM/yyyy") : "");
+
+  const header = ["Fatura", "Competência", "Clínica", "Vencimento", "Status", "Pago em", "OS", "Paciente", "Concluído em", "Valor"];
+  const rows = invoices.flatMap(invoice =>
+    invoice.invoice_items.map(item => [
+      invoice.invoice_number,
+      format(parseISO(invoice.period), "MM/yyyy"),
+      invoice.clinic?.name || "",
+      date(invoice.due_date),
+      INVOICE_STATUS_LABELS[getInvoiceStatus(invoice)],
+      date(invoice.paid_at),
+      item.order_number,
+      item.patient_name,
+      date(item.completed_at),
+      amount(item.amount),
+    ])
+  );
+
+  // BOM so Excel opens the accents correctly
+  return "\uFEFF" + [header, ...rows].map(row => row.map(escape).join(";")).join("\r\n");
+};
+
+export const downloadInvoicesCsv = (invoices: Invoice[], fileName: string) => {
+  const url = URL.createObjectURL(new Blob([buildInvoicesCsv(invoices)], { type: "text/csv;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking right away cancels the download in some browsers (Safari, Firefox)
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
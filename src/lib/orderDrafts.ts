@@ -0,0 +1,91 @@
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { supabase } from "@/integrations/supabase/client";
+import type { ToothConfig } from "@/components/tooth-selection";
+import type { OrderFileCategory } from "@/lib/orderFiles";
+import type { OrderFormValues } from "@/lib/orderSchema";
+import type { ToothShades } from "@/lib/shades";
+
+export type OrderDraft = Tables<"order_drafts">;
+
+export interface OrderDraftData {
+  values: OrderFormValues;
+  toothConfigs: ToothConfig[];
+  color: string;
+  // Missing in drafts saved before per-tooth shades existed
+  toothShades?: ToothShades;
+  deliveryDeadline: string;
+  // File contents can't be persisted; only the list is kept so the user knows what to attach again
+  files: { name: string; size: number; category: OrderFileCategory }[];
+  savedAt: string;
+}
+
+// Clinic fields are prefilled from the account, so they alone don't make a draft worth keeping
+export const isDraftEmpty = (draft: Omit<OrderDraftData, 'savedAt'>) =>
+  !draft.values.patientName &&
+  !draft.values.patientId &&
+  !draft.values.additionalNotes &&
+  draft.toothConfigs.length === 0 &&
+  !draft.color &&
+  !draft.deliveryDeadline &&
+  draft.files.length === 0;
+
+const getLocalDraftKey = (userId: string) => `order-draft:${userId}`;
+
+export const loadLocalDraft = (userId: string): (OrderDraftData & { draftId?: string | null }) | null => {
+  try {
+    const stored = localStorage.getItem(getLocalDraftKey(userId));
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error reading local draft:', error);
+    return null;
+  }
+};
+
+export const saveLocalDraft = (userId: string, draft: OrderDraftData, draftId: string | null) => {
+  try {
+    localStorage.setItem(getLocalDraftKey(userId), JSON.stringify({ ...draft, draftId }));
+  } catch (error) {
+    // Storage can be full or disabled (private mode); the server draft still works
+    console.error('Error saving local draft:', error);
+  }
+};
+
+export const clearLocalDraft = (userId: string) => {
+  localStorage.removeItem(getLocalDraftKey(userId));
+};
+
+// Creates the server draft when no id is given; returns the draft id
+export const saveServerDraft = async (draftId: string | null, draft: OrderDraftData) => {
+  const payload = {
+    patient_name: draft.values.patientName || null,
+    data: draft as unknown as Json,
+  };
+
+  if (draftId) {
+    const { error } = await supabase
+      .from('order_drafts')
+      .update(payload)
+      .eq('id', draftId);
+
+    if (error) throw error;
+    return draftId;
+  }
+
+  const { data, error } = await supabase
+    .from('order_drafts')
+    .insert(payload)
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+};
+
+export const deleteServerDraft = async (draftId: string) => {
+  const { error } = await supabase
+    .from('order_drafts')
+    .delete()
+    .eq('id', draftId);
+
+  if (error) throw error;
+};
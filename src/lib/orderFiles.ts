@@ -0,0 +1,90 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+export type OrderFile = Tables<"order_files">;
+
+export const ORDER_FILE_CATEGORIES = [
+  'scan_upper',
+  'scan_lower',
+  'bite',
+  'photo',
+  'xray',
+  'document',
+] as const;
+
+// 'scan' only exists for files migrated from the old single scan column
+export type OrderFileCategory = typeof ORDER_FILE_CATEGORIES[number] | 'scan';
+
+export const ORDER_FILE_CATEGORY_LABELS: Record<OrderFileCategory, string> = {
+  scan_upper: 'Escaneamento Superior',
+  scan_lower: 'Escaneamento Inferior',
+  scan: 'Escaneamento',
+  bite: 'Registro de Mordida',
+  photo: 'Foto',
+  xray: 'Raio-X',
+  document: 'Documento',
+};
+
+export const getFileCategoryLabel = (category: string) =>
+  ORDER_FILE_CATEGORY_LABELS[category as OrderFileCategory] || category;
+
+// A file picked on the order form, not uploaded yet
+export interface PendingOrderFile {
+  id: string;
+  file: File;
+  category: OrderFileCategory;
+}
+
+// Upload state of a pending file; the path is kept so a retry resumes into the same object
+export interface PendingFileUpload {
+  status: 'uploading' | 'done' | 'error';
+  bytesUploaded: number;
+  path: string;
+}
+
+export const ORDER_FILE_ACCEPT = "image/*,.pdf,.stl,.ply,.obj,.dcm,.zip";
+
+const getExtension = (fileName: string) => fileName.split('.').pop()?.toLowerCase() || '';
+
+export const SCAN_FORMATS = ['stl', 'ply', 'obj'] as const;
+export type ScanFormat = typeof SCAN_FORMATS[number];
+
+export const getScanFormat = (fileName: string): ScanFormat | null => {
+  const ext = getExtension(fileName);
+  return (SCAN_FORMATS as readonly string[]).includes(ext) ? (ext as ScanFormat) : null;
+};
+
+// Mesh files that can be opened in the 3D scan viewer
+export const isViewableScan = (file: Pick<OrderFile, 'file_name' | 'storage_path'>) =>
+  getScanFormat(file.file_name) !== null || getScanFormat(file.storage_path) !== null;
+
+// Best guess from the file name; the user can change it before submitting
+export const guessFileCategory = (file: File): OrderFileCategory => {
+  const name = file.name.toLowerCase();
+  const ext = getExtension(name);
+
+  if ((SCAN_FORMATS as readonly string[]).includes(ext)) {
+    if (/(bite|mordida|oclus)/.test(name)) return 'bite';
+    if (/(lower|inferior|mandib)/.test(name)) return 'scan_lower';
+    return 'scan_upper';
+  }
+  if (ext === 'dcm' || /(rx|raio|xray|x-ray)/.test(name)) return 'xray';
+  if (file.type.startsWith('image/')) return 'photo';
+  return 'document';
+};
+
+const sanitizeFileName = (fileName: string) =>
+  fileName
+    .normalize('NFD')
+    .replace(/[̀-ͯ]/g, '')
+    .replace(/[^a-zA-Z0-9._-]/g, '_');
+
+// <order id>/<category>/<uuid>-<name>; the order id folder drives the storage RLS
+export const buildOrderFilePath = (orderId: string, category: OrderFileCategory, file: File) =>
+  `${orderId}/${category}/${crypto.randomUUID()}-${sanitizeFileName(file.name)}`;
+
+export const formatFileSize = (bytes: number | null) => {
+  if (bytes === null || bytes === undefined) return '-';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
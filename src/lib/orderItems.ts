@@ -0,0 +1,90 @@
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import type { ToothConfig } from "@/components/tooth-selection";
+import { getMaterialLabel } from "@/lib/dentalCatalog";
+import { STUMP_SHADE_WORK_TYPES, normalizeShade, type ToothShades } from "@/lib/shades";
+import { getToothUnits, type ToothUnitType } from "@/lib/toothUnits";
+
+export type OrderItem = Tables<"order_items">;
+
+// Map the tooth selection state to order_items rows for a freshly created order;
+// the order shade is the body shade of every tooth without its own
+export const buildOrderItems = (
+  orderId: string,
+  toothConfigs: ToothConfig[],
+  shade: string | null,
+  toothShades: ToothShades = {}
+): TablesInsert<"order_items">[] =>
+  toothConfigs.map((config) => {
+    const toothShade = toothShades[config.toothNumber] || {};
+    return {
+      order_id: orderId,
+      tooth_number: config.toothNumber,
+      work_type: config.workType,
+      implant_type: config.implantType || null,
+      material: config.material || null,
+      shade: normalizeShade(toothShade.body) || shade,
+      shade_cervical: normalizeShade(toothShade.cervical),
+      shade_incisal: normalizeShade(toothShade.incisal),
+      stump_shade: STUMP_SHADE_WORK_TYPES.includes(config.workType) ? normalizeShade(toothShade.stump) : null,
+      unit_id: config.unit?.id || null,
+      unit_type: config.unit?.type || null,
+    };
+  });
+
+// Compact description of an item's shades, e.g. "A2 (cervical A3, incisal B1, substrato ND2)"
+export const formatItemShade = (item: OrderItem) => {
+  const details = [
+    item.shade_cervical && `cervical ${item.shade_cervical}`,
+    item.shade_incisal && `incisal ${item.shade_incisal}`,
+    item.stump_shade && `substrato ${item.stump_shade}`,
+  ].filter(Boolean);
+  const body = item.shade || "-";
+  return details.length > 0 ? `${body} (${details.join(", ")})` : body;
+};
+
+// Items back in the tooth selection shape, e.g. to group them into bridges with lib/toothUnits
+export const toToothConfigs = (items: OrderItem[]): ToothConfig[] =>
+  items.map((item) => ({
+    toothNumber: item.tooth_number,
+    workType: item.work_type,
+    implantType: item.implant_type || undefined,
+    material: item.material || undefined,
+    unit: item.unit_id ? { id: item.unit_id, type: item.unit_type as ToothUnitType } : undefined,
+  }));
+
+export const getOrderItemUnits = (items: OrderItem[] | null | undefined) => getToothUnits(toToothConfigs(items || []));
+
+// Sort items following the FDI numbering so quadrants stay grouped
+export const sortOrderItems = (items: OrderItem[]) =>
+  [...items].sort((a, b) => Number(a.tooth_number) - Number(b.tooth_number));
+
+// Distinct material labels used by an order's items
+export const getOrderItemMaterials = (items: OrderItem[] | null | undefined): string[] => {
+  if (!items || items.length === 0) return [];
+  const labels = items
+    .filter((item) => item.material)
+    .map((item) => getMaterialLabel(item.material!));
+  return [...new Set(labels)];
+};
+
+// Material filter helper: matches the legacy order-level material or any item material
+export const orderHasMaterial = (
+  order: { material?: string | null; order_items?: OrderItem[] | null },
+  material: string
+) => {
+  const target = material.toLowerCase();
+  if (order.material?.toLowerCase() === target) return true;
+  return getOrderItemMaterials(order.order_items).some((label) => label.toLowerCase() === target);
+};
+
+// Distinct normalized body shades of an order: the order shade plus any per-tooth overrides
+export const getOrderShades = (order: { color?: string | null; order_items?: OrderItem[] | null }): string[] => {
+  const shades = [order.color, ...(order.order_items || []).map((item) => item.shade)]
+    .map(normalizeShade)
+    .filter(Boolean);
+  return [...new Set(shades)];
+};
+
+// Shade filter helper: matches the order shade or any tooth's body shade
+export const orderHasShade = (order: { color?: string | null; order_items?: OrderItem[] | null }, shade: string) =>
+  getOrderShades(order).includes(normalizeShade(shade) || "");
@@ -0,0 +1,98 @@
+import { jsPDF } from "jspdf";
+import JsBarcode from "jsbarcode";
+import QRCode from "qrcode";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { getOrderAdminUrl } from "@/lib/workOrderPdf";
+
+// Box labels on A4 sheets of 3 × 8 adhesive labels (70 × 37 mm). Each label carries the order
+// number as Code128 for handheld scanners and a QR code with the admin link for phones.
+
+export interface OrderLabel {
+  id: string;
+  order_number: string;
+  patient_name: string;
+  dentist_name: string;
+  clinic_name?: string | null;
+  delivery_deadline?: string | null;
+}
+
+const LABEL_COLUMNS = 3;
+const LABEL_ROWS = 8;
+const LABEL_WIDTH = 70;
+const LABEL_HEIGHT = 37;
+const PAGE_TOP = (297 - LABEL_ROWS * LABEL_HEIGHT) / 2;
+const PADDING = 3;
+const QR_SIZE = 17;
+
+const renderBarcode = (value: string) => {
+  const canvas = document.createElement("canvas");
+  JsBarcode(canvas, value, { format: "CODE128", displayValue: false, margin: 0, width: 2, height: 60 });
+  return canvas.toDataURL("image/png");
+};
+
+const fitText = (doc: jsPDF, text: string, width: number) => {
+  if (doc.getTextWidth(text) <= width) return text;
+  let fitted = text;
+  while (fitted.length > 1 && doc.getTextWidth(`${fitted}…`) > width) fitted = fitted.slice(0, -1);
+  return `${fitted}…`;
+};
+
+// startPosition skips labels already peeled off a partially used sheet (0-based)
+export const buildOrderLabelsPdf = async (orders: OrderLabel[], startPosition = 0) => {
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const perPage = LABEL_COLUMNS * LABEL_ROWS;
+
+  for (let index = 0; index < orders.length; index++) {
+    const order = orders[index];
+    const position = (startPosition + index) % perPage;
+    if (index > 0 && position === 0) doc.addPage();
+
+    const x = (position % LABEL_COLUMNS) * LABEL_WIDTH + PADDING;
+    const y = PAGE_TOP + Math.floor(position / LABEL_COLUMNS) * LABEL_HEIGHT + PADDING;
+    const textWidth = LABEL_WIDTH - PADDING * 3 - QR_SIZE;
+
+    doc.setTextColor(17, 24, 39);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(11);
+    doc.text(order.order_number, x, y + 4);
+
+    doc.setFontSize(8);
+    doc.text(fitText(doc, order.patient_name, textWidth), x, y + 9);
+    doc.setFont("helvetica", "normal");
+    doc.text(fitText(doc, order.clinic_name || order.dentist_name, textWidth), x, y + 13);
+    if (order.delivery_deadline) {
+      doc.text(`Prazo: ${format(parseISO(order.delivery_deadline), "dd/MM/yyyy", { locale: ptBR })}`, x, y + 17);
+    }
+
+    const qrCode = await QRCode.toDataURL(getOrderAdminUrl(order.id), { margin: 0, width: 160 });
+    doc.addImage(qrCode, "PNG", x + LABEL_WIDTH - PADDING * 2 - QR_SIZE, y, QR_SIZE, QR_SIZE);
+
+    doc.addImage(renderBarcode(order.order_number), "PNG", x, y + 20, LABEL_WIDTH - PADDING * 2, 10);
+  }
+
+  return doc;
+};
+
+export const downloadOrderLabelsPdf = async (orders: OrderLabel[], startPosition = 0) => {
+  const doc = await buildOrderLabelsPdf(orders, startPosition);
+  doc.save(orders.length === 1 ? `etiqueta-${orders[0].order_number}.pdf` : "etiquetas.pdf");
+};
+
+// Scanners type the barcode followed by Enter. The Code128 holds the order number; the QR holds
+// the admin URL with ?pedido=<id>. Order numbers are matched case-insensitively because some
+// scanners send them with the wrong keyboard case.
+export const findScannedOrder = <T extends { id: string; order_number: string }>(code: string, orders: T[]) => {
+  const scanned = code.trim();
+  if (!scanned) return null;
+
+  let orderId = scanned;
+  try {
+    orderId = new URL(scanned).searchParams.get("pedido") || scanned;
+  } catch {
+    // Not a URL: a plain order number or id
+  }
+
+  const orderNumber = scanned.toUpperCase();
+  return orders.find(order => order.id === orderId || order.order_number.toUpperCase() === orderNumber) ?? null;
+};
@@ -0,0 +1,123 @@
+import { format } from "date-fns";
+import type { Tables } from "@/integrations/supabase/types";
+import { supabase } from "@/integrations/supabase/client";
+import { buildOrderItems, toToothConfigs, type OrderItem } from "@/lib/orderItems";
+
+// Remakes and adjustments are new orders linked to the returned one (orders.parent_order_id).
+// They copy the patient, clinic and tooth configuration; warranty remakes are not charged
+// (public.create_order prices the copy).
+
+export const REMAKE_REASONS = ["fit", "shade", "fracture", "design"] as const;
+
+export type RemakeReason = typeof REMAKE_REASONS[number];
+
+export const REMAKE_REASON_LABELS: Record<RemakeReason, string> = {
+  fit: "Adaptação",
+  shade: "Cor",
+  fracture: "Fratura",
+  design: "Design",
+};
+
+export const getRemakeReasonLabel = (reason: string | null | undefined) =>
+  reason && reason in REMAKE_REASON_LABELS ? REMAKE_REASON_LABELS[reason as RemakeReason] : reason || "-";
+
+export interface RemakeOptions {
+  reason: RemakeReason;
+  warranty: boolean;
+  deliveryDeadline?: string;
+  notes?: string;
+}
+
+type ParentOrder = Pick<Tables<"orders">, "id" | "order_number" | "patient_name" | "dentist_name"> &
+  Partial<Pick<
+    Tables<"orders">,
+    "patient_id" | "clinic_name" | "clinic_id" | "phone" | "email" | "address" | "selected_teeth" | "material" | "prosthesis_type" | "color"
+  >> & { order_items?: OrderItem[] | null };
+
+// Creates the child order and its items; returns the new order's id and number
+export const createRemakeOrder = async (parent: ParentOrder, { reason, warranty, deliveryDeadline, notes }: RemakeOptions) => {
+  const items = parent.order_items || [];
+  const date = format(new Date(), "yyyy-MM-dd");
+
+  // Units get new ids so the copy does not share bridges with the original
+  const unitIds = new Map<string, string>();
+  const configs = toToothConfigs(items).map(config => {
+    if (!config.unit) return config;
+    if (!unitIds.has(config.unit.id)) unitIds.set(config.unit.id, crypto.randomUUID());
+    return { ...config, unit: { ...config.unit, id: unitIds.get(config.unit.id)! } };
+  });
+
+  const shades = Object.fromEntries(items.map(item => [item.tooth_number, {
+    body: item.shade || undefined,
+    cervical: item.shade_cervical || undefined,
+    incisal: item.shade_incisal || undefined,
+    stump: item.stump_shade || undefined,
+  }]));
+
+  // Order and items are created in one transaction (see public.create_order)
+  const { data: order, error } = await supabase.rpc('create_order', {
+    _order: {
+      patient_id: parent.patient_id ?? null,
+      patient_name: parent.patient_name,
+      dentist_name: parent.dentist_name,
+      clinic_name: parent.clinic_name ?? null,
+      clinic_id: parent.clinic_id ?? null,
+      phone: parent.phone ?? null,
+      email: parent.email ?? null,
+      address: parent.address ?? null,
+      date,
+      selected_teeth: parent.selected_teeth || items.map(item => item.tooth_number),
+      additional_notes: notes || null,
+      material: parent.material ?? null,
+      prosthesis_type: parent.prosthesis_type ?? null,
+      color: parent.color ?? null,
+      delivery_deadline: deliveryDeadline || null,
+      status: 'pending',
+      parent_order_id: parent.id,
+      remake_reason: reason,
+      is_warranty: warranty,
+    },
+    // The order id is assigned by the function
+    _items: buildOrderItems(parent.id, configs, parent.color ?? null, shades),
+  });
+
+  if (error) throw error;
+
+  return { id: order.id, order_number: order.order_number };
+};
+
+export interface RemakeRate {
+  key: string;
+  orders: number;
+  remakes: number;
+  rate: number;
+  reasons: Partial<Record<RemakeReason, number>>;
+}
+
+// Share of orders sent back for a remake, grouped by the keys of the returned order
+// (e.g. its technician or materials). A remake that comes back again counts against itself.
+export const getRemakeRates = <T extends { id: string; parent_order_id: string | null; remake_reason: string | null }>(
+  orders: T[],
+  getKeys: (order: T) => string[],
+): RemakeRate[] => {
+  const byId = new Map(orders.map(order => [order.id, order]));
+  const rates: Record<string, RemakeRate> = {};
+  const rateFor = (key: string) => (rates[key] ||= { key, orders: 0, remakes: 0, rate: 0, reasons: {} });
+
+  orders.forEach(order => {
+    getKeys(order).forEach(key => rateFor(key).orders++);
+
+    const parent = order.parent_order_id ? byId.get(order.parent_order_id) : undefined;
+    if (!parent) return;
+    getKeys(parent).forEach(key => {
+      const rate = rateFor(key);
+      rate.remakes++;
+      const reason = order.remake_reason as RemakeReason;
+      rate.reasons[reason] = (rate.reasons[reason] || 0) + 1;
+    });
+  });
+
+  return Object.values(rates)
+    .map(rate => ({ ...rate, rate: rate.orders > 0 ? rate.remakes / rate.orders : 0 }))
+    .sort((a, b) => b.rate - a.rate || b.orders - a.orders);
+};
@@ -0,0 +1,170 @@
+import { z } from "zod";
+import { getMaterialLabel, getWorkTypeLabel, isMaterialAllowed } from "@/lib/dentalCatalog";
+import { isValidShade, isValidStumpShade, normalizeShade } from "@/lib/shades";
+import { TOOTH_UNIT_TYPES, getToothUnitError, getToothUnits } from "@/lib/toothUnits";
+import { formatTooth } from "@/lib/toothNumbering";
+import { isValidTooth } from "@/lib/dentition";
+import type { ToothConfig } from "@/components/tooth-selection";
+
+// Shared validation for orders: the order form, admin edits and any other path that writes orders
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Accepts (11) 91234-5678, 11 3123-4567, +55 11 912345678 and similar spellings
+export const isValidBrazilianPhone = (value: string) => {
+  let digits = value.replace(/\D/g, '');
+  if (digits.length > 11 && digits.startsWith('55')) digits = digits.slice(2);
+  if (!/^[1-9]{2}/.test(digits)) return false;
+  if (digits.length === 11) return digits[2] === '9';
+  return digits.length === 10 && /[2-5]/.test(digits[2]);
+};
+
+const optionalText = (max: number) => z.string().trim().max(max, `Máximo de ${max} caracteres`);
+
+const phoneField = z
+  .string()
+  .trim()
+  .refine((value) => !value || isValidBrazilianPhone(value), "Telefone inválido. Use o formato (11) 91234-5678");
+
+const emailField = z.union([z.literal(''), z.string().trim().email("E-mail inválido")]);
+
+const dateField = (message: string) => z.string().regex(DATE_PATTERN, message);
+
+const optionalDateField = z.union([z.literal(''), dateField("Data inválida")]);
+
+const shadeField = z
+  .string()
+  .trim()
+  .refine((value) => !value || isValidShade(value), "Cor inválida. Use a escala VITA (ex: A2, BL1, 2M2)")
+  .transform((value) => normalizeShade(value) || '');
+
+const stumpShadeField = z
+  .string()
+  .trim()
+  .refine((value) => !value || isValidStumpShade(value), "Cor de substrato inválida (ND1 a ND9)")
+  .transform((value) => normalizeShade(value) || '');
+
+export const toothShadesSchema = z.record(
+  z.object({
+    body: shadeField.optional(),
+    cervical: shadeField.optional(),
+    incisal: shadeField.optional(),
+    stump: stumpShadeField.optional(),
+  })
+);
+
+// Plain yyyy-MM-dd strings compare correctly as text
+const isDeadlineBefore = (deadline: string | null | undefined, date: string | null | undefined) =>
+  !!deadline && !!date && deadline < date;
+
+const DEADLINE_MESSAGE = "O prazo de entrega não pode ser anterior à data da solicitação";
+
+export const toothConfigSchema = z
+  .object({
+    toothNumber: z.string().refine(isValidTooth, "Dente inválido"),
+    workType: z.string().min(1, "Selecione o tipo de trabalho"),
+    implantType: z.string().optional(),
+    material: z.string().optional(),
+    unit: z.object({ id: z.string().uuid(), type: z.enum(TOOTH_UNIT_TYPES) }).optional(),
+  })
+  .superRefine((config, ctx) => {
+    if (config.workType === 'sobre_implante' && !config.implantType) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['implantType'],
+        message: `Selecione o tipo de implante do dente ${formatTooth(config.toothNumber)}`,
+      });
+    }
+    if (!config.material) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['material'],
+        message: `Selecione o material do dente ${formatTooth(config.toothNumber)}`,
+      });
+    } else if (!isMaterialAllowed(config.workType, config.material)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['material'],
+        message: `${getMaterialLabel(config.material)} não é usado para ${getWorkTypeLabel(config.workType)} (dente ${formatTooth(config.toothNumber)})`,
+      });
+    }
+  });
+
+// Fields handled by react-hook-form on the order form
+export const orderFormSchema = z.object({
+  patientId: optionalText(50),
+  patientName: z.string().trim().min(1, "Informe o nome do paciente").max(120, "Máximo de 120 caracteres"),
+  dentistName: z.string().trim().min(1, "Informe o nome do dentista").max(120, "Máximo de 120 caracteres"),
+  clinicName: optionalText(120),
+  phone: phoneField,
+  email: emailField,
+  address: optionalText(200),
+  date: dateField("Informe a data da solicitação"),
+  additionalNotes: optionalText(2000),
+});
+
+export type OrderFormValues = z.infer<typeof orderFormSchema>;
+
+// The complete order as submitted: form fields plus the technical configuration
+export const orderSchema = orderFormSchema
+  .extend({
+    color: z.string().trim().min(1, "Selecione uma cor").pipe(shadeField),
+    deliveryDeadline: optionalDateField,
+    toothConfigs: z.array(toothConfigSchema).min(1, "Selecione pelo menos um dente"),
+    toothShades: toothShadesSchema.default({}),
+  })
+  .superRefine((order, ctx) => {
+    if (isDeadlineBefore(order.deliveryDeadline, order.date)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['deliveryDeadline'], message: DEADLINE_MESSAGE });
+    }
+
+    const toothConfigs = order.toothConfigs as ToothConfig[];
+    getToothUnits(toothConfigs).forEach((unit) => {
+      const message = getToothUnitError(unit, toothConfigs);
+      if (message) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['toothConfigs'], message });
+    });
+    toothConfigs
+      .filter((config) => config.workType === 'pontico' && !config.unit)
+      .forEach((config) => {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['toothConfigs'],
+          message: `O pôntico do dente ${formatTooth(config.toothNumber)} precisa fazer parte de uma ponte ou barra`,
+        });
+      });
+  });
+
+export type OrderInput = z.infer<typeof orderSchema>;
+
+// Edits made on an existing order (OrderDetailsDialog); the request date is not editable there
+export const orderUpdateSchema = z
+  .object({
+    orderDate: z.string().nullable(),
+    clinic_name: optionalText(120),
+    email: emailField,
+    phone: phoneField,
+    address: optionalText(200),
+    patient_name: z.string().trim().min(1, "Informe o nome do paciente").max(120, "Máximo de 120 caracteres"),
+    patient_id: optionalText(50),
+    dentist_name: z.string().trim().min(1, "Informe o nome do dentista").max(120, "Máximo de 120 caracteres"),
+    material: optionalText(50),
+    prosthesis_type: optionalText(100),
+    color: shadeField,
+    delivery_deadline: optionalDateField,
+    additional_notes: optionalText(2000),
+  })
+  .superRefine((update, ctx) => {
+    if (isDeadlineBefore(update.delivery_deadline, update.orderDate)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['delivery_deadline'], message: DEADLINE_MESSAGE });
+    }
+  });
+
+// Maps zod issues to the first message per top-level field
+export const getFieldErrors = (error: z.ZodError) => {
+  const errors: Record<string, string> = {};
+  error.issues.forEach((issue) => {
+    const field = String(issue.path[0] ?? '');
+    if (!errors[field]) errors[field] = issue.message;
+  });
+  return errors;
+};
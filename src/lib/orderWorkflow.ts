@@ -0,0 +1,114 @@
+// Single source of truth for the order status workflow.
+// Keep ORDER_STATUS_TRANSITIONS in sync with public.order_status_transitions
+// (see the migration that creates it), which enforces the same rules in the database.
+
+export const ORDER_STATUSES = [
+  "pending",
+  "in-progress",
+  "projetando",
+  "projetado",
+  "fresado-provisorio",
+  "entregue-provisorio",
+  "fresado-definitivo",
+  "vazado",
+  "maquiagem",
+  "pureto",
+  "completed",
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+export type ProductionStation = "espera" | "projeto" | "fresadora" | "vazado" | "maquiagem" | "pureto" | "saida";
+
+export const PRODUCTION_STATION_LABELS: Record<ProductionStation, string> = {
+  espera: "Espera",
+  projeto: "Projeto",
+  fresadora: "Fresadora",
+  vazado: "Vazado",
+  maquiagem: "Maquiagem",
+  pureto: "Pureto",
+  saida: "Saída",
+};
+
+// Stations where the work is done, in production order (capacity is set per bench station)
+export const BENCH_STATIONS: ProductionStation[] = ["projeto", "fresadora", "vazado", "maquiagem", "pureto"];
+
+interface StatusConfig {
+  label: string;
+  color: string;
+  variant: "secondary" | "default" | "outline" | "destructive";
+  station: ProductionStation;
+}
+
+export const ORDER_STATUS_CONFIG: Record<OrderStatus, StatusConfig> = {
+  pending: { label: "Pendente", color: "bg-yellow-100 text-yellow-800 border-yellow-300", variant: "secondary", station: "espera" },
+  "in-progress": { label: "Em Andamento", color: "bg-blue-100 text-blue-800 border-blue-300", variant: "default", station: "projeto" },
+  projetando: { label: "Projetando", color: "bg-blue-100 text-blue-800 border-blue-300", variant: "default", station: "projeto" },
+  projetado: { label: "Projetado", color: "bg-indigo-100 text-indigo-800 border-indigo-300", variant: "default", station: "fresadora" },
+  "fresado-provisorio": { label: "Fresado Provisório", color: "bg-orange-100 text-orange-800 border-orange-300", variant: "default", station: "saida" },
+  "entregue-provisorio": { label: "Entregue Provisório", color: "bg-teal-100 text-teal-800 border-teal-300", variant: "default", station: "saida" },
+  "fresado-definitivo": { label: "Fresado Definitivo", color: "bg-purple-100 text-purple-800 border-purple-300", variant: "default", station: "maquiagem" },
+  vazado: { label: "Vazado", color: "bg-gray-100 text-gray-800 border-gray-300", variant: "default", station: "vazado" },
+  maquiagem: { label: "Maquiagem", color: "bg-pink-100 text-pink-800 border-pink-300", variant: "default", station: "maquiagem" },
+  pureto: { label: "Pureto", color: "bg-amber-100 text-amber-800 border-amber-300", variant: "default", station: "pureto" },
+  completed: { label: "Concluído", color: "bg-green-100 text-green-800 border-green-300", variant: "outline", station: "saida" },
+};
+
+// Allowed moves from each status. "pending" is only reachable by undoing an acceptance
+// before design has produced anything.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["in-progress", "projetando"],
+  "in-progress": ["projetando", "pending"],
+  projetando: ["projetado", "fresado-provisorio", "pending"],
+  projetado: ["fresado-definitivo"],
+  "fresado-provisorio": ["entregue-provisorio"],
+  "entregue-provisorio": ["projetado", "completed"],
+  "fresado-definitivo": ["vazado", "maquiagem"],
+  vazado: ["maquiagem", "pureto"],
+  maquiagem: ["pureto", "completed"],
+  pureto: ["completed"],
+  completed: [],
+};
+
+// Statuses counted as "Em Andamento" in filters and counters
+export const IN_PROGRESS_STATUSES: OrderStatus[] = ORDER_STATUSES.filter(
+  (status) => status !== "pending" && status !== "completed"
+);
+
+// Statuses whose work has already left the bench
+export const DELIVERED_STATUSES: OrderStatus[] = ["completed", "entregue-provisorio", "fresado-provisorio"];
+
+// Statuses that mark the start of production (used for lead time metrics)
+export const ACCEPTED_STATUSES: OrderStatus[] = ["in-progress", "projetando"];
+
+export const isOrderStatus = (status: string): status is OrderStatus =>
+  (ORDER_STATUSES as readonly string[]).includes(status);
+
+export const getStatusLabel = (status: string): string =>
+  isOrderStatus(status) ? ORDER_STATUS_CONFIG[status].label : status;
+
+export const getStatusColor = (status: string): string =>
+  isOrderStatus(status) ? ORDER_STATUS_CONFIG[status].color : "bg-gray-100 text-gray-800";
+
+export const getStatusVariant = (status: string): StatusConfig["variant"] =>
+  isOrderStatus(status) ? ORDER_STATUS_CONFIG[status].variant : "secondary";
+
+export const getStation = (status: string): ProductionStation =>
+  isOrderStatus(status) ? ORDER_STATUS_CONFIG[status].station : "espera";
+
+export const getNextStatuses = (status: string): OrderStatus[] =>
+  isOrderStatus(status) ? ORDER_STATUS_TRANSITIONS[status] : [];
+
+export const canTransition = (from: string, to: string): boolean =>
+  from === to || (getNextStatuses(from) as string[]).includes(to);
+
+// Status an order moves to when its box is scanned. At a station, the scan either brings the
+// order into that station or, when it is already there, finishes that step; null when neither
+// applies. Without a station the main forward step is taken. Never moves back to "pending".
+export const getScanAdvanceStatus = (status: string, station?: ProductionStation): OrderStatus | null => {
+  const forward = getNextStatuses(status).filter((next) => next !== "pending");
+  if (!station) return forward[0] ?? null;
+  const arriving = forward.find((next) => getStation(next) === station);
+  if (arriving) return arriving;
+  return getStation(status) === station ? forward[0] ?? null : null;
+};
@@ -0,0 +1,166 @@
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import type { Tables } from "@/integrations/supabase/types";
+import { supabase } from "@/integrations/supabase/client";
+import { createCachedLoader } from "@/lib/cachedLoader";
+import type { ToothConfig } from "@/components/tooth-selection";
+import { sortTeethInArch } from "@/lib/toothUnits";
+
+// Prices are managed by admins in /catalogo. Every tooth is priced from the most specific
+// matching entry (clinic override before lab price, exact material and implant connection
+// before "any"); the clinic discount and the urgency surcharge apply to the whole order.
+// The quote shown on the order form is a preview: public.quote_order computes the same quote
+// in the database and public.create_order freezes it onto the order, so keep the two in sync.
+
+export type PriceTableEntry = Tables<"price_table_entries">;
+export type UrgencySurcharge = Tables<"price_urgency_surcharges">;
+
+export interface PriceTables {
+  entries: PriceTableEntry[];
+  // Discount percentage per clinic id; clinics without a row have none
+  clinicDiscounts: Record<string, number>;
+  // Sorted by max_days, tightest first
+  urgencySurcharges: UrgencySurcharge[];
+}
+
+export interface QuoteLine {
+  workType: string;
+  material?: string;
+  implantType?: string;
+  teeth: string[];
+  // null when no price table entry matches
+  unitPrice: number | null;
+  total: number;
+}
+
+export interface OrderQuote {
+  lines: QuoteLine[];
+  subtotal: number;
+  discountPercent: number;
+  discount: number;
+  // Calendar days between the request date and the deadline; null without a deadline
+  urgencyDays: number | null;
+  surchargePercent: number;
+  surcharge: number;
+  total: number;
+  unpricedTeeth: string[];
+}
+
+interface QuoteOptions {
+  clinicId?: string | null;
+  date: string;
+  deliveryDeadline?: string | null;
+}
+
+const emptyPriceTables: PriceTables = {
+  entries: [],
+  clinicDiscounts: {},
+  urgencySurcharges: [],
+};
+
+const fetchPriceTables = async (): Promise<PriceTables> => {
+  const [entriesResult, discountsResult, surchargesResult] = await Promise.all([
+    supabase.from('price_table_entries').select('*'),
+    supabase.from('clinic_pricing').select('*'),
+    supabase.from('price_urgency_surcharges').select('*').order('max_days'),
+  ]);
+
+  if (entriesResult.error) throw entriesResult.error;
+  if (discountsResult.error) throw discountsResult.error;
+  if (surchargesResult.error) throw surchargesResult.error;
+
+  return {
+    entries: entriesResult.data,
+    clinicDiscounts: Object.fromEntries(discountsResult.data.map(row => [row.clinic_id, Number(row.discount_percent)])),
+    urgencySurcharges: surchargesResult.data,
+  };
+};
+
+// Dropped when the user changes: clinic prices and discounts depend on who is signed in
+export const priceTablesLoader = createCachedLoader(fetchPriceTables, emptyPriceTables);
+
+export const getPriceTables = priceTablesLoader.get;
+
+export const loadPriceTables = priceTablesLoader.load;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export const formatCurrency = (value: number) =>
+  value.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+// Most specific entry for the tooth, or undefined when none matches
+export const findPriceEntry = (
+  config: Pick<ToothConfig, "workType" | "material" | "implantType">,
+  clinicId: string | null | undefined,
+  tables: PriceTables = getPriceTables(),
+) => {
+  const score = (entry: PriceTableEntry) =>
+    (entry.clinic_id ? 4 : 0) + (entry.material ? 2 : 0) + (entry.implant_type ? 1 : 0);
+
+  return tables.entries
+    .filter(entry =>
+      entry.work_type === config.workType &&
+      (!entry.clinic_id || entry.clinic_id === clinicId) &&
+      (!entry.material || entry.material === config.material) &&
+      (!entry.implant_type || entry.implant_type === config.implantType)
+    )
+    .sort((a, b) => score(b) - score(a))[0];
+};
+
+export const getUrgencySurchargePercent = (days: number | null, tables: PriceTables = getPriceTables()) => {
+  if (days === null) return 0;
+  const tier = tables.urgencySurcharges.find(surcharge => days <= surcharge.max_days);
+  return tier ? Number(tier.surcharge_percent) : 0;
+};
+
+export const quoteOrder = (
+  configs: ToothConfig[],
+  { clinicId, date, deliveryDeadline }: QuoteOptions,
+  tables: PriceTables = getPriceTables(),
+): OrderQuote => {
+  // Teeth sharing work type, material and connection form one line
+  const lines: QuoteLine[] = [];
+  sortTeethInArch(configs.map(config => config.toothNumber)).forEach(tooth => {
+    const config = configs.find(c => c.toothNumber === tooth)!;
+    const implantType = config.workType === "sobre_implante" ? config.implantType : undefined;
+    const line = lines.find(l =>
+      l.workType === config.workType && l.material === config.material && l.implantType === implantType
+    );
+    if (line) {
+      line.teeth.push(tooth);
+      return;
+    }
+    const entry = findPriceEntry({ ...config, implantType }, clinicId, tables);
+    lines.push({
+      workType: config.workType,
+      material: config.material,
+      implantType,
+      teeth: [tooth],
+      unitPrice: entry ? Number(entry.price) : null,
+      total: 0,
+    });
+  });
+  lines.forEach(line => {
+    line.total = roundCurrency((line.unitPrice ?? 0) * line.teeth.length);
+  });
+
+  const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.total, 0));
+  const discountPercent = (clinicId && tables.clinicDiscounts[clinicId]) || 0;
+  const discount = roundCurrency(subtotal * discountPercent / 100);
+  const urgencyDays = deliveryDeadline && date
+    ? differenceInCalendarDays(parseISO(deliveryDeadline), parseISO(date))
+    : null;
+  const surchargePercent = getUrgencySurchargePercent(urgencyDays, tables);
+  const surcharge = roundCurrency((subtotal - discount) * surchargePercent / 100);
+
+  return {
+    lines,
+    subtotal,
+    discountPercent,
+    discount,
+    urgencyDays,
+    surchargePercent,
+    surcharge,
+    total: roundCurrency(subtotal - discount + surcharge),
+    unpricedTeeth: lines.filter(line => line.unitPrice === null).flatMap(line => line.teeth),
+  };
+};
@@ -0,0 +1,59 @@
+import * as tus from "tus-js-client";
+import { supabase } from "@/integrations/supabase/client";
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_PUBLISHABLE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+// Supabase's resumable endpoint only accepts 6 MB chunks
+const CHUNK_SIZE = 6 * 1024 * 1024;
+const RETRY_DELAYS = [0, 3000, 5000, 10000, 20000];
+
+interface ResumableUploadOptions {
+  bucket: string;
+  path: string;
+  file: File;
+  onProgress?: (bytesUploaded: number, bytesTotal: number) => void;
+}
+
+/**
+ * Uploads a file through Supabase's TUS endpoint. Network errors are retried automatically and an
+ * interrupted upload of the same file to the same path resumes from the last accepted chunk.
+ */
+export const uploadFileResumable = async ({ bucket, path, file, onProgress }: ResumableUploadOptions) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Sessão expirada');
+
+  return new Promise<void>((resolve, reject) => {
+    const upload = new tus.Upload(file, {
+      endpoint: `${SUPABASE_URL}/storage/v1/upload/resumable`,
+      retryDelays: RETRY_DELAYS,
+      headers: {
+        authorization: `Bearer ${session.access_token}`,
+        apikey: SUPABASE_PUBLISHABLE_KEY,
+        'x-upsert': 'false',
+      },
+      uploadDataDuringCreation: true,
+      removeFingerprintOnSuccess: true,
+      chunkSize: CHUNK_SIZE,
+      metadata: {
+        bucketName: bucket,
+        objectName: path,
+        contentType: file.type || 'application/octet-stream',
+        cacheControl: '3600',
+      },
+      // The default fingerprint ignores the target path, so the same file picked for two orders would resume the wrong upload
+      fingerprint: async (f) =>
+        ['supabase-tus', bucket, path, (f as File).name, f.size, (f as File).lastModified].join('-'),
+      onProgress: (bytesUploaded, bytesTotal) => onProgress?.(bytesUploaded, bytesTotal),
+      onSuccess: () => resolve(),
+      onError: (error) => reject(error),
+    });
+
+    upload.findPreviousUploads().then((previousUploads) => {
+      if (previousUploads.length > 0) {
+        upload.resumeFromPreviousUpload(previousUploads[0]);
+      }
+      upload.start();
+    }).catch(reject);
+  });
+};
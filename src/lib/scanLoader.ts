@@ -0,0 +1,46 @@
+import * as THREE from "three";
+import { STLLoader } from "three/examples/jsm/loaders/STLLoader.js";
+import { PLYLoader } from "three/examples/jsm/loaders/PLYLoader.js";
+import { OBJLoader } from "three/examples/jsm/loaders/OBJLoader.js";
+import { supabase } from "@/integrations/supabase/client";
+import { getScanFormat, type OrderFile } from "@/lib/orderFiles";
+
+// Parse a mesh file into plain geometries so every format is rendered with the same material
+export const parseScan = (data: ArrayBuffer, fileName: string): THREE.BufferGeometry[] => {
+  const format = getScanFormat(fileName);
+
+  switch (format) {
+    case 'stl':
+      return [new STLLoader().parse(data)];
+    case 'ply':
+      return [new PLYLoader().parse(data)];
+    case 'obj': {
+      const group = new OBJLoader().parse(new TextDecoder().decode(data));
+      group.updateMatrixWorld(true);
+      const geometries: THREE.BufferGeometry[] = [];
+      group.traverse((child) => {
+        if (child instanceof THREE.Mesh) {
+          geometries.push((child.geometry as THREE.BufferGeometry).clone().applyMatrix4(child.matrixWorld));
+        }
+      });
+      return geometries;
+    }
+    default:
+      throw new Error(`Formato de escaneamento não suportado: ${fileName}`);
+  }
+};
+
+export const loadScanFile = async (file: OrderFile): Promise<THREE.BufferGeometry[]> => {
+  const { data, error } = await supabase.storage
+    .from('order-files')
+    .download(file.storage_path);
+
+  if (error || !data) throw error || new Error('Arquivo não encontrado');
+
+  const geometries = parseScan(await data.arrayBuffer(), getScanFormat(file.file_name) ? file.file_name : file.storage_path);
+  geometries.forEach((geometry) => {
+    if (!geometry.getAttribute('normal')) geometry.computeVertexNormals();
+    geometry.computeBoundingBox();
+  });
+  return geometries;
+};
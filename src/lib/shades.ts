@@ -0,0 +1,96 @@
+// Shade guides offered by the shade picker. Values are stored exactly as listed here;
+// normalizeShade (and the normalize_shade() database function) map typed variants onto them.
+
+export const VITA_CLASSICAL_SHADES = [
+  "A1", "A2", "A3", "A3.5", "A4",
+  "B1", "B2", "B3", "B4",
+  "C1", "C2", "C3", "C4",
+  "D2", "D3", "D4",
+];
+
+export const VITA_3D_MASTER_SHADES = [
+  "0M1", "0M2", "0M3",
+  "1M1", "1M2",
+  "2L1.5", "2L2.5", "2M1", "2M2", "2M3", "2R1.5", "2R2.5",
+  "3L1.5", "3L2.5", "3M1", "3M2", "3M3", "3R1.5", "3R2.5",
+  "4L1.5", "4L2.5", "4M1", "4M2", "4M3", "4R1.5", "4R2.5",
+  "5M1", "5M2", "5M3",
+];
+
+// Bleach shades and the lab's own options for splints and models
+export const OTHER_SHADES = ["BL1", "BL2", "BL3", "BL4", "WHITE", "CLEAR"];
+
+// IPS Natural Die shades for the prepared tooth under veneers and ceramic restorations
+export const STUMP_SHADES = ["ND1", "ND2", "ND3", "ND4", "ND5", "ND6", "ND7", "ND8", "ND9"];
+
+export const TOOTH_SHADES = [...VITA_CLASSICAL_SHADES, ...VITA_3D_MASTER_SHADES, ...OTHER_SHADES];
+
+// Work types placed over a natural tooth, where the stump shade shows through
+export const STUMP_SHADE_WORK_TYPES = ["faceta", "onlay", "sobre_dente"];
+
+export const SHADE_REGIONS = [
+  { key: "cervical", label: "Cervical" },
+  { key: "body", label: "Corpo" },
+  { key: "incisal", label: "Incisal" },
+] as const;
+
+export interface ToothShade {
+  body?: string;
+  cervical?: string;
+  incisal?: string;
+  stump?: string;
+}
+
+// Per-tooth shades keyed by tooth number; teeth without an entry use the order shade
+export type ToothShades = Record<string, ToothShade>;
+
+export const normalizeShade = (value: string | null | undefined): string | null => {
+  if (!value) return null;
+  const normalized = value
+    .toUpperCase()
+    .replace(/\s+/g, "")
+    .replace(",", ".")
+    .replace(/^OM/, "0M");
+  return normalized || null;
+};
+
+export const isValidShade = (value: string) => TOOTH_SHADES.includes(normalizeShade(value) || "");
+
+export const isValidStumpShade = (value: string) => STUMP_SHADES.includes(normalizeShade(value) || "");
+
+// Sort shades in guide order, unknown legacy values last
+export const compareShades = (a: string, b: string) => {
+  const order = [...TOOTH_SHADES, ...STUMP_SHADES];
+  const indexA = order.indexOf(a);
+  const indexB = order.indexOf(b);
+  if (indexA === -1 && indexB === -1) return a.localeCompare(b);
+  if (indexA === -1) return 1;
+  if (indexB === -1) return -1;
+  return indexA - indexB;
+};
+
+const CLASSICAL_SWATCHES: Record<string, string> = {
+  A1: "#f3e6cf", A2: "#eddcbc", A3: "#e6cfa6", "A3.5": "#dfc396", A4: "#d4b483",
+  B1: "#f4ead6", B2: "#eee0bd", B3: "#e5d0a0", B4: "#dcc38d",
+  C1: "#e8dcc4", C2: "#dfd0b0", C3: "#d5c4a0", C4: "#c8b38b",
+  D2: "#e9dcc6", D3: "#e0d0b3", D4: "#d9c7a6",
+};
+
+// Approximate on-screen colour for a shade button; only meant to help find the shade
+export const getShadeSwatch = (shade: string) => {
+  if (CLASSICAL_SWATCHES[shade]) return CLASSICAL_SWATCHES[shade];
+  if (shade.startsWith("BL") || shade === "WHITE") return "#fbf8f2";
+  if (shade === "CLEAR") return "#eef2f7";
+
+  const master = shade.match(/^(\d)([LMR])/);
+  if (master) {
+    const lightness = 94 - Number(master[1]) * 5;
+    const hue = master[2] === "L" ? 48 : master[2] === "R" ? 32 : 40;
+    return `hsl(${hue}, 45%, ${lightness}%)`;
+  }
+
+  const stump = shade.match(/^ND(\d)$/);
+  if (stump) return `hsl(35, 40%, ${88 - Number(stump[1]) * 5}%)`;
+
+  return "#e5e7eb";
+};
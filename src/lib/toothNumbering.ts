@@ -0,0 +1,150 @@
+import { supabase } from "@/integrations/supabase/client";
+import { ALL_TEETH, isPrimaryTooth } from "@/lib/dentition";
+
+// Teeth are always stored in FDI ("11"…"48", primary "51"…"85"); the numbering system only
+// changes how they are shown and typed. Each user picks a system (profiles.tooth_numbering);
+// it is cached here so formatters stay synchronous, and components read it through useToothNumbering.
+
+export const TOOTH_NUMBERING_SYSTEMS = ["fdi", "universal", "palmer"] as const;
+
+export type ToothNumbering = typeof TOOTH_NUMBERING_SYSTEMS[number];
+
+export const TOOTH_NUMBERING_LABELS: Record<ToothNumbering, string> = {
+  fdi: "FDI (11–48)",
+  universal: "Universal (1–32)",
+  palmer: "Palmer (8┘)",
+};
+
+export const TOOTH_NUMBERING_PLACEHOLDERS: Record<ToothNumbering, string> = {
+  fdi: "Ex: 16",
+  universal: "Ex: 3 ou A",
+  palmer: "Ex: SD6 ou 6┘",
+};
+
+// FDI quadrant -> Universal position of its central incisor and counting direction. Universal
+// counts clockwise from the patient's upper right: permanent teeth 1–32, primary teeth A–T
+const UNIVERSAL_QUADRANTS: Record<string, { central: number; step: number }> = {
+  "1": { central: 8, step: -1 },
+  "2": { central: 9, step: 1 },
+  "3": { central: 24, step: -1 },
+  "4": { central: 25, step: 1 },
+  "5": { central: 5, step: -1 },
+  "6": { central: 6, step: 1 },
+  "7": { central: 15, step: -1 },
+  "8": { central: 16, step: 1 },
+};
+
+const PRIMARY_LETTERS = "ABCDEFGHIJKLMNOPQRST";
+
+// Palmer writes the tooth (primary teeth as A–E) inside its quadrant's corner bracket, as seen
+// facing the patient
+const PALMER_BRACKETS: Record<string, (tooth: string) => string> = {
+  "1": tooth => `${tooth}┘`,
+  "2": tooth => `└${tooth}`,
+  "3": tooth => `┌${tooth}`,
+  "4": tooth => `${tooth}┐`,
+};
+
+// Portuguese and English quadrant codes, typed instead of the brackets (e.g. "SD6")
+const PALMER_CODES: Record<string, string> = {
+  SD: "1", SE: "2", IE: "3", ID: "4",
+  UR: "1", UL: "2", LL: "3", LR: "4",
+};
+
+let numbering: ToothNumbering = "fdi";
+let numberingRequest: Promise<ToothNumbering> | null = null;
+const listeners = new Set<() => void>();
+
+export const getToothNumbering = () => numbering;
+
+export const subscribeToothNumbering = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const setCachedNumbering = (system: ToothNumbering) => {
+  numbering = system;
+  listeners.forEach(listener => listener());
+};
+
+// Reads the signed-in user's preference once; anonymous pages keep FDI
+export const loadToothNumbering = () => {
+  if (!numberingRequest) {
+    numberingRequest = (async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return numbering;
+
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('tooth_numbering')
+        .eq('user_id', session.user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (data) setCachedNumbering(data.tooth_numbering as ToothNumbering);
+      return numbering;
+    })().catch((error) => {
+      numberingRequest = null;
+      throw error;
+    });
+  }
+  return numberingRequest;
+};
+
+export const saveToothNumbering = async (system: ToothNumbering) => {
+  const previous = numbering;
+  setCachedNumbering(system);
+
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return;
+
+  const { error } = await supabase
+    .from('profiles')
+    .update({ tooth_numbering: system })
+    .eq('user_id', session.user.id);
+
+  if (error) {
+    setCachedNumbering(previous);
+    throw error;
+  }
+};
+
+// FDI "16" -> "16", "3" (Universal) or "6┘" (Palmer); "55" -> "55", "A" or "E┘"
+export const formatTooth = (fdi: string, system: ToothNumbering = numbering) => {
+  const quadrant = fdi[0];
+  const tooth = Number(fdi[1]);
+  const primary = isPrimaryTooth(fdi);
+  if (system === "universal" && UNIVERSAL_QUADRANTS[quadrant]) {
+    const { central, step } = UNIVERSAL_QUADRANTS[quadrant];
+    const position = central + step * (tooth - 1);
+    return primary ? PRIMARY_LETTERS[position - 1] : String(position);
+  }
+  if (system === "palmer" && UNIVERSAL_QUADRANTS[quadrant]) {
+    const bracket = PALMER_BRACKETS[String((Number(quadrant) - 1) % 4 + 1)];
+    return bracket(primary ? PRIMARY_LETTERS[tooth - 1] : fdi[1]);
+  }
+  return fdi;
+};
+
+// Printouts use the standard PDF fonts, which have no bracket characters: Palmer is written
+// with the quadrant code instead ("SD6")
+export const formatToothForPrint = (fdi: string, system: ToothNumbering = numbering) => {
+  if (system !== "palmer") return formatTooth(fdi, system);
+  const code = Object.keys(PALMER_CODES).find(key => PALMER_CODES[key] === String((Number(fdi[0]) - 1) % 4 + 1));
+  return `${code}${formatTooth(fdi, system).replace(/[┘└┌┐]/, "")}`;
+};
+
+export const formatTeeth = (teeth: string[], system: ToothNumbering = numbering) =>
+  teeth.map(tooth => formatTooth(tooth, system)).join(", ");
+
+// Typed tooth in the given system -> FDI, or null when it isn't a valid tooth
+export const parseTooth = (input: string, system: ToothNumbering = numbering): string | null => {
+  let value = input.trim().toUpperCase().replace(/\s+/g, "");
+
+  const code = system === "palmer" && value.match(/^([A-Z]{2})([1-8A-E])$/);
+  if (code && PALMER_CODES[code[1]]) value = PALMER_BRACKETS[PALMER_CODES[code[1]]](code[2]);
+
+  return ALL_TEETH.find(tooth => formatTooth(tooth, system) === value) || null;
+};
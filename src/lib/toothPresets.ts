@@ -0,0 +1,74 @@
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { supabase } from "@/integrations/supabase/client";
+import type { ToothConfig } from "@/components/tooth-selection";
+import { formatTeeth } from "@/lib/toothNumbering";
+
+// Saved tooth configurations applied in one click. Lab presets (clinic_id NULL) are offered
+// to every clinic; clinic presets to that clinic; unshared ones only to their author.
+export type ToothPreset = Omit<Tables<"catalog_presets">, "configs"> & { configs: ToothConfig[] };
+
+export type ToothPresetScope = "lab" | "clinic" | "personal";
+
+export const TOOTH_PRESET_SCOPE_LABELS: Record<ToothPresetScope, string> = {
+  lab: "Laboratório",
+  clinic: "Clínica",
+  personal: "Meus presets",
+};
+
+export const getPresetScope = (preset: ToothPreset): ToothPresetScope =>
+  !preset.shared ? "personal" : preset.clinic_id ? "clinic" : "lab";
+
+// Teeth listed by the preset, e.g. "11, 12, 21"
+export const formatPresetTeeth = (preset: ToothPreset) =>
+  formatTeeth(preset.configs.map(config => config.toothNumber));
+
+// RLS returns the user's own presets plus the shared lab and clinic ones
+export const fetchToothPresets = async (): Promise<ToothPreset[]> => {
+  const { data, error } = await supabase
+    .from('catalog_presets')
+    .select('*')
+    .order('sort_order')
+    .order('label');
+
+  if (error) throw error;
+  return (data || []).map(preset => ({ ...preset, configs: preset.configs as unknown as ToothConfig[] }));
+};
+
+export const saveToothPreset = async (label: string, configs: ToothConfig[], shared: boolean) => {
+  const { data, error } = await supabase
+    .from('catalog_presets')
+    .insert({
+      label,
+      shared,
+      configs: configs.map(({ toothNumber, workType, implantType, material, unit }) => ({
+        toothNumber,
+        workType,
+        implantType,
+        material,
+        unit,
+      })) as unknown as Json,
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+};
+
+export const updateToothPreset = async (presetId: string, changes: { label?: string; active?: boolean; shared?: boolean }) => {
+  const { error } = await supabase
+    .from('catalog_presets')
+    .update(changes)
+    .eq('id', presetId);
+
+  if (error) throw error;
+};
+
+export const deleteToothPreset = async (presetId: string) => {
+  const { error } = await supabase
+    .from('catalog_presets')
+    .delete()
+    .eq('id', presetId);
+
+  if (error) throw error;
+};
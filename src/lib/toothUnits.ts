@@ -0,0 +1,128 @@
+import type { ToothConfig } from "@/components/tooth-selection";
+import { formatTooth } from "@/lib/toothNumbering";
+import { ARCHES } from "@/lib/dentition";
+
+// Connected multi-tooth units (bridges, splinted crowns, bars). Each tooth of a unit carries the
+// same unit id and type; pontics are the teeth configured as "pontico", every other tooth is an abutment.
+
+export const TOOTH_UNIT_TYPES = ["bridge", "splint", "bar"] as const;
+
+export type ToothUnitType = typeof TOOTH_UNIT_TYPES[number];
+
+export const TOOTH_UNIT_TYPE_LABELS: Record<ToothUnitType, string> = {
+  bridge: "Ponte",
+  splint: "Coroas Unidas",
+  bar: "Barra",
+};
+
+export interface ToothUnit {
+  id: string;
+  type: ToothUnitType;
+  // In arch order
+  teeth: string[];
+}
+
+export type ToothUnitRole = "abutment" | "pontic";
+
+export const TOOTH_UNIT_ROLE_LABELS: Record<ToothUnitRole, string> = {
+  abutment: "Pilar",
+  pontic: "Pôntico",
+};
+
+// Permanent and primary teeth are separate arches; a unit never mixes them
+const ARCH_NAMES = Object.keys(ARCHES);
+
+const getArchPosition = (tooth: string) => {
+  const arch = ARCH_NAMES.find(name => ARCHES[name].includes(tooth));
+  return arch ? { arch, index: ARCHES[arch].indexOf(tooth) } : null;
+};
+
+export const sortTeethInArch = (teeth: string[]) =>
+  [...teeth].sort((a, b) => {
+    const positionA = getArchPosition(a);
+    const positionB = getArchPosition(b);
+    if (!positionA || !positionB) return a.localeCompare(b);
+    if (positionA.arch !== positionB.arch) return ARCH_NAMES.indexOf(positionA.arch) - ARCH_NAMES.indexOf(positionB.arch);
+    return positionA.index - positionB.index;
+  });
+
+export const areTeethAdjacent = (a: string, b: string) => {
+  const positionA = getArchPosition(a);
+  const positionB = getArchPosition(b);
+  return !!positionA && !!positionB && positionA.arch === positionB.arch && Math.abs(positionA.index - positionB.index) === 1;
+};
+
+// Same arch, no gaps
+export const areTeethContiguous = (teeth: string[]) => {
+  const sorted = sortTeethInArch(teeth);
+  return sorted.every((tooth, index) => index === 0 || areTeethAdjacent(sorted[index - 1], tooth));
+};
+
+export const getToothUnitRole = (config: Pick<ToothConfig, "workType">): ToothUnitRole =>
+  config.workType === "pontico" ? "pontic" : "abutment";
+
+export const getToothUnits = (configs: ToothConfig[]): ToothUnit[] => {
+  const units = new Map<string, ToothUnit>();
+  configs.forEach((config) => {
+    if (!config.unit) return;
+    const unit = units.get(config.unit.id) || { id: config.unit.id, type: config.unit.type, teeth: [] };
+    unit.teeth.push(config.toothNumber);
+    units.set(config.unit.id, unit);
+  });
+  return [...units.values()].map(unit => ({ ...unit, teeth: sortTeethInArch(unit.teeth) }));
+};
+
+export const areTeethConnected = (configs: ToothConfig[], a: string, b: string) => {
+  const unitA = configs.find(config => config.toothNumber === a)?.unit;
+  const unitB = configs.find(config => config.toothNumber === b)?.unit;
+  return !!unitA && unitA.id === unitB?.id && areTeethAdjacent(a, b);
+};
+
+// Drops the grouping of units left with fewer than two teeth or with a gap after a tooth was removed
+export const pruneToothUnits = (configs: ToothConfig[]) => {
+  const invalid = getToothUnits(configs)
+    .filter(unit => unit.teeth.length < 2 || !areTeethContiguous(unit.teeth))
+    .map(unit => unit.id);
+  if (invalid.length === 0) return configs;
+  return configs.map(config => (config.unit && invalid.includes(config.unit.id) ? { ...config, unit: undefined } : config));
+};
+
+// Returns the reason the unit can't be produced, or null when it's valid
+export const getToothUnitError = (unit: ToothUnit, configs: ToothConfig[]) => {
+  const label = `${TOOTH_UNIT_TYPE_LABELS[unit.type]} ${formatTeethRange(unit.teeth)}`;
+  if (unit.teeth.length < 2) return `${label}: selecione pelo menos dois dentes`;
+  if (!areTeethContiguous(unit.teeth)) return `${label}: os dentes devem ser vizinhos na mesma arcada`;
+
+  const roles = unit.teeth.map(tooth => {
+    const config = configs.find(c => c.toothNumber === tooth);
+    return config ? getToothUnitRole(config) : "abutment";
+  });
+  const pontics = roles.filter(role => role === "pontic").length;
+
+  if (unit.type === "bridge" && pontics === 0) return `${label}: uma ponte precisa de pelo menos um pôntico`;
+  if (unit.type === "splint" && pontics > 0) return `${label}: coroas unidas não têm pônticos; use uma ponte`;
+  if (pontics === roles.length) return `${label}: é preciso pelo menos um pilar`;
+  return null;
+};
+
+// "14–16", or "14, 16" when the teeth aren't contiguous, in the user's numbering system
+export const formatTeethRange = (teeth: string[], formatNumber: (tooth: string) => string = formatTooth) => {
+  const sorted = sortTeethInArch(teeth);
+  if (sorted.length > 1 && areTeethContiguous(sorted)) return `${formatNumber(sorted[0])}–${formatNumber(sorted[sorted.length - 1])}`;
+  return sorted.map(tooth => formatNumber(tooth)).join(", ");
+};
+
+// e.g. "Ponte 14–16 (pilares 14, 16; pôntico 15)"
+export const formatToothUnit = (
+  unit: ToothUnit,
+  configs: Pick<ToothConfig, "toothNumber" | "workType">[],
+  formatNumber: (tooth: string) => string = formatTooth
+) => {
+  const pontics = unit.teeth.filter(tooth => configs.find(c => c.toothNumber === tooth)?.workType === "pontico");
+  const abutments = unit.teeth.filter(tooth => !pontics.includes(tooth));
+  const details = [
+    abutments.length > 0 && `${abutments.length > 1 ? "pilares" : "pilar"} ${abutments.map(tooth => formatNumber(tooth)).join(", ")}`,
+    pontics.length > 0 && `${pontics.length > 1 ? "pônticos" : "pôntico"} ${pontics.map(tooth => formatNumber(tooth)).join(", ")}`,
+  ].filter(Boolean);
+  return `${TOOTH_UNIT_TYPE_LABELS[unit.type]} ${formatTeethRange(unit.teeth, formatNumber)} (${details.join("; ")})`;
+};
@@ -0,0 +1,9 @@
+export interface OrderTracking {
+  order_number: string;
+  status: string;
+  delivery_deadline: string | null;
+  created_at: string;
+  timeline: { status: string; changed_at: string }[];
+}
+
+export const getTrackingUrl = (token: string) => `${window.location.origin}/rastreio/${token}`;
@@ -0,0 +1,295 @@
+import { jsPDF } from "jspdf";
+import QRCode from "qrcode";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import {
+  getCatalogTextColor,
+  getImplantTypeLabel,
+  getMaterialAbbreviation,
+  getMaterialLabel,
+  getWorkTypeColor,
+  getWorkTypeLabel,
+} from "@/lib/dentalCatalog";
+import { PERMANENT_TEETH, PRIMARY_TEETH, getDentitionForTeeth } from "@/lib/dentition";
+import { formatItemShade, getOrderItemUnits, sortOrderItems, toToothConfigs, type OrderItem } from "@/lib/orderItems";
+import { getStatusLabel } from "@/lib/orderWorkflow";
+import { formatToothForPrint } from "@/lib/toothNumbering";
+import { TOOTH_UNIT_TYPE_LABELS, areTeethConnected, formatToothUnit, type ToothUnitType } from "@/lib/toothUnits";
+
+// A4 work order (OS) printed for the bench: order data, odontogram, per-tooth table and a QR
+// code opening the order in the admin panel.
+
+export interface WorkOrder {
+  id: string;
+  order_number: string;
+  patient_name: string;
+  patient_id?: string | null;
+  dentist_name: string;
+  clinic_name?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  date: string;
+  delivery_deadline?: string | null;
+  status: string;
+  color?: string | null;
+  additional_notes?: string | null;
+  order_items?: OrderItem[] | null;
+}
+
+export const getOrderAdminUrl = (orderId: string) => `${window.location.origin}/admin?pedido=${orderId}`;
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const TOOTH_WIDTH = 10;
+const TOOTH_HEIGHT = 9;
+const TOOTH_GAP = 1;
+const MIDLINE_GAP = 4;
+
+const formatDate = (date: string | null | undefined) =>
+  date ? format(parseISO(date), "dd/MM/yyyy", { locale: ptBR }) : "-";
+
+export const loadImage = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not load ${url}`);
+  const blob = await response.blob();
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const buildWorkOrderPdf = async (order: WorkOrder) => {
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const items = sortOrderItems(order.order_items || []);
+  const configs = toToothConfigs(items);
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const sectionTitle = (title: string) => {
+    ensureSpace(12);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(11);
+    doc.setTextColor(17, 24, 39);
+    doc.text(title, MARGIN, y);
+    doc.setDrawColor(209, 213, 219);
+    doc.line(MARGIN, y + 1.5, PAGE_WIDTH - MARGIN, y + 1.5);
+    y += 7;
+  };
+
+  // Header: logo, lab name, order number and QR code
+  try {
+    doc.addImage(await loadImage("/header-logo-new.png"), "PNG", MARGIN, y, 14, 14);
+  } catch (error) {
+    console.error('Error loading logo:', error);
+  }
+  const qrCode = await QRCode.toDataURL(getOrderAdminUrl(order.id), { margin: 0, width: 256 });
+  doc.addImage(qrCode, "PNG", PAGE_WIDTH - MARGIN - 26, y, 26, 26);
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(16);
+  doc.text("Laboratório Odontológico", MARGIN + 18, y + 6);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(11);
+  doc.text("Ordem de Serviço", MARGIN + 18, y + 12);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(20);
+  doc.text(order.order_number, MARGIN, y + 24);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(8);
+  doc.setTextColor(107, 114, 128);
+  doc.text("Escaneie para abrir o pedido", PAGE_WIDTH - MARGIN - 13, y + 29, { align: "center" });
+  y += 36;
+
+  // Patient and dentist data in two columns
+  sectionTitle("Dados do Pedido");
+  const fields: [string, string][] = [
+    ["Paciente", order.patient_name],
+    ["ID do Paciente", order.patient_id || "-"],
+    ["Dentista", order.dentist_name],
+    ["Clínica", order.clinic_name || "-"],
+    ["Telefone", order.phone || "-"],
+    ["Email", order.email || "-"],
+    ["Data", formatDate(order.date)],
+    ["Prazo de Entrega", formatDate(order.delivery_deadline)],
+    ["Cor", order.color || "-"],
+    ["Status", getStatusLabel(order.status)],
+  ];
+  doc.setFontSize(10);
+  fields.forEach(([label, value], index) => {
+    const x = MARGIN + (index % 2) * (CONTENT_WIDTH / 2);
+    const rowY = y + Math.floor(index / 2) * 6;
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(17, 24, 39);
+    doc.text(`${label}:`, x, rowY);
+    doc.setFont("helvetica", "normal");
+    doc.text(doc.splitTextToSize(value, CONTENT_WIDTH / 2 - 32)[0], x + 32, rowY);
+  });
+  y += Math.ceil(fields.length / 2) * 6 + 4;
+
+  // Odontogram: configured teeth filled with their work type colour, units joined by a bar
+  sectionTitle("Odontograma");
+  const dentition = getDentitionForTeeth(items.map(item => item.tooth_number));
+  const charts = dentition === "mixed" ? [PERMANENT_TEETH, PRIMARY_TEETH] : [dentition === "primary" ? PRIMARY_TEETH : PERMANENT_TEETH];
+  const rows = [
+    ...charts.map(chart => ({ right: chart.upperRight, left: chart.upperLeft })),
+    ...[...charts].reverse().map(chart => ({ right: chart.lowerRight, left: chart.lowerLeft })),
+  ];
+  const midline = PAGE_WIDTH / 2;
+
+  ensureSpace(rows.length * (TOOTH_HEIGHT + 7) + 4);
+  rows.forEach((row, rowIndex) => {
+    // Extra space between the upper and the lower arch
+    if (rowIndex === charts.length) y += 3;
+
+    const positions = [
+      ...row.right.map((tooth, index) => ({
+        tooth,
+        x: midline - MIDLINE_GAP / 2 - (row.right.length - index) * (TOOTH_WIDTH + TOOTH_GAP) + TOOTH_GAP,
+      })),
+      ...row.left.map((tooth, index) => ({
+        tooth,
+        x: midline + MIDLINE_GAP / 2 + index * (TOOTH_WIDTH + TOOTH_GAP),
+      })),
+    ];
+
+    positions.forEach(({ tooth, x }, index) => {
+      const item = items.find(i => i.tooth_number === tooth);
+      const next = positions[index + 1];
+      if (next && areTeethConnected(configs, tooth, next.tooth)) {
+        doc.setFillColor(112, 26, 50);
+        doc.rect(x + TOOTH_WIDTH - 1, y + TOOTH_HEIGHT / 2 - 0.75, next.x - x - TOOTH_WIDTH + 2, 1.5, "F");
+      }
+
+      if (item) {
+        const color = getWorkTypeColor(item.work_type);
+        doc.setFillColor(color);
+        doc.setDrawColor(color);
+        doc.roundedRect(x, y, TOOTH_WIDTH, TOOTH_HEIGHT, 1, 1, "FD");
+        doc.setTextColor(getCatalogTextColor(color));
+      } else {
+        doc.setDrawColor(209, 213, 219);
+        doc.roundedRect(x, y, TOOTH_WIDTH, TOOTH_HEIGHT, 1, 1, "S");
+        doc.setTextColor(107, 114, 128);
+      }
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(8);
+      doc.text(formatToothForPrint(tooth), x + TOOTH_WIDTH / 2, y + TOOTH_HEIGHT / 2 + 1, { align: "center" });
+
+      if (item?.material) {
+        doc.setFont("helvetica", "normal");
+        doc.setFontSize(6);
+        doc.setTextColor(55, 65, 81);
+        doc.text(doc.splitTextToSize(getMaterialAbbreviation(item.material), TOOTH_WIDTH + 2)[0], x + TOOTH_WIDTH / 2, y + TOOTH_HEIGHT + 3, { align: "center" });
+      }
+    });
+    y += TOOTH_HEIGHT + 7;
+  });
+
+  // Legend of the work types present
+  const workTypes = [...new Set(items.map(item => item.work_type))];
+  let legendX = MARGIN;
+  doc.setFontSize(8);
+  doc.setFont("helvetica", "normal");
+  workTypes.forEach((workType) => {
+    const label = getWorkTypeLabel(workType);
+    const width = doc.getTextWidth(label) + 8;
+    if (legendX + width > PAGE_WIDTH - MARGIN) {
+      legendX = MARGIN;
+      y += 5;
+    }
+    doc.setFillColor(getWorkTypeColor(workType));
+    doc.rect(legendX, y - 2.5, 3, 3, "F");
+    doc.setTextColor(55, 65, 81);
+    doc.text(label, legendX + 4, y);
+    legendX += width;
+  });
+  y += 8;
+
+  // Per-tooth configuration
+  sectionTitle("Configuração por Dente");
+  const columns: { label: string; width: number; value: (item: OrderItem) => string }[] = [
+    { label: "Dente", width: 14, value: item => formatToothForPrint(item.tooth_number) },
+    { label: "Trabalho", width: 38, value: item => getWorkTypeLabel(item.work_type) },
+    { label: "Implante", width: 32, value: item => (item.implant_type ? getImplantTypeLabel(item.implant_type) : "-") },
+    { label: "Material", width: 32, value: item => (item.material ? getMaterialLabel(item.material) : "-") },
+    { label: "Cor", width: 38, value: item => formatItemShade(item) },
+    { label: "União", width: 26, value: item => (item.unit_type ? TOOTH_UNIT_TYPE_LABELS[item.unit_type as ToothUnitType] : "-") },
+  ];
+
+  const drawRow = (values: string[], bold: boolean) => {
+    const lines = values.map((value, index) => doc.splitTextToSize(value, columns[index].width - 2) as string[]);
+    const height = Math.max(...lines.map(l => l.length)) * 4 + 2;
+    ensureSpace(height);
+    doc.setFont("helvetica", bold ? "bold" : "normal");
+    doc.setFontSize(9);
+    doc.setTextColor(17, 24, 39);
+    let x = MARGIN;
+    lines.forEach((cell, index) => {
+      doc.text(cell, x, y + 3.5);
+      x += columns[index].width;
+    });
+    y += height;
+    doc.setDrawColor(229, 231, 235);
+    doc.line(MARGIN, y - 1, PAGE_WIDTH - MARGIN, y - 1);
+  };
+
+  drawRow(columns.map(column => column.label), true);
+  if (items.length === 0) {
+    drawRow(["Nenhum dente configurado.", "", "", "", "", ""], false);
+  }
+  items.forEach(item => drawRow(columns.map(column => column.value(item)), false));
+
+  const units = getOrderItemUnits(items);
+  if (units.length > 0) {
+    y += 2;
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(9);
+    units.forEach((unit) => {
+      ensureSpace(5);
+      doc.text(formatToothUnit(unit, configs, formatToothForPrint), MARGIN, y + 3);
+      y += 5;
+    });
+  }
+  y += 4;
+
+  if (order.additional_notes) {
+    sectionTitle("Observações");
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(10);
+    doc.setTextColor(17, 24, 39);
+    (doc.splitTextToSize(order.additional_notes, CONTENT_WIDTH) as string[]).forEach((line) => {
+      ensureSpace(5);
+      doc.text(line, MARGIN, y);
+      y += 5;
+    });
+  }
+
+  // Footer on every page
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.setTextColor(107, 114, 128);
+    doc.text(`Gerado em ${format(new Date(), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}`, MARGIN, PAGE_HEIGHT - 8);
+    doc.text(`${order.order_number} · Página ${page} de ${pages}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 8, { align: "right" });
+  }
+
+  return doc;
+};
+
+export const downloadWorkOrderPdf = async (order: WorkOrder) => {
+  const doc = await buildWorkOrderPdf(order);
+  doc.save(`${order.order_number}.pdf`);
+};
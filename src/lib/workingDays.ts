@@ -0,0 +1,195 @@
+import { addDays, format } from "date-fns";
+import type { Tables } from "@/integrations/supabase/types";
+import { supabase } from "@/integrations/supabase/client";
+import { createCachedLoader } from "@/lib/cachedLoader";
+
+// Lab calendar: working weekdays and opening hours (lab_settings), Brazilian national holidays
+// (including Carnival, when the lab is closed) and planned closures (lab_closures, managed in
+// /catalogo). Loaded once and cached like the catalog so the helpers stay synchronous; until it
+// arrives they use Monday to Friday, 08:00 to 18:00. Dates are "yyyy-MM-dd" strings or local Dates.
+
+export type LabClosure = Tables<"lab_closures">;
+
+export interface LabCalendar {
+  // 0 = Sunday
+  workDays: number[];
+  // Opening hours, in minutes after midnight
+  workStart: number;
+  workEnd: number;
+  closures: LabClosure[];
+}
+
+export interface Holiday {
+  date: string;
+  name: string;
+}
+
+export const WEEKDAY_LABELS = ["Dom", "Seg", "Ter", "Qua", "Qui", "Sex", "Sáb"];
+
+const defaultLabCalendar: LabCalendar = {
+  workDays: [1, 2, 3, 4, 5],
+  workStart: 8 * 60,
+  workEnd: 18 * 60,
+  closures: [],
+};
+
+// "08:30:00" -> 510
+export const parseTimeOfDay = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+// 510 -> "08:30"
+export const formatTimeOfDay = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+
+const fetchLabCalendar = async (): Promise<LabCalendar> => {
+  const [settingsResult, closuresResult] = await Promise.all([
+    supabase.from('lab_settings').select('work_days, work_start, work_end').maybeSingle(),
+    supabase.from('lab_closures').select('*').order('start_date'),
+  ]);
+
+  if (settingsResult.error) throw settingsResult.error;
+  if (closuresResult.error) throw closuresResult.error;
+
+  const settings = settingsResult.data;
+  return {
+    workDays: settings?.work_days ?? defaultLabCalendar.workDays,
+    workStart: settings ? parseTimeOfDay(settings.work_start) : defaultLabCalendar.workStart,
+    workEnd: settings ? parseTimeOfDay(settings.work_end) : defaultLabCalendar.workEnd,
+    closures: closuresResult.data,
+  };
+};
+
+export const labCalendarLoader = createCachedLoader(fetchLabCalendar, defaultLabCalendar);
+
+export const getLabCalendar = labCalendarLoader.get;
+
+export const loadLabCalendar = labCalendarLoader.load;
+
+// Gregorian Easter Sunday (anonymous algorithm)
+const getEasterSunday = (year: number) => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+};
+
+const holidaysByYear = new Map<number, Holiday[]>();
+
+export const getBrazilianHolidays = (year: number): Holiday[] => {
+  const cached = holidaysByYear.get(year);
+  if (cached) return cached;
+
+  const easter = getEasterSunday(year);
+  const movable = (offset: number, name: string) => ({ date: format(addDays(easter, offset), "yyyy-MM-dd"), name });
+  const fixed = (monthDay: string, name: string) => ({ date: `${year}-${monthDay}`, name });
+
+  const holidays = [
+    fixed("01-01", "Confraternização Universal"),
+    movable(-48, "Carnaval"),
+    movable(-47, "Carnaval"),
+    movable(-2, "Sexta-feira Santa"),
+    fixed("04-21", "Tiradentes"),
+    fixed("05-01", "Dia do Trabalho"),
+    movable(60, "Corpus Christi"),
+    fixed("09-07", "Independência do Brasil"),
+    fixed("10-12", "Nossa Senhora Aparecida"),
+    fixed("11-02", "Finados"),
+    fixed("11-15", "Proclamação da República"),
+    // National holiday only since Lei 14.759/2023
+    ...(year >= 2024 ? [fixed("11-20", "Dia da Consciência Negra")] : []),
+    fixed("12-25", "Natal"),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+
+  holidaysByYear.set(year, holidays);
+  return holidays;
+};
+
+const toDate = (date: Date | string) => (typeof date === "string" ? new Date(`${date}T00:00:00`) : date);
+
+export const getHoliday = (date: Date | string): Holiday | undefined => {
+  const day = toDate(date);
+  const key = format(day, "yyyy-MM-dd");
+  return getBrazilianHolidays(day.getFullYear()).find(holiday => holiday.date === key);
+};
+
+export const getClosure = (date: Date | string, calendar = getLabCalendar()): LabClosure | undefined => {
+  const key = format(toDate(date), "yyyy-MM-dd");
+  return calendar.closures.find(closure => closure.start_date <= key && key <= closure.end_date);
+};
+
+export const isWorkingDay = (date: Date | string, calendar = getLabCalendar()) => {
+  const day = toDate(date);
+  return calendar.workDays.includes(day.getDay()) && !getHoliday(day) && !getClosure(day, calendar);
+};
+
+// Holiday or closure name for a day the lab is closed; null on working days and regular days off
+export const getDayOffReason = (date: Date | string, calendar = getLabCalendar()) => {
+  if (isWorkingDay(date, calendar)) return null;
+  return getHoliday(date)?.name ?? getClosure(date, calendar)?.reason ?? null;
+};
+
+// Moves forward the given number of working days (the start date itself is not counted);
+// with 0 days, returns the start date or the next working day when it is not one
+export const addWorkingDays = (date: Date | string, days: number, calendar = getLabCalendar()) => {
+  let day = toDate(date);
+  // A calendar without working days would never end
+  if (calendar.workDays.length === 0) return addDays(day, days);
+  while (!isWorkingDay(day, calendar)) day = addDays(day, 1);
+  for (let added = 0; added < days; ) {
+    day = addDays(day, 1);
+    if (isWorkingDay(day, calendar)) added++;
+  }
+  return day;
+};
+
+// Opening hours are the lab's, whatever the time zone of the browser
+const LAB_TIME_ZONE = "America/Sao_Paulo";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const labTimeFormat = new Intl.DateTimeFormat("en-US", {
+  timeZone: LAB_TIME_ZONE,
+  hourCycle: "h23",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+});
+
+// Wall-clock time in the lab at the given instant, as milliseconds read as if it were UTC
+const toLabWallTime = (instant: Date) => {
+  const parts = Object.fromEntries(labTimeFormat.formatToParts(instant).map(part => [part.type, part.value]));
+  return Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second) + instant.getMilliseconds();
+};
+
+// Seconds between two instants that fall within opening hours on working days
+export const getBusinessSeconds = (start: Date | string, end: Date | string, calendar = getLabCalendar()) => {
+  const from = toLabWallTime(new Date(start));
+  const to = toLabWallTime(new Date(end));
+  let total = 0;
+
+  for (let day = from - (from % DAY_MS); day <= to; day += DAY_MS) {
+    // "yyyy-MM-dd" of the lab's day
+    if (!isWorkingDay(new Date(day).toISOString().slice(0, 10), calendar)) continue;
+    const open = day + calendar.workStart * 60 * 1000;
+    const close = day + calendar.workEnd * 60 * 1000;
+    total += Math.max(0, Math.min(close, to) - Math.max(open, from));
+  }
+
+  return Math.floor(total / 1000);
+};
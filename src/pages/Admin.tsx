@@ -1,65 +1,32 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { FileText, LogOut, Eye, Filter, CheckCircle, RefreshCw, StickyNote, Undo2, BarChart3 } from "lucide-react";
+import { FileText, LogOut, Eye, Filter, CheckCircle, RefreshCw, StickyNote, Undo2, BarChart3, BookOpen, Receipt } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useDentalCatalog } from "@/hooks/useDentalCatalog";
 import type { Session } from "@supabase/supabase-js";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { Trash2 } from "lucide-react";
+import { Trash2, Paperclip } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
-import { recordStatusChange, getLastStatusChange } from "@/hooks/useOrderStatusTracking";
 import { OrderDetailsDialog } from "@/components/admin/OrderDetailsDialog";
-
-const ImageWithSignedUrl = ({ filePath }: { filePath: string }) => {
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
-
-  useEffect(() => {
-    const loadImage = async () => {
-      const { data } = await supabase.storage
-        .from('order-files')
-        .createSignedUrl(filePath, 3600);
-      if (data) setImageUrl(data.signedUrl);
-    };
-    loadImage();
-  }, [filePath]);
-
-  return imageUrl ? (
-    <img src={imageUrl} alt="Arquivo" className="max-w-full h-auto rounded-lg" />
-  ) : (
-    <div className="text-muted-foreground">Carregando...</div>
-  );
-};
-
-const FileLink = ({ filePath }: { filePath: string }) => {
-  const [fileUrl, setFileUrl] = useState<string | null>(null);
-
-  useEffect(() => {
-    const loadUrl = async () => {
-      const { data } = await supabase.storage
-        .from('order-files')
-        .createSignedUrl(filePath, 3600);
-      if (data) setFileUrl(data.signedUrl);
-    };
-    loadUrl();
-  }, [filePath]);
-
-  return fileUrl ? (
-    <Button asChild variant="outline">
-      <a href={fileUrl} target="_blank" rel="noopener noreferrer">
-        Abrir Arquivo
-      </a>
-    </Button>
-  ) : (
-    <div className="text-muted-foreground">Carregando...</div>
-  );
-};
+import { RemakeOrderDialog } from "@/components/admin/RemakeOrderDialog";
+import { ShadePicker } from "@/components/ShadePicker";
+import { ToothNumberingSelect } from "@/components/ToothNumberingSelect";
+import { WorkOrderPdfButton } from "@/components/WorkOrderPdfButton";
+import { OrderLabelsButton } from "@/components/OrderLabelsButton";
+import { OrderScanInput } from "@/components/OrderScanInput";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { getOrderItemMaterials, getOrderShades, orderHasMaterial, orderHasShade } from "@/lib/orderItems";
+import { compareShades } from "@/lib/shades";
+import { getActiveItems } from "@/lib/dentalCatalog";
+import { DELIVERED_STATUSES, IN_PROGRESS_STATUSES, canTransition, getNextStatuses, getScanAdvanceStatus, getStatusLabel, getStatusVariant } from "@/lib/orderWorkflow";
 
 const NotesDialog = ({ order, onSave }: { order: any; onSave: (orderId: string, notes: string) => Promise<void> }) => {
   const [open, setOpen] = useState(false);
@@ -115,16 +82,22 @@ const NotesDialog = ({ order, onSave }: { order: any; onSave: (orderId: string,
 export default function Admin() {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { catalog } = useDentalCatalog();
   const [orders, setOrders] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [session, setSession] = useState<Session | null>(null);
   const [isAdmin, setIsAdmin] = useState(false);
-  const [statusFilter, setStatusFilter] = useState<string | null>('pending');
+  // ?pedido=<id> (the QR code on the printed work order) opens that order's details
+  const [searchParams, setSearchParams] = useSearchParams();
+  const openOrderId = searchParams.get('pedido');
+  const [statusFilter, setStatusFilter] = useState<string | null>(openOrderId ? null : 'pending');
   const [users, setUsers] = useState<any[]>([]);
   const [isPriorityFilter, setIsPriorityFilter] = useState(false);
   const [userFilter, setUserFilter] = useState<string | null>(null);
   const [materialFilter, setMaterialFilter] = useState<string | null>(null);
   const [colorFilter, setColorFilter] = useState<string | null>(null);
+  // What a box label scan does: open the order or move it to its next status
+  const [scanMode, setScanMode] = useState<'open' | 'advance'>('open');
 
   useEffect(() => {
     // Check authentication and admin role
@@ -184,6 +157,28 @@ export default function Admin() {
           fetchOrders();
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'order_items'
+        },
+        () => {
+          fetchOrders();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'order_files'
+        },
+        () => {
+          fetchOrders();
+        }
+      )
       .subscribe();
 
     return () => {
@@ -198,7 +193,9 @@ export default function Admin() {
         .from('orders')
         .select(`
           *,
-          assigned_user:profiles!orders_assigned_to_fkey(username)
+          assigned_user:profiles!orders_assigned_to_fkey(username),
+          order_items(*),
+          order_files(id)
         `)
         .order('created_at', { ascending: false });
 
@@ -226,26 +223,16 @@ export default function Admin() {
   };
 
   const getStatusBadge = (status: string) => {
-    const statusConfig: Record<string, { label: string; variant: "secondary" | "default" | "outline" | "destructive" }> = {
-      pending: { label: "Pendente", variant: "secondary" },
-      "in-progress": { label: "Em Andamento", variant: "default" },
-      completed: { label: "Concluído", variant: "outline" },
-      projetando: { label: "Projetando", variant: "default" },
-      projetado: { label: "Projetado", variant: "default" },
-      "fresado-provisorio": { label: "Fresado Provisório", variant: "default" },
-      "fresado-definitivo": { label: "Fresado Definitivo", variant: "default" },
-      maquiagem: { label: "Maquiagem", variant: "default" },
-      "entregue-provisorio": { label: "Entregue Provisório", variant: "default" },
-      vazado: { label: "Vazado", variant: "default" },
-      pureto: { label: "Pureto", variant: "default" },
-    };
-
-    const config = statusConfig[status] || { label: status, variant: "secondary" as const };
-    return <Badge variant={config.variant}>{config.label}</Badge>;
+    return <Badge variant={getStatusVariant(status)}>{getStatusLabel(status)}</Badge>;
   };
 
   const handleDelete = async (orderId: string, orderNumber: string) => {
     try {
+      const { data: files } = await supabase
+        .from('order_files')
+        .select('storage_path')
+        .eq('order_id', orderId);
+
       const { error } = await supabase
         .from('orders')
         .delete()
@@ -253,6 +240,11 @@ export default function Admin() {
 
       if (error) throw error;
 
+      // The rows go with the order (ON DELETE CASCADE); the stored objects must be removed explicitly
+      if (files && files.length > 0) {
+        await supabase.storage.from('order-files').remove(files.map(f => f.storage_path));
+      }
+
       toast({
         title: "Pedido excluído",
         description: `A ordem ${orderNumber} foi excluída com sucesso.`,
@@ -275,15 +267,21 @@ export default function Admin() {
   const handleStatusChange = async (orderId: string, newStatus: string) => {
     if (!session?.user?.id) return;
 
-    try {
-      // Get current order status
-      const currentOrder = orders.find(o => o.id === orderId);
-      const oldStatus = currentOrder?.status || null;
+    // Get current order status
+    const currentOrder = orders.find(o => o.id === orderId);
+    const oldStatus = currentOrder?.status || null;
 
-      // Get last status change to calculate duration
-      const lastChange = await getLastStatusChange(orderId);
+    if (oldStatus && !canTransition(oldStatus, newStatus)) {
+      toast({
+        title: "Transição inválida",
+        description: `Não é possível mudar de "${getStatusLabel(oldStatus)}" para "${getStatusLabel(newStatus)}".`,
+        variant: "destructive",
+      });
+      return;
+    }
 
-      // Update order status
+    try {
+      // Status history is recorded by the database trigger on orders.status
       const { error } = await supabase
         .from('orders')
         .update({ status: newStatus })
@@ -291,15 +289,6 @@ export default function Admin() {
 
       if (error) throw error;
 
-      // Record status change in history
-      await recordStatusChange({
-        orderId,
-        oldStatus,
-        newStatus,
-        userId: session.user.id,
-        previousChangedAt: lastChange?.changed_at,
-      });
-
       toast({
         title: "Status atualizado",
         description: "O status da ordem foi alterado com sucesso.",
@@ -314,6 +303,39 @@ export default function Admin() {
     }
   };
 
+  // Clears the filters so the order is listed and its dialog can open
+  const openOrder = (orderId: string) => {
+    setStatusFilter(null);
+    setIsPriorityFilter(false);
+    setUserFilter(null);
+    setMaterialFilter(null);
+    setColorFilter(null);
+    setSearchParams({ pedido: orderId }, { replace: true });
+  };
+
+  const handleRemakeCreated = async (remake: { id: string }) => {
+    await fetchOrders();
+    openOrder(remake.id);
+  };
+
+  const handleScannedOrder = async (order: { id: string; order_number: string; status: string }) => {
+    if (scanMode === 'open') {
+      openOrder(order.id);
+      return;
+    }
+
+    const nextStatus = getScanAdvanceStatus(order.status);
+    if (!nextStatus) {
+      toast({
+        title: "Sem próxima etapa",
+        description: `O pedido ${order.order_number} está em "${getStatusLabel(order.status)}" e não pode avançar.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    await handleStatusChange(order.id, nextStatus);
+  };
+
   const handleMaterialChange = async (orderId: string, newMaterial: string) => {
     try {
       const { error } = await supabase
@@ -341,7 +363,7 @@ export default function Admin() {
     try {
       const { error } = await supabase
         .from('orders')
-        .update({ color: newColor })
+        .update({ color: newColor || null })
         .eq('id', orderId);
 
       if (error) throw error;
@@ -397,25 +419,19 @@ export default function Admin() {
       // Get current order status
       const currentOrder = orders.find(o => o.id === orderId);
       const oldStatus = currentOrder?.status || 'pending';
+      // Orders already further along the workflow are only reassigned
+      const newStatus = canTransition(oldStatus, 'in-progress') ? 'in-progress' : oldStatus;
 
       const { error } = await supabase
         .from('orders')
         .update({ 
           assigned_to: session.user.id,
-          status: 'in-progress'
+          status: newStatus
         })
         .eq('id', orderId);
 
       if (error) throw error;
 
-      // Record status change in history
-      await recordStatusChange({
-        orderId,
-        oldStatus,
-        newStatus: 'in-progress',
-        userId: session.user.id,
-      });
-
       // Recarrega os dados para atualizar a tabela
       fetchOrders();
 
@@ -436,14 +452,20 @@ export default function Admin() {
   const handleUnacceptOrder = async (orderId: string) => {
     if (!session?.user?.id) return;
 
-    try {
-      // Get current order status
-      const currentOrder = orders.find(o => o.id === orderId);
-      const oldStatus = currentOrder?.status || 'in-progress';
+    // Get current order status
+    const currentOrder = orders.find(o => o.id === orderId);
+    const oldStatus = currentOrder?.status || 'in-progress';
 
-      // Get last status change to calculate duration
-      const lastChange = await getLastStatusChange(orderId);
+    if (!canTransition(oldStatus, 'pending')) {
+      toast({
+        title: "Transição inválida",
+        description: `A ordem já está em "${getStatusLabel(oldStatus)}" e não pode voltar para pendente.`,
+        variant: "destructive",
+      });
+      return;
+    }
 
+    try {
       const { error } = await supabase
         .from('orders')
         .update({ 
@@ -454,15 +476,6 @@ export default function Admin() {
 
       if (error) throw error;
 
-      // Record status change in history
-      await recordStatusChange({
-        orderId,
-        oldStatus,
-        newStatus: 'pending',
-        userId: session.user.id,
-        previousChangedAt: lastChange?.changed_at,
-      });
-
       fetchOrders();
 
       toast({
@@ -536,27 +549,14 @@ export default function Admin() {
     return user?.user_id || null;
   };
 
-  // Define in-progress sub-statuses
-  const inProgressStatuses = [
-    'in-progress',
-    'projetando',
-    'projetado',
-    'fresado-provisorio',
-    'fresado-definitivo',
-    'maquiagem',
-    'entregue-provisorio',
-    'vazado',
-    'pureto'
-  ];
-
   const filteredOrders = (() => {
     let result = orders;
     
     // Apply status filter first
     if (isPriorityFilter) {
-      result = result.filter(order => order.status === 'pending' || inProgressStatuses.includes(order.status));
+      result = result.filter(order => order.status === 'pending' || IN_PROGRESS_STATUSES.includes(order.status));
     } else if (statusFilter === 'in-progress') {
-      result = result.filter(order => inProgressStatuses.includes(order.status));
+      result = result.filter(order => IN_PROGRESS_STATUSES.includes(order.status));
     } else if (statusFilter) {
       result = result.filter(order => order.status === statusFilter);
     }
@@ -571,12 +571,12 @@ export default function Admin() {
     
     // Apply material filter
     if (materialFilter) {
-      result = result.filter(order => order.material === materialFilter);
+      result = result.filter(order => orderHasMaterial(order, materialFilter));
     }
     
     // Apply color filter
     if (colorFilter) {
-      result = result.filter(order => order.color === colorFilter);
+      result = result.filter(order => orderHasShade(order, colorFilter));
     }
     
     // Sort by priority if priority filter is active
@@ -592,9 +592,25 @@ export default function Admin() {
     return result;
   })();
 
+  // Disabled materials stay in the filter so older orders can still be found
+  const materialOptions = catalog.materials.map(material => material.label);
+  const activeMaterialOptions = getActiveItems(catalog.materials).map(material => material.label);
+
+  // Orders containing each material (an order with mixed materials counts for each of them)
+  const materialCounts = Object.fromEntries(
+    materialOptions.map(material => [material, orders.filter(o => orderHasMaterial(o, material)).length])
+  );
+
+  // Shades actually in use, in shade guide order
+  const shadeCounts: Record<string, number> = {};
+  orders.forEach(order => getOrderShades(order).forEach(shade => {
+    shadeCounts[shade] = (shadeCounts[shade] || 0) + 1;
+  }));
+  const shadeOptions = Object.keys(shadeCounts).sort(compareShades);
+
   const orderCounts = {
     pending: orders.filter(o => o.status === 'pending').length,
-    'in-progress': orders.filter(o => inProgressStatuses.includes(o.status)).length,
+    'in-progress': orders.filter(o => IN_PROGRESS_STATUSES.includes(o.status)).length,
     completed: orders.filter(o => o.status === 'completed').length,
   };
 
@@ -613,10 +629,19 @@ export default function Admin() {
               <h1 className="text-2xl font-bold text-gray-900">Painel Administrativo</h1>
             </div>
             <div className="flex items-center gap-2">
+              <ToothNumberingSelect />
+              <Button variant="outline" onClick={() => navigate("/catalogo")}>
+                <BookOpen className="mr-2 w-4 h-4" />
+                Catálogo
+              </Button>
               <Button variant="outline" onClick={() => navigate("/analytics")}>
                 <BarChart3 className="mr-2 w-4 h-4" />
                 Analytics
               </Button>
+              <Button variant="outline" onClick={() => navigate("/financeiro")}>
+                <Receipt className="mr-2 w-4 h-4" />
+                Financeiro
+              </Button>
               <Button variant="default" onClick={() => navigate("/producao")}>
                 Visualização da Produção
               </Button>
@@ -670,12 +695,11 @@ export default function Admin() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">Todos Materiais</SelectItem>
-                    <SelectItem value="Dissilicato">Dissilicato</SelectItem>
-                    <SelectItem value="Zirconia">Zirconia</SelectItem>
-                    <SelectItem value="PMMA">PMMA</SelectItem>
-                    <SelectItem value="Cera">Cera</SelectItem>
-                    <SelectItem value="Resina 3D">Resina 3D</SelectItem>
-                    <SelectItem value="Gesso">Gesso</SelectItem>
+                    {materialOptions.map(material => (
+                      <SelectItem key={material} value={material}>
+                        {material} ({materialCounts[material]})
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
                 <Select
@@ -687,18 +711,31 @@ export default function Admin() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">Todas Cores</SelectItem>
-                    <SelectItem value="BL1">BL1</SelectItem>
-                    <SelectItem value="BL2">BL2</SelectItem>
-                    <SelectItem value="BL3">BL3</SelectItem>
-                    <SelectItem value="BL4">BL4</SelectItem>
-                    <SelectItem value="A1">A1</SelectItem>
-                    <SelectItem value="A2">A2</SelectItem>
-                    <SelectItem value="A3">A3</SelectItem>
-                    <SelectItem value="WHITE">WHITE</SelectItem>
+                    {shadeOptions.map(shade => (
+                      <SelectItem key={shade} value={shade}>
+                        {shade} ({shadeCounts[shade]})
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
             </div>
+            <div className="flex flex-wrap items-center gap-2 pt-2">
+              <OrderScanInput orders={orders} onScan={handleScannedOrder} className="w-[260px]" />
+              <ToggleGroup
+                type="single"
+                size="sm"
+                variant="outline"
+                value={scanMode}
+                onValueChange={(value) => value && setScanMode(value as 'open' | 'advance')}
+              >
+                <ToggleGroupItem value="open">Abrir pedido</ToggleGroupItem>
+                <ToggleGroupItem value="advance">Avançar status</ToggleGroupItem>
+              </ToggleGroup>
+              <div className="ml-auto">
+                <OrderLabelsButton orders={filteredOrders} label={`Etiquetas (${filteredOrders.length})`} />
+              </div>
+            </div>
           </CardHeader>
           <CardContent>
             <Table>
@@ -748,7 +785,14 @@ export default function Admin() {
                           );
                         })() : '-'}
                       </TableCell>
-                      <TableCell>{order.patient_name}</TableCell>
+                      <TableCell>
+                        {order.patient_name}
+                        {order.parent_order_id && (
+                          <Badge variant="outline" className="ml-2">
+                            Refação{order.is_warranty && " · Garantia"}
+                          </Badge>
+                        )}
+                      </TableCell>
                       <TableCell>
                         <Select
                           value={order.material || ""}
@@ -758,14 +802,16 @@ export default function Admin() {
                             <SelectValue placeholder="Selecionar" />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="Dissilicato">Dissilicato</SelectItem>
-                            <SelectItem value="Zirconia">Zirconia</SelectItem>
-                            <SelectItem value="PMMA">PMMA</SelectItem>
-                            <SelectItem value="Cera">Cera</SelectItem>
-                            <SelectItem value="Resina 3D">Resina 3D</SelectItem>
-                            <SelectItem value="Gesso">Gesso</SelectItem>
+                            {activeMaterialOptions.map(material => (
+                              <SelectItem key={material} value={material}>{material}</SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
+                        {getOrderItemMaterials(order.order_items).length > 1 && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {getOrderItemMaterials(order.order_items).join(" + ")}
+                          </p>
+                        )}
                       </TableCell>
                       <TableCell>
                         {order.delivery_deadline ? (() => {
@@ -790,25 +836,12 @@ export default function Admin() {
                         })() : '-'}
                       </TableCell>
                       <TableCell>
-                        <Select
+                        <ShadePicker
                           value={order.color || ""}
-                          onValueChange={(value) => handleColorChange(order.id, value)}
-                        >
-                          <SelectTrigger className="w-[120px]">
-                            <SelectValue placeholder="Selecionar" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="BL1">BL1</SelectItem>
-                            <SelectItem value="BL2">BL2</SelectItem>
-                            <SelectItem value="BL3">BL3</SelectItem>
-                            <SelectItem value="BL4">BL4</SelectItem>
-                            <SelectItem value="A1">A1</SelectItem>
-                            <SelectItem value="A2">A2</SelectItem>
-                            <SelectItem value="A3">A3</SelectItem>
-                            <SelectItem value="WHITE">WHITE</SelectItem>
-                            <SelectItem value="Clear">Clear</SelectItem>
-                          </SelectContent>
-                        </Select>
+                          onChange={(value) => handleColorChange(order.id, value)}
+                          placeholder="Selecionar"
+                          className="w-[140px]"
+                        />
                       </TableCell>
                       <TableCell>
                         <Select 
@@ -819,33 +852,27 @@ export default function Admin() {
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            {statusFilter === 'in-progress' ? (
-                              <>
-                                <SelectItem value="projetando">Projetando</SelectItem>
-                                <SelectItem value="projetado">Projetado</SelectItem>
-                                <SelectItem value="fresado-provisorio">Fresado Provisório</SelectItem>
-                                <SelectItem value="fresado-definitivo">Fresado Definitivo</SelectItem>
-                                <SelectItem value="maquiagem">Maquiagem</SelectItem>
-                                <SelectItem value="entregue-provisorio">Entregue Provisório</SelectItem>
-                                <SelectItem value="vazado">Vazado</SelectItem>
-                                <SelectItem value="pureto">Pureto</SelectItem>
-                              </>
-                            ) : (
-                              <>
-                                <SelectItem value="pending">Pendente</SelectItem>
-                                <SelectItem value="in-progress">Em Andamento</SelectItem>
-                                <SelectItem value="completed">Concluído</SelectItem>
-                              </>
-                            )}
+                            {[order.status, ...getNextStatuses(order.status)].map((status) => (
+                              <SelectItem key={status} value={status}>{getStatusLabel(status)}</SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                       </TableCell>
                       <TableCell className="text-right">
-                        <Dialog>
+                        <Dialog
+                          open={openOrderId === order.id}
+                          onOpenChange={(open) => setSearchParams(open ? { pedido: order.id } : {}, { replace: true })}
+                        >
                           <DialogTrigger asChild>
                             <Button variant="outline" size="sm">
                               <Eye className="mr-1 h-4 w-4" />
                               Pedido
+                              {order.order_files?.length > 0 && (
+                                <span className="ml-2 flex items-center gap-0.5 text-xs text-muted-foreground">
+                                  <Paperclip className="h-3 w-3" />
+                                  {order.order_files.length}
+                                </span>
+                              )}
                             </Button>
                           </DialogTrigger>
                           <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
@@ -855,10 +882,12 @@ export default function Admin() {
                               handleDeliveryDeadlineChange={handleDeliveryDeadlineChange}
                               handleAcceptOrder={handleAcceptOrder}
                               handleUnacceptOrder={handleUnacceptOrder}
-                              ImageWithSignedUrl={ImageWithSignedUrl}
-                              FileLink={FileLink}
                               onUpdate={fetchOrders}
                               toast={toast}
+                              parentOrder={orders.find(o => o.id === order.parent_order_id)}
+                              remakes={orders.filter(o => o.parent_order_id === order.id)}
+                              onOpenOrder={openOrder}
+                              onRemakeCreated={handleRemakeCreated}
                             />
                           </DialogContent>
                         </Dialog>
@@ -870,11 +899,16 @@ export default function Admin() {
                             order={order} 
                             onSave={handleNotesChange}
                           />
+                          <WorkOrderPdfButton order={order} compact />
+                          {DELIVERED_STATUSES.includes(order.status) && (
+                            <RemakeOrderDialog order={order} onCreated={handleRemakeCreated} compact />
+                          )}
                           <Button 
                             variant="ghost" 
                             size="sm" 
                             className="text-green-600 hover:text-green-700 hover:bg-green-50"
                             onClick={() => handleStatusChange(order.id, 'completed')}
+                            disabled={!canTransition(order.status, 'completed') || order.status === 'completed'}
                             title="Marcar como concluído"
                           >
                             <CheckCircle className="h-4 w-4" />
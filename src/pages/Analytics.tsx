@@ -4,11 +4,16 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { BarChart3, PieChart, LogOut, ArrowLeft, Clock, TrendingUp, CheckCircle, Users, Calendar as CalendarIcon, CalendarRange } from "lucide-react";
+import { BarChart3, PieChart, LogOut, RotateCcw, ArrowLeft, Clock, TrendingUp, CheckCircle, Users, Calendar as CalendarIcon, CalendarRange } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import type { Session } from "@supabase/supabase-js";
-import { formatDuration } from "@/hooks/useOrderStatusTracking";
+import { formatBusinessDuration, formatDuration, getProductionInterval } from "@/hooks/useOrderStatusTracking";
+import { useLabCalendar } from "@/hooks/useLabCalendar";
+import { getBusinessSeconds } from "@/lib/workingDays";
+import { getStatusLabel } from "@/lib/orderWorkflow";
+import { useDentalCatalog } from "@/hooks/useDentalCatalog";
+import { REMAKE_REASONS, REMAKE_REASON_LABELS, getRemakeRates, type RemakeRate } from "@/lib/orderRemakes";
 import { BarChart, Bar, XAxis, YAxis, ResponsiveContainer, PieChart as RechartsPieChart, Pie, Cell, Legend, Tooltip } from "recharts";
 import { format, subDays, subWeeks, subMonths, startOfDay, endOfDay, startOfWeek, endOfWeek, startOfMonth, endOfMonth, eachDayOfInterval, eachWeekOfInterval, eachMonthOfInterval, differenceInDays } from "date-fns";
 import { ptBR } from "date-fns/locale";
@@ -22,7 +27,7 @@ interface StatusHistoryEntry {
   order_id: string;
   old_status: string | null;
   new_status: string;
-  changed_by: string;
+  changed_by: string | null;
   changed_at: string;
   duration_seconds: number | null;
 }
@@ -35,6 +40,7 @@ interface PerformanceData {
   startDate: string | null;
   endDate: string | null;
   totalSeconds: number | null;
+  businessSeconds: number | null;
 }
 
 interface UserPerformance {
@@ -42,6 +48,8 @@ interface UserPerformance {
   completedOrders: number;
   avgTimeSeconds: number;
   totalTimeSeconds: number;
+  avgBusinessSeconds: number;
+  totalBusinessSeconds: number;
 }
 
 type PeriodFilter = 'daily' | 'weekly' | 'monthly' | 'custom';
@@ -54,26 +62,11 @@ const USER_COLORS: Record<string, string> = {
   'Henrique': 'hsl(35, 92%, 40%)',
 };
 
-const getStatusLabel = (status: string): string => {
-  const labels: Record<string, string> = {
-    pending: "Pendente",
-    "in-progress": "Em Andamento",
-    completed: "Concluído",
-    projetando: "Projetando",
-    projetado: "Projetado",
-    "fresado-provisorio": "Fresado Provisório",
-    "fresado-definitivo": "Fresado Definitivo",
-    maquiagem: "Maquiagem",
-    "entregue-provisorio": "Entregue Provisório",
-    vazado: "Vazado",
-    pureto: "Pureto",
-  };
-  return labels[status] || status;
-};
-
 export default function Analytics() {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { catalog } = useDentalCatalog();
+  const { labCalendar } = useLabCalendar();
   const [session, setSession] = useState<Session | null>(null);
   const [isAdmin, setIsAdmin] = useState(false);
   const [loading, setLoading] = useState(true);
@@ -128,7 +121,8 @@ export default function Analytics() {
         .from('orders')
         .select(`
           *,
-          assigned_user:profiles!orders_assigned_to_fkey(username)
+          assigned_user:profiles!orders_assigned_to_fkey(username),
+          order_items(material)
         `)
         .order('created_at', { ascending: false });
 
@@ -228,6 +222,20 @@ export default function Analytics() {
     }
   }, [periodFilter, customDateRange]);
 
+  // Remake rates over all orders, attributed to the technician and materials of the returned order
+  const remakeData = useMemo(() => {
+    const byTechnician = getRemakeRates(orders, order => [order.assigned_user?.username || 'Sem responsável']);
+    const materialLabel = (value: string) => catalog.materials.find(m => m.value === value)?.label || value;
+    const byMaterial = getRemakeRates(orders, order => {
+      const materials: string[] = (order.order_items || []).map(item => item.material).filter(Boolean);
+      if (materials.length > 0) return [...new Set(materials.map(materialLabel))];
+      return [order.material ? materialLabel(order.material) : 'Sem material'];
+    });
+    const totalRemakes = orders.filter(order => order.parent_order_id).length;
+    const warrantyRemakes = orders.filter(order => order.parent_order_id && order.is_warranty).length;
+    return { byTechnician, byMaterial, totalRemakes, warrantyRemakes };
+  }, [orders, catalog]);
+
   // Process chart data based on period filter
   const processedData = useMemo(() => {
     const orderHistories: Record<string, StatusHistoryEntry[]> = {};
@@ -238,40 +246,41 @@ export default function Analytics() {
       orderHistories[h.order_id].push(h);
     });
 
-    const acceptedStatuses = ['in-progress', 'projetando'];
     const performanceResults: PerformanceData[] = [];
-    const userStats: Record<string, { completedOrders: number; totalTimeSeconds: number }> = {};
-    const completionTimes: Record<string, { total: number; count: number }> = {};
+    const userStats: Record<string, { completedOrders: number; totalTimeSeconds: number; totalBusinessSeconds: number }> = {};
+    const completionTimes: Record<string, { total: number; businessTotal: number; count: number }> = {};
 
     // Initialize intervals
     getDateRange.intervals.forEach(date => {
       const key = getDateRange.formatKey(date);
-      completionTimes[key] = { total: 0, count: 0 };
+      completionTimes[key] = { total: 0, businessTotal: 0, count: 0 };
     });
 
     Object.entries(orderHistories).forEach(([orderId, orderHistory]) => {
       const order = orders.find(o => o.id === orderId);
       if (!order) return;
 
-      const acceptedEntry = orderHistory.find(h => acceptedStatuses.includes(h.new_status));
-      const completedEntry = orderHistory.find(h => h.new_status === 'completed');
+      const interval = getProductionInterval(orderHistory);
 
-      if (acceptedEntry && completedEntry) {
-        const startTime = new Date(acceptedEntry.changed_at);
-        const endTime = new Date(completedEntry.changed_at);
+      if (interval) {
+        const startTime = new Date(interval.start);
+        const endTime = new Date(interval.end);
         const totalSeconds = Math.floor((endTime.getTime() - startTime.getTime()) / 1000);
+        // Only opening hours on working days count; nights, weekends and closures do not
+        const businessSeconds = getBusinessSeconds(startTime, endTime, labCalendar);
 
         // Check if within date range
         if (endTime >= getDateRange.start && endTime <= getDateRange.end) {
           const key = getDateRange.formatKey(endTime);
           if (completionTimes[key]) {
             completionTimes[key].total += totalSeconds;
+            completionTimes[key].businessTotal += businessSeconds;
             completionTimes[key].count += 1;
           }
         }
 
         // Get all unique users who worked on this order
-        const uniqueUserIds = [...new Set(orderHistory.map(h => h.changed_by))];
+        const uniqueUserIds = [...new Set(orderHistory.map(h => h.changed_by).filter(Boolean))];
         const usernames = uniqueUserIds
           .map(userId => profiles.find(p => p.user_id === userId)?.username || 'Desconhecido')
           .filter(Boolean);
@@ -279,10 +288,11 @@ export default function Analytics() {
         // Track user performance
         usernames.forEach(username => {
           if (!userStats[username]) {
-            userStats[username] = { completedOrders: 0, totalTimeSeconds: 0 };
+            userStats[username] = { completedOrders: 0, totalTimeSeconds: 0, totalBusinessSeconds: 0 };
           }
           userStats[username].completedOrders += 1;
           userStats[username].totalTimeSeconds += totalSeconds;
+          userStats[username].totalBusinessSeconds += businessSeconds;
         });
 
         performanceResults.push({
@@ -290,9 +300,10 @@ export default function Analytics() {
           orderNumber: order.order_number,
           patientName: order.patient_name,
           assignedUsers: usernames,
-          startDate: acceptedEntry.changed_at,
-          endDate: completedEntry.changed_at,
+          startDate: interval.start,
+          endDate: interval.end,
           totalSeconds,
+          businessSeconds,
         });
       }
     });
@@ -300,11 +311,13 @@ export default function Analytics() {
     // Format completion time data for chart
     const completionTimeData = getDateRange.intervals.map(date => {
       const key = getDateRange.formatKey(date);
-      const dayData = completionTimes[key] || { total: 0, count: 0 };
+      const dayData = completionTimes[key] || { total: 0, businessTotal: 0, count: 0 };
       const avgMinutes = dayData.count > 0 ? Math.round(dayData.total / dayData.count / 60) : 0;
+      const avgBusinessMinutes = dayData.count > 0 ? Math.round(dayData.businessTotal / dayData.count / 60) : 0;
       return {
         label: getDateRange.formatLabel(date),
         avgMinutes,
+        avgBusinessMinutes,
         count: dayData.count,
       };
     });
@@ -334,6 +347,8 @@ export default function Analytics() {
         completedOrders: stats.completedOrders,
         avgTimeSeconds: Math.round(stats.totalTimeSeconds / stats.completedOrders),
         totalTimeSeconds: stats.totalTimeSeconds,
+        avgBusinessSeconds: Math.round(stats.totalBusinessSeconds / stats.completedOrders),
+        totalBusinessSeconds: stats.totalBusinessSeconds,
       }))
       .sort((a, b) => b.completedOrders - a.completedOrders);
 
@@ -343,7 +358,7 @@ export default function Analytics() {
       performanceData: performanceResults.slice(0, 20),
       userPerformanceData,
     };
-  }, [orders, statusHistory, profiles, getDateRange]);
+  }, [orders, statusHistory, profiles, getDateRange, labCalendar]);
 
 
   const handleLogout = async () => {
@@ -380,6 +395,49 @@ export default function Analytics() {
   const avgCompletionTime = processedData.performanceData.length > 0
     ? Math.round(processedData.performanceData.reduce((acc, p) => acc + (p.totalSeconds || 0), 0) / processedData.performanceData.length)
     : 0;
+  const avgBusinessTime = processedData.performanceData.length > 0
+    ? Math.round(processedData.performanceData.reduce((acc, p) => acc + (p.businessSeconds || 0), 0) / processedData.performanceData.length)
+    : 0;
+
+  const renderRemakeTable = (title: string, keyLabel: string, rates: RemakeRate[]) => (
+    <div>
+      <h4 className="text-sm font-medium mb-4">{title}</h4>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{keyLabel}</TableHead>
+            <TableHead className="text-center">Pedidos</TableHead>
+            <TableHead className="text-center">Refações</TableHead>
+            <TableHead className="text-center">Taxa</TableHead>
+            <TableHead>Motivos</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rates.map(rate => (
+            <TableRow key={rate.key}>
+              <TableCell className="font-medium">{rate.key}</TableCell>
+              <TableCell className="text-center">{rate.orders}</TableCell>
+              <TableCell className="text-center">{rate.remakes}</TableCell>
+              <TableCell className="text-center">
+                <Badge variant={rate.remakes > 0 ? "destructive" : "outline"} className="font-mono">
+                  {(rate.rate * 100).toFixed(1)}%
+                </Badge>
+              </TableCell>
+              <TableCell>
+                <div className="flex flex-wrap gap-1">
+                  {REMAKE_REASONS.filter(reason => rate.reasons[reason]).map(reason => (
+                    <Badge key={reason} variant="secondary">
+                      {REMAKE_REASON_LABELS[reason]}: {rate.reasons[reason]}
+                    </Badge>
+                  ))}
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -514,6 +572,9 @@ export default function Analytics() {
                     <div>
                       <p className="text-sm text-muted-foreground">Tempo Médio de Produção</p>
                       <p className="text-2xl font-bold">{formatDuration(avgCompletionTime)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Em horário útil: {formatBusinessDuration(avgBusinessTime, labCalendar)}
+                      </p>
                     </div>
                   </div>
                 </CardContent>
@@ -546,7 +607,10 @@ export default function Analytics() {
                                 <div className="bg-popover border border-border rounded-lg p-2 shadow-lg">
                                   <p className="text-sm font-medium">{payload[0].payload.label}</p>
                                   <p className="text-sm text-muted-foreground">
-                                    Média: {payload[0].value} min
+                                    Média: {payload[0].payload.avgMinutes} min
+                                  </p>
+                                  <p className="text-sm text-muted-foreground">
+                                    Em horário útil: {payload[0].payload.avgBusinessMinutes} min
                                   </p>
                                   <p className="text-sm text-muted-foreground">
                                     Pedidos: {payload[0].payload.count}
@@ -557,7 +621,9 @@ export default function Analytics() {
                             return null;
                           }}
                         />
-                        <Bar dataKey="avgMinutes" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
+                        <Legend />
+                        <Bar dataKey="avgMinutes" name="Tempo total" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
+                        <Bar dataKey="avgBusinessMinutes" name="Horário útil" fill={COLORS[2]} radius={[4, 4, 0, 0]} />
                       </BarChart>
                     </ResponsiveContainer>
                   </div>
@@ -734,7 +800,9 @@ export default function Analytics() {
                           <TableHead>Usuário</TableHead>
                           <TableHead className="text-center">Pedidos Concluídos</TableHead>
                           <TableHead className="text-center">Tempo Médio</TableHead>
+                          <TableHead className="text-center">Médio Útil</TableHead>
                           <TableHead className="text-center">Tempo Total</TableHead>
+                          <TableHead className="text-center">Total Útil</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
@@ -754,11 +822,21 @@ export default function Analytics() {
                                 {formatDuration(user.avgTimeSeconds)}
                               </Badge>
                             </TableCell>
+                            <TableCell className="text-center">
+                              <Badge variant="outline" className="font-mono">
+                                {formatDuration(user.avgBusinessSeconds)}
+                              </Badge>
+                            </TableCell>
                             <TableCell className="text-center">
                               <Badge variant="secondary" className="font-mono">
                                 {formatDuration(user.totalTimeSeconds)}
                               </Badge>
                             </TableCell>
+                            <TableCell className="text-center">
+                              <Badge variant="secondary" className="font-mono">
+                                {formatDuration(user.totalBusinessSeconds)}
+                              </Badge>
+                            </TableCell>
                           </TableRow>
                         ))}
                       </TableBody>
@@ -768,6 +846,32 @@ export default function Analytics() {
               </CardContent>
             </Card>
 
+            {/* Remake Rates */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <RotateCcw className="h-5 w-5 text-primary" />
+                  Taxa de Refação
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  {remakeData.totalRemakes} {remakeData.totalRemakes === 1 ? 'refação' : 'refações'} de {totalOrders} pedidos
+                  {remakeData.warrantyRemakes > 0 && ` · ${remakeData.warrantyRemakes} em garantia`}
+                </p>
+              </CardHeader>
+              <CardContent>
+                {remakeData.totalRemakes === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    Nenhuma refação registrada.
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    {renderRemakeTable('Por Técnico', 'Técnico', remakeData.byTechnician)}
+                    {renderRemakeTable('Por Material', 'Material', remakeData.byMaterial)}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             {/* Performance Table */}
             <Card>
               <CardHeader>
@@ -786,12 +890,13 @@ export default function Analytics() {
                       <TableHead>Data de Início</TableHead>
                       <TableHead>Data de Término</TableHead>
                       <TableHead>Tempo Total</TableHead>
+                      <TableHead>Tempo Útil</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {processedData.performanceData.length === 0 ? (
                       <TableRow>
-                        <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                        <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
                           Nenhum pedido finalizado com histórico de status encontrado.
                           <br />
                           <span className="text-sm">O rastreamento começará a registrar dados a partir de agora.</span>
@@ -824,6 +929,11 @@ export default function Analytics() {
                               {formatDuration(perf.totalSeconds)}
                             </Badge>
                           </TableCell>
+                          <TableCell>
+                            <Badge variant="secondary" className="font-mono">
+                              {formatBusinessDuration(perf.businessSeconds, labCalendar)}
+                            </Badge>
+                          </TableCell>
                         </TableRow>
                       ))
                     )}
@@ -0,0 +1,447 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { AlertTriangle, ArrowLeft, Download, Eye, FileText, LogOut, Receipt, RefreshCw } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { format, parseISO, startOfMonth, subMonths } from "date-fns";
+import {
+  INVOICE_STATUS_COLORS,
+  INVOICE_STATUS_LABELS,
+  downloadInvoicesCsv,
+  fetchInvoices,
+  fetchUnbilledOrders,
+  formatInvoicePeriod,
+  generateInvoices,
+  getInvoiceStatus,
+  getUnbilledReason,
+  setInvoicePaid,
+  updateInvoiceItemAmount,
+  type Invoice,
+  type InvoiceItem,
+  type InvoiceStatus,
+  type UnbilledOrder,
+} from "@/lib/invoices";
+import { downloadInvoicePdf } from "@/lib/invoicePdf";
+import { formatCurrency } from "@/lib/pricing";
+
+const formatDate = (date: string) => format(parseISO(date), "dd/MM/yyyy");
+
+export default function Billing() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  // Completed orders of the selected month left out of the invoices
+  const [unbilledOrders, setUnbilledOrders] = useState<UnbilledOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  // yyyy-MM; empty lists every month. Defaults to the last closed month
+  const [month, setMonth] = useState(() => format(subMonths(new Date(), 1), "yyyy-MM"));
+  const [statusFilter, setStatusFilter] = useState<InvoiceStatus | "all">("all");
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const period = month ? `${month}-01` : undefined;
+      const [loadedInvoices, loadedUnbilled] = await Promise.all([
+        fetchInvoices(period),
+        period ? fetchUnbilledOrders(period) : Promise.resolve([]),
+      ]);
+      setInvoices(loadedInvoices);
+      setUnbilledOrders(loadedUnbilled);
+    } catch (error) {
+      console.error('Error fetching invoices:', error);
+      toast({
+        title: "Erro ao carregar faturas",
+        description: "Não foi possível carregar as faturas.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [month, toast]);
+
+  useEffect(() => {
+    const checkAuth = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        navigate("/login");
+        return;
+      }
+
+      const { data: roles } = await supabase
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', session.user.id)
+        .eq('role', 'admin')
+        .single();
+
+      if (!roles) {
+        toast({
+          title: "Acesso negado",
+          description: "Você não tem permissão para acessar esta página.",
+          variant: "destructive",
+        });
+        navigate("/");
+        return;
+      }
+
+      setIsAdmin(true);
+    };
+
+    checkAuth();
+  }, [navigate, toast]);
+
+  useEffect(() => {
+    if (isAdmin) fetchData();
+  }, [isAdmin, fetchData]);
+
+  const handleLogout = async () => {
+    await supabase.auth.signOut();
+    navigate("/login");
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      const count = await generateInvoices(`${month}-01`);
+      toast({
+        title: "Faturamento gerado",
+        description: count === 0
+          ? "Nenhum pedido concluído a faturar neste mês."
+          : `${count} ${count === 1 ? "pedido faturado" : "pedidos faturados"}.`,
+      });
+      await fetchData();
+    } catch (error) {
+      console.error('Error generating invoices:', error);
+      toast({
+        title: "Erro ao gerar faturas",
+        description: "Só é possível faturar meses já encerrados.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleTogglePaid = async (invoice: Invoice) => {
+    try {
+      await setInvoicePaid(invoice.id, !invoice.paid_at);
+      await fetchData();
+    } catch (error) {
+      console.error('Error updating invoice:', error);
+      toast({
+        title: "Erro ao atualizar",
+        description: `Não foi possível atualizar a fatura ${invoice.invoice_number}.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAmountBlur = async (item: InvoiceItem, value: string) => {
+    const amount = Number(value.replace(",", "."));
+    if (!value.trim() || !Number.isFinite(amount) || amount < 0 || amount === Number(item.amount)) return;
+    try {
+      await updateInvoiceItemAmount(item.id, Math.round(amount * 100) / 100);
+      await fetchData();
+    } catch (error) {
+      console.error('Error updating invoice item:', error);
+      toast({
+        title: "Erro ao atualizar",
+        description: `Não foi possível alterar o valor da OS ${item.order_number}.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDownloadPdf = async (invoice: Invoice) => {
+    try {
+      await downloadInvoicePdf(invoice);
+    } catch (error) {
+      console.error('Error generating invoice PDF:', error);
+      toast({
+        title: "Erro ao gerar PDF",
+        description: "Não foi possível gerar o extrato.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const filteredInvoices = statusFilter === "all"
+    ? invoices
+    : invoices.filter(invoice => getInvoiceStatus(invoice) === statusFilter);
+
+  const totalsByStatus = (status: InvoiceStatus) =>
+    invoices
+      .filter(invoice => getInvoiceStatus(invoice) === status)
+      .reduce((sum, invoice) => sum + Number(invoice.total), 0);
+
+  // Only months that are over can be billed
+  const canGenerate = !!month && month < format(startOfMonth(new Date()), "yyyy-MM");
+
+  if (!isAdmin) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <img src="/header-logo-new.png" alt="Logo" className="w-8 h-8" />
+              <h1 className="text-2xl font-bold text-gray-900">Financeiro</h1>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" onClick={() => navigate("/admin")}>
+                <ArrowLeft className="mr-2 w-4 h-4" />
+                Voltar ao Painel
+              </Button>
+              <Button variant="outline" onClick={handleLogout}>
+                <LogOut className="mr-2 w-4 h-4" />
+                Sair
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          {(["unpaid", "overdue", "paid"] as InvoiceStatus[]).map(status => (
+            <Card key={status}>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">{INVOICE_STATUS_LABELS[status]}</p>
+                <p className="text-2xl font-bold">{formatCurrency(totalsByStatus(status))}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-end justify-between gap-4">
+              <CardTitle className="flex items-center gap-3">
+                <Receipt className="text-burgundy-500" size={20} />
+                Faturas por Clínica
+              </CardTitle>
+              <div className="flex flex-wrap items-end gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="billing-month">Competência</Label>
+                  <Input
+                    id="billing-month"
+                    type="month"
+                    value={month}
+                    onChange={(e) => setMonth(e.target.value)}
+                    className="w-[170px]"
+                  />
+                </div>
+                <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as InvoiceStatus | "all")}>
+                  <SelectTrigger className="w-[150px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todas</SelectItem>
+                    {(Object.keys(INVOICE_STATUS_LABELS) as InvoiceStatus[]).map(status => (
+                      <SelectItem key={status} value={status}>{INVOICE_STATUS_LABELS[status]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="icon" onClick={fetchData} title="Atualizar faturas">
+                  <RefreshCw className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => downloadInvoicesCsv(filteredInvoices, `faturamento-${month || "todos"}.csv`)}
+                  disabled={filteredInvoices.length === 0}
+                >
+                  <Download className="mr-2 h-4 w-4" />
+                  Exportar CSV
+                </Button>
+                <Button onClick={handleGenerate} disabled={!canGenerate || isGenerating} title={canGenerate ? undefined : "Selecione um mês já encerrado"}>
+                  Gerar faturas do mês
+                </Button>
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Cada fatura reúne os pedidos concluídos da clínica no mês. Pedidos sem clínica vinculada não são faturados e aparecem em "Pedidos Não Faturados".
+            </p>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Fatura</TableHead>
+                  <TableHead>Clínica</TableHead>
+                  <TableHead>Competência</TableHead>
+                  <TableHead className="text-right">Pedidos</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Vencimento</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-8">
+                      Carregando faturas...
+                    </TableCell>
+                  </TableRow>
+                ) : filteredInvoices.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                      Nenhuma fatura encontrada.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  filteredInvoices.map(invoice => {
+                    const status = getInvoiceStatus(invoice);
+                    return (
+                      <TableRow key={invoice.id}>
+                        <TableCell className="font-medium">{invoice.invoice_number}</TableCell>
+                        <TableCell>{invoice.clinic?.name || "-"}</TableCell>
+                        <TableCell className="capitalize">{formatInvoicePeriod(invoice.period)}</TableCell>
+                        <TableCell className="text-right">{invoice.invoice_items.length}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(Number(invoice.total))}</TableCell>
+                        <TableCell>{formatDate(invoice.due_date)}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={INVOICE_STATUS_COLORS[status]}>
+                            {INVOICE_STATUS_LABELS[status]}
+                          </Badge>
+                          {invoice.paid_at && (
+                            <span className="ml-2 text-xs text-muted-foreground">{format(parseISO(invoice.paid_at), "dd/MM/yyyy")}</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-1">
+                            <Dialog>
+                              <DialogTrigger asChild>
+                                <Button variant="ghost" size="sm" title="Ver pedidos">
+                                  <Eye className="h-4 w-4" />
+                                </Button>
+                              </DialogTrigger>
+                              <DialogContent className="max-w-3xl">
+                                <DialogHeader>
+                                  <DialogTitle>
+                                    {invoice.invoice_number} · {invoice.clinic?.name} · <span className="capitalize">{formatInvoicePeriod(invoice.period)}</span>
+                                  </DialogTitle>
+                                </DialogHeader>
+                                <Table>
+                                  <TableHeader>
+                                    <TableRow>
+                                      <TableHead>OS</TableHead>
+                                      <TableHead>Paciente</TableHead>
+                                      <TableHead>Concluído em</TableHead>
+                                      <TableHead className="w-[140px]">Valor (R$)</TableHead>
+                                    </TableRow>
+                                  </TableHeader>
+                                  <TableBody>
+                                    {invoice.invoice_items.map(item => (
+                                      <TableRow key={item.id}>
+                                        <TableCell className="font-medium">{item.order_number}</TableCell>
+                                        <TableCell>{item.patient_name}</TableCell>
+                                        <TableCell>{formatDate(item.completed_at)}</TableCell>
+                                        <TableCell>
+                                          {invoice.paid_at ? (
+                                            formatCurrency(Number(item.amount))
+                                          ) : (
+                                            <Input
+                                              key={item.amount}
+                                              defaultValue={Number(item.amount).toFixed(2)}
+                                              onBlur={(e) => handleAmountBlur(item, e.target.value)}
+                                              inputMode="decimal"
+                                              className="h-8"
+                                            />
+                                          )}
+                                        </TableCell>
+                                      </TableRow>
+                                    ))}
+                                  </TableBody>
+                                </Table>
+                                <p className="text-right font-semibold">Total: {formatCurrency(Number(invoice.total))}</p>
+                              </DialogContent>
+                            </Dialog>
+                            <Button variant="ghost" size="sm" onClick={() => handleDownloadPdf(invoice)} title="Baixar extrato em PDF">
+                              <FileText className="h-4 w-4" />
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => handleTogglePaid(invoice)}>
+                              {invoice.paid_at ? "Reabrir" : "Marcar como paga"}
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {month && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-3">
+                <AlertTriangle className="text-amber-500" size={20} />
+                Pedidos Não Faturados
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Pedidos concluídos no mês que não estão em nenhuma fatura, como os sem clínica vinculada.
+              </p>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>OS</TableHead>
+                    <TableHead>Paciente</TableHead>
+                    <TableHead>Clínica</TableHead>
+                    <TableHead>Concluído em</TableHead>
+                    <TableHead className="text-right">Valor</TableHead>
+                    <TableHead>Motivo</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loading ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-8">
+                        Carregando pedidos...
+                      </TableCell>
+                    </TableRow>
+                  ) : unbilledOrders.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                        Todos os pedidos concluídos no mês foram faturados.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    unbilledOrders.map(order => (
+                      <TableRow key={order.id}>
+                        <TableCell className="font-medium">{order.order_number}</TableCell>
+                        <TableCell>{order.patient_name}</TableCell>
+                        <TableCell>{order.clinic_name || "-"}</TableCell>
+                        <TableCell>{formatDate(order.completed_at)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(Number(order.amount))}</TableCell>
+                        <TableCell>{getUnbilledReason(order, invoices)}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
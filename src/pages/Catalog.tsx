@@ -0,0 +1,134 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowLeft, BookOpen, LogOut } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useDentalCatalog } from "@/hooks/useDentalCatalog";
+import { CatalogItemsEditor } from "@/components/admin/CatalogItemsEditor";
+import { CatalogPresetsEditor } from "@/components/admin/CatalogPresetsEditor";
+import { PriceTableEditor } from "@/components/admin/PriceTableEditor";
+import { StationCapacityEditor } from "@/components/admin/StationCapacityEditor";
+import { LabCalendarEditor } from "@/components/admin/LabCalendarEditor";
+import { CATALOG_KIND_LABELS, type CatalogKind } from "@/lib/dentalCatalog";
+
+const CATALOG_KINDS: CatalogKind[] = ['work_type', 'implant_type', 'material'];
+
+export default function Catalog() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [isAdmin, setIsAdmin] = useState(false);
+  const { catalog, reload } = useDentalCatalog();
+
+  useEffect(() => {
+    const checkAuth = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        navigate("/login");
+        return;
+      }
+
+      const { data: roles } = await supabase
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', session.user.id)
+        .eq('role', 'admin')
+        .single();
+
+      if (!roles) {
+        toast({
+          title: "Acesso negado",
+          description: "Você não tem permissão para acessar esta página.",
+          variant: "destructive",
+        });
+        navigate("/");
+        return;
+      }
+
+      setIsAdmin(true);
+    };
+
+    checkAuth();
+  }, [navigate, toast]);
+
+  const handleLogout = async () => {
+    await supabase.auth.signOut();
+    navigate("/login");
+  };
+
+  if (!isAdmin) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <img src="/header-logo-new.png" alt="Logo" className="w-8 h-8" />
+              <h1 className="text-2xl font-bold text-gray-900">Catálogo</h1>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" onClick={() => navigate("/admin")}>
+                <ArrowLeft className="mr-2 w-4 h-4" />
+                Voltar ao Painel
+              </Button>
+              <Button variant="outline" onClick={handleLogout}>
+                <LogOut className="mr-2 w-4 h-4" />
+                Sair
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-3">
+              <BookOpen className="text-burgundy-500" size={20} />
+              Trabalhos, Implantes e Materiais
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Itens desativados deixam de aparecer na seleção de dentes, mas continuam nos pedidos já registrados.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="work_type">
+              <TabsList className="mb-4">
+                {CATALOG_KINDS.map(kind => (
+                  <TabsTrigger key={kind} value={kind}>{CATALOG_KIND_LABELS[kind]}</TabsTrigger>
+                ))}
+                <TabsTrigger value="presets">Presets</TabsTrigger>
+                <TabsTrigger value="prices">Preços</TabsTrigger>
+                <TabsTrigger value="capacity">Capacidade</TabsTrigger>
+                <TabsTrigger value="calendar">Calendário</TabsTrigger>
+              </TabsList>
+              {CATALOG_KINDS.map(kind => (
+                <TabsContent key={kind} value={kind}>
+                  <CatalogItemsEditor kind={kind} catalog={catalog} onChanged={reload} />
+                </TabsContent>
+              ))}
+              <TabsContent value="presets">
+                <CatalogPresetsEditor />
+              </TabsContent>
+              <TabsContent value="prices">
+                <PriceTableEditor catalog={catalog} />
+              </TabsContent>
+              <TabsContent value="capacity">
+                <StationCapacityEditor />
+              </TabsContent>
+              <TabsContent value="calendar">
+                <LabCalendarEditor />
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { LogOut, Plus, ClipboardList, Clock, CheckCircle } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { OrdersList } from "@/components/OrdersList";
+import { ToothNumberingSelect } from "@/components/ToothNumberingSelect";
+import { IN_PROGRESS_STATUSES } from "@/lib/orderWorkflow";
+
+interface Clinic {
+  id: string;
+  name: string;
+}
+
+export default function Dentist() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [isDentist, setIsDentist] = useState(false);
+  const [clinic, setClinic] = useState<Clinic | null>(null);
+  const [statuses, setStatuses] = useState<string[]>([]);
+
+  useEffect(() => {
+    const checkAuth = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        navigate("/login");
+        return;
+      }
+
+      const { data: roles } = await supabase
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', session.user.id)
+        .eq('role', 'dentist')
+        .maybeSingle();
+
+      if (!roles) {
+        toast({
+          title: "Acesso negado",
+          description: "Esta área é exclusiva para clínicas cadastradas.",
+          variant: "destructive",
+        });
+        navigate("/");
+        return;
+      }
+
+      setIsDentist(true);
+      fetchClinic(session.user.id);
+      fetchStatuses();
+    };
+
+    checkAuth();
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      if (!session) {
+        navigate("/login");
+      }
+    });
+
+    // RLS limits both the list and the counters to this clinic's orders
+    const channel = supabase
+      .channel('dentist-orders-changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'orders'
+        },
+        () => {
+          fetchStatuses();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+      supabase.removeChannel(channel);
+    };
+  }, [navigate, toast]);
+
+  const fetchClinic = async (userId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('clinic:clinics(id, name)')
+        .eq('user_id', userId)
+        .single();
+
+      if (error) throw error;
+      setClinic(data?.clinic || null);
+    } catch (error) {
+      console.error('Error fetching clinic:', error);
+    }
+  };
+
+  const fetchStatuses = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('orders')
+        .select('status');
+
+      if (error) throw error;
+      setStatuses((data || []).map(o => o.status));
+    } catch (error) {
+      console.error('Error fetching orders:', error);
+    }
+  };
+
+  const handleLogout = async () => {
+    await supabase.auth.signOut();
+    navigate("/login");
+  };
+
+  if (!isDentist) {
+    return null;
+  }
+
+  const counts = {
+    total: statuses.length,
+    inProgress: statuses.filter(s => s === 'pending' || (IN_PROGRESS_STATUSES as string[]).includes(s)).length,
+    completed: statuses.filter(s => s === 'completed').length,
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <img src="/header-logo-new.png" alt="Logo" className="w-8 h-8" />
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Portal do Dentista</h1>
+                {clinic && <p className="text-sm text-gray-600">{clinic.name}</p>}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <ToothNumberingSelect />
+              <Button className="bg-burgundy-500 hover:bg-burgundy-600 text-white" onClick={() => navigate("/")}>
+                <Plus className="mr-2 w-4 h-4" />
+                Nova Ordem
+              </Button>
+              <Button variant="outline" onClick={handleLogout}>
+                <LogOut className="mr-2 w-4 h-4" />
+                Sair
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Summary Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-4">
+                <div className="p-3 bg-primary/10 rounded-full">
+                  <ClipboardList className="h-6 w-6 text-primary" />
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Total de Casos</p>
+                  <p className="text-2xl font-bold">{counts.total}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-4">
+                <div className="p-3 bg-blue-100 rounded-full">
+                  <Clock className="h-6 w-6 text-blue-600" />
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Em Produção</p>
+                  <p className="text-2xl font-bold">{counts.inProgress}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-4">
+                <div className="p-3 bg-green-100 rounded-full">
+                  <CheckCircle className="h-6 w-6 text-green-600" />
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Concluídos</p>
+                  <p className="text-2xl font-bold">{counts.completed}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <OrdersList />
+      </main>
+    </div>
+  );
+}
@@ -1,32 +1,68 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
 import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { ToothSelection, ToothConfig } from "@/components/tooth-selection";
 import { ToothConfiguration } from "@/components/tooth-configuration";
-import { User, FileText, Upload, Phone, Mail, MapPin, Calendar, ClipboardList, Plus, Loader2 } from "lucide-react";
+import { User, FileText, Upload, Phone, Mail, MapPin, Calendar, ClipboardList, Plus, Loader2, FilePen, Save } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { Textarea } from "@/components/ui/textarea";
 import { supabase } from "@/integrations/supabase/client";
 import { OrdersList } from "@/components/OrdersList";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { OrderFileDropzone } from "@/components/OrderFileDropzone";
+import { OrderDraftsList } from "@/components/OrderDraftsList";
+import { OrderQuoteCard } from "@/components/OrderQuoteCard";
+import { useOrderDraft } from "@/hooks/useOrderDraft";
+import { usePriceTables } from "@/hooks/usePriceTables";
+import { useDentalCatalog } from "@/hooks/useDentalCatalog";
+import { useProductionLoad } from "@/hooks/useProductionLoad";
+import { useLabCalendar } from "@/hooks/useLabCalendar";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { buildOrderItems } from "@/lib/orderItems";
+import { buildOrderFilePath, formatFileSize, type PendingFileUpload, type PendingOrderFile } from "@/lib/orderFiles";
+import { uploadFileResumable } from "@/lib/resumableUpload";
+import type { OrderDraftData } from "@/lib/orderDrafts";
+import { quoteOrder } from "@/lib/pricing";
+import { estimateDelivery } from "@/lib/deliveryEstimates";
+import { getFieldErrors, orderFormSchema, orderSchema, type OrderFormValues } from "@/lib/orderSchema";
+import type { ToothShades } from "@/lib/shades";
 
 export default function Index() {
+  const navigate = useNavigate();
   const { toast } = useToast();
+  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [userId, setUserId] = useState<string | null>(null);
+  // Clinic prices and discount apply to the quote; lab staff submitting without a clinic get lab prices
+  const [clinicId, setClinicId] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState("novo-pedido");
   const [toothConfigs, setToothConfigs] = useState<ToothConfig[]>([]);
-  const [smilePhoto, setSmilePhoto] = useState<File | null>(null);
-  const [scanFile, setScanFile] = useState<File | null>(null);
+  // Bumped to remount ToothSelection with a new initial selection (draft restore, reset)
+  const [toothSelectionKey, setToothSelectionKey] = useState(0);
+  const [pendingFiles, setPendingFiles] = useState<PendingOrderFile[]>([]);
+  const [fileUploads, setFileUploads] = useState<Record<string, PendingFileUpload>>({});
+  // Generated up front so uploads can be stored under the order's folder before the order exists;
+  // the order number itself is assigned by the database
+  const [orderId, setOrderId] = useState(() => crypto.randomUUID());
   
   const [color, setColor] = useState<string>("");
+  const [toothShades, setToothShades] = useState<ToothShades>({});
   const [deliveryDeadline, setDeliveryDeadline] = useState<string>("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [uploadMessage, setUploadMessage] = useState("");
 
-  const form = useForm({
+  const [technicalErrors, setTechnicalErrors] = useState<Record<string, string>>({});
+
+  const form = useForm<OrderFormValues>({
+    resolver: zodResolver(orderFormSchema),
     defaultValues: {
       patientId: "",
       patientName: "",
@@ -35,89 +71,205 @@ export default function Index() {
       phone: "",
       email: "",
       address: "",
-      date: "",
+      date: format(new Date(), "yyyy-MM-dd"),
       additionalNotes: "",
     },
   });
 
-  const onSubmit = async (data: any) => {
-    // Validation for required fields
-    if (toothConfigs.length === 0) {
+  useEffect(() => {
+    // Orders are submitted by signed-in clinics (or lab staff on their behalf)
+    const checkAuth = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        navigate("/login");
+        return;
+      }
+
+      setIsAuthenticated(true);
+      setUserId(session.user.id);
+
+      // Prefill the dentist section with the clinic registered for this account
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('username, clinic_id, clinic:clinics(name, phone, email, address)')
+        .eq('user_id', session.user.id)
+        .maybeSingle();
+
+      setClinicId(profile?.clinic_id || null);
+
+      if (profile?.clinic) {
+        form.reset({
+          ...form.getValues(),
+          dentistName: form.getValues("dentistName") || profile.username,
+          clinicName: profile.clinic.name,
+          phone: profile.clinic.phone || "",
+          email: profile.clinic.email || "",
+          address: profile.clinic.address || "",
+        });
+      }
+    };
+
+    checkAuth();
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      if (!session) {
+        navigate("/login");
+      }
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [navigate, form]);
+
+  const formValues = form.watch();
+  const { priceTables } = usePriceTables();
+  const quote = quoteOrder(toothConfigs, { clinicId, date: formValues.date, deliveryDeadline }, priceTables);
+  const { catalog } = useDentalCatalog();
+  const productionLoad = useProductionLoad();
+  const { labCalendar } = useLabCalendar();
+  const deliveryEstimate = estimateDelivery(toothConfigs, formValues.date, catalog, productionLoad, labCalendar);
+  const {
+    draftId,
+    restorableDraft,
+    saveToServer,
+    resumeDraft,
+    discardRestorableDraft,
+    clearDraft,
+  } = useOrderDraft(userId, {
+    values: formValues,
+    toothConfigs,
+    color,
+    toothShades,
+    deliveryDeadline,
+    files: pendingFiles.map(({ file, category }) => ({ name: file.name, size: file.size, category })),
+  });
+
+  const applyDraft = (draft: OrderDraftData, id: string | null) => {
+    form.reset(draft.values);
+    setToothConfigs(draft.toothConfigs);
+    setToothSelectionKey(key => key + 1);
+    setColor(draft.color);
+    setToothShades(draft.toothShades || {});
+    setDeliveryDeadline(draft.deliveryDeadline);
+    setTechnicalErrors({});
+    resumeDraft(id);
+    setActiveTab("novo-pedido");
+
+    if (draft.files.length > 0) {
+      toast({
+        title: "Rascunho restaurado",
+        description: `Anexe novamente os arquivos: ${draft.files.map(f => f.name).join(", ")}.`,
+      });
+    }
+  };
+
+  const handleSaveDraft = async () => {
+    try {
+      await saveToServer();
+      toast({
+        title: "Rascunho salvo",
+        description: "O rascunho ficará disponível para toda a clínica na aba Rascunhos.",
+      });
+    } catch (error) {
+      console.error('Error saving draft:', error);
       toast({
-        title: "Seleção de Dentes Obrigatória",
-        description: "Por favor, selecione pelo menos um dente antes de enviar.",
+        title: "Erro ao salvar rascunho",
+        description: "Não foi possível salvar o rascunho no servidor.",
         variant: "destructive",
       });
-      return;
     }
+  };
+
+  const onSubmit = async (values: OrderFormValues) => {
+    const result = orderSchema.safeParse({ ...values, color, deliveryDeadline, toothConfigs, toothShades });
 
-    if (!color) {
+    if (!result.success) {
+      const errors = getFieldErrors(result.error);
+      setTechnicalErrors(errors);
       toast({
-        title: "Cor Obrigatória",
-        description: "Por favor, selecione uma cor antes de enviar.",
+        title: "Verifique os dados do pedido",
+        description: Object.values(errors)[0],
         variant: "destructive",
       });
       return;
     }
 
+    setTechnicalErrors({});
+    const data = result.data;
+
     setIsSubmitting(true);
     setUploadProgress(0);
     setUploadMessage("Preparando envio...");
     
     try {
-      const orderNumber = `OS-${Date.now()}`;
-      
       setUploadProgress(10);
       setUploadMessage("Enviando arquivos...");
 
-      // Parallel uploads for better performance
-      const uploadPromises: Promise<{ type: string; path: string | null }>[] = [];
-      const totalFiles = (smilePhoto ? 1 : 0) + (scanFile ? 1 : 0);
-      let uploadedFiles = 0;
-
-      if (smilePhoto) {
-        const fileExt = smilePhoto.name.split('.').pop();
-        const filePath = `${orderNumber}/smile.${fileExt}`;
-        uploadPromises.push(
-          supabase.storage
-            .from('order-files')
-            .upload(filePath, smilePhoto)
-            .then(({ error }) => {
-              uploadedFiles++;
-              setUploadProgress(10 + (uploadedFiles / totalFiles) * 50);
-              setUploadMessage(`Arquivo ${uploadedFiles} de ${totalFiles} enviado`);
-              return { type: 'smile', path: error ? null : filePath };
-            })
-        );
-      }
+      // Paths are reused across attempts so a retry resumes instead of starting over
+      const paths = Object.fromEntries(pendingFiles.map(({ id, file, category }) => [
+        id,
+        fileUploads[id]?.path || buildOrderFilePath(orderId, category, file),
+      ]));
+      const totalBytes = pendingFiles.reduce((sum, { file }) => sum + file.size, 0);
+      const bytesByFile: Record<string, number> = {};
+
+      const updateProgress = (id: string, bytesUploaded: number) => {
+        bytesByFile[id] = bytesUploaded;
+        const sentBytes = Object.values(bytesByFile).reduce((sum, bytes) => sum + bytes, 0);
+        setUploadProgress(10 + (sentBytes / Math.max(totalBytes, 1)) * 50);
+        setUploadMessage(`Enviando arquivos (${formatFileSize(sentBytes)} de ${formatFileSize(totalBytes)})`);
+        setFileUploads(prev => ({ ...prev, [id]: { status: 'uploading', bytesUploaded, path: paths[id] } }));
+      };
 
-      if (scanFile) {
-        const fileExt = scanFile.name.split('.').pop();
-        const filePath = `${orderNumber}/scan.${fileExt}`;
-        uploadPromises.push(
-          supabase.storage
-            .from('order-files')
-            .upload(filePath, scanFile)
-            .then(({ error }) => {
-              uploadedFiles++;
-              setUploadProgress(10 + (uploadedFiles / totalFiles) * 50);
-              setUploadMessage(`Arquivo ${uploadedFiles} de ${totalFiles} enviado`);
-              return { type: 'scan', path: error ? null : filePath };
-            })
-        );
+      // Parallel uploads for better performance
+      const uploadResults = await Promise.allSettled(
+        pendingFiles.map(async ({ id, file }) => {
+          // Already uploaded by a previous attempt
+          if (fileUploads[id]?.status === 'done') {
+            bytesByFile[id] = file.size;
+            return;
+          }
+
+          updateProgress(id, 0);
+          try {
+            await uploadFileResumable({
+              bucket: 'order-files',
+              path: paths[id],
+              file,
+              onProgress: (bytesUploaded) => updateProgress(id, bytesUploaded),
+            });
+            setFileUploads(prev => ({ ...prev, [id]: { status: 'done', bytesUploaded: file.size, path: paths[id] } }));
+          } catch (error) {
+            console.error(`Error uploading ${file.name}:`, error);
+            setFileUploads(prev => ({ ...prev, [id]: { status: 'error', bytesUploaded: bytesByFile[id] || 0, path: paths[id] } }));
+            throw error;
+          }
+        })
+      );
+
+      // The order is only created once every file is stored
+      const failedFiles = pendingFiles.filter((_, index) => uploadResults[index].status === 'rejected');
+      if (failedFiles.length > 0) {
+        toast({
+          title: "Falha no Envio de Arquivos",
+          description: `Não foi possível enviar: ${failedFiles.map(f => f.file.name).join(", ")}. Os arquivos já enviados foram mantidos; envie novamente para continuar de onde parou.`,
+          variant: "destructive",
+        });
+        return;
       }
 
-      const uploadResults = await Promise.all(uploadPromises);
-      const smilePhotoUrl = uploadResults.find(r => r.type === 'smile')?.path || null;
-      const scanFileUrl = uploadResults.find(r => r.type === 'scan')?.path || null;
-
       setUploadProgress(70);
       setUploadMessage("Salvando pedido...");
 
-      const { error: insertError } = await supabase
-        .from('orders')
-        .insert({
-          order_number: orderNumber,
+      const itemMaterials = [...new Set(data.toothConfigs.map(c => c.material).filter(Boolean))];
+
+      // Order, items and files are written in one transaction: a failure leaves nothing behind,
+      // so the same order id can be submitted again. The quote is computed and frozen there too.
+      const { data: order, error: insertError } = await supabase.rpc('create_order', {
+        _order: {
+          id: orderId,
           patient_id: data.patientId,
           patient_name: data.patientName,
           dentist_name: data.dentistName,
@@ -125,17 +277,25 @@ export default function Index() {
           phone: data.phone,
           email: data.email,
           address: data.address,
-          date: data.date || null,
-          selected_teeth: toothConfigs.map(c => c.toothNumber),
-          smile_photo_url: smilePhotoUrl,
-          scan_file_url: scanFileUrl,
-          additional_notes: data.additionalNotes + (toothConfigs.length > 0 ? `\n\n--- Configuração por Dente ---\n${toothConfigs.map(c => `Dente ${c.toothNumber}: ${c.workType}${c.implantType ? ` (${c.implantType})` : ''}${c.material ? ` [${c.material}]` : ''}`).join('\n')}` : ''),
-          material: toothConfigs.length > 0 ? toothConfigs[0].material || null : null,
+          date: data.date,
+          selected_teeth: data.toothConfigs.map(c => c.toothNumber),
+          additional_notes: data.additionalNotes || null,
+          // Only kept for single-material orders; the per-tooth detail lives in order_items
+          material: itemMaterials.length === 1 ? itemMaterials[0] : null,
           prosthesis_type: null,
-          color: color || null,
-          delivery_deadline: deliveryDeadline || null,
-          status: 'pending'
-        });
+          color: data.color,
+          delivery_deadline: data.deliveryDeadline || null,
+          status: 'pending',
+        },
+        _items: buildOrderItems(orderId, toothConfigs, data.color, data.toothShades),
+        _files: pendingFiles.map(({ id, file, category }) => ({
+          category,
+          storage_path: paths[id],
+          file_name: file.name,
+          mime_type: file.type || null,
+          size_bytes: file.size,
+        })),
+      });
 
       if (insertError) throw insertError;
 
@@ -144,16 +304,21 @@ export default function Index() {
 
       toast({
         title: "Ordem de Serviço Enviada",
-        description: "A ordem de serviço foi registrada com sucesso!",
+        description: `A ordem de serviço ${order.order_number} foi registrada com sucesso!`,
       });
 
-      // Reset form
-      form.reset();
+      // Reset form, keeping the clinic details for the next case
+      const { dentistName, clinicName, phone, email, address } = form.getValues();
+      form.reset({ ...form.formState.defaultValues, dentistName, clinicName, phone, email, address });
       setToothConfigs([]);
-      setSmilePhoto(null);
-      setScanFile(null);
+      setToothSelectionKey(key => key + 1);
+      setPendingFiles([]);
+      setFileUploads({});
+      setOrderId(crypto.randomUUID());
       setColor("");
+      setToothShades({});
       setDeliveryDeadline("");
+      await clearDraft();
     } catch (error) {
       console.error('Error submitting order:', error);
       toast({
@@ -168,18 +333,32 @@ export default function Index() {
     }
   };
 
-  const handleSmilePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setSmilePhoto(e.target.files[0]);
+  const handlePendingFilesChange = (files: PendingOrderFile[]) => {
+    // Files removed after a failed attempt may already be stored
+    const removedPaths = pendingFiles
+      .filter(pending => !files.some(f => f.id === pending.id) && fileUploads[pending.id]?.status === 'done')
+      .map(pending => fileUploads[pending.id].path);
+
+    if (removedPaths.length > 0) {
+      // Storage reports objects it was not allowed to delete by leaving them out of `data`
+      supabase.storage.from('order-files').remove(removedPaths).then(({ data, error }) => {
+        if (!error && data?.length === removedPaths.length) return;
+        console.error('Error removing uploaded files:', error);
+        toast({
+          title: "Erro ao remover arquivo",
+          description: "O arquivo já enviado não pôde ser apagado do servidor, mas não será anexado ao pedido.",
+          variant: "destructive",
+        });
+      });
     }
-  };
 
-  const handleScanFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setScanFile(e.target.files[0]);
-    }
+    setPendingFiles(files);
   };
 
+  if (!isAuthenticated) {
+    return null;
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -190,16 +369,16 @@ export default function Index() {
               <img src="/header-logo-new.png" alt="Logo" className="w-8 h-8" />
               <h1 className="text-2xl font-bold text-gray-900">Laboratório Odontológico</h1>
             </div>
-            <Button variant="outline" onClick={() => window.location.href = "/login"}>
-              Área Admin
+            <Button variant="outline" onClick={() => navigate("/login")}>
+              Minha Área
             </Button>
           </div>
         </div>
       </header>
 
       <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <Tabs defaultValue="novo-pedido" className="w-full">
-          <TabsList className="grid w-full max-w-md mx-auto grid-cols-2 mb-8">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+          <TabsList className="grid w-full max-w-lg mx-auto grid-cols-3 mb-8">
             <TabsTrigger value="novo-pedido" className="flex items-center gap-2">
               <Plus className="w-4 h-4" />
               Novo Pedido
@@ -208,9 +387,35 @@ export default function Index() {
               <ClipboardList className="w-4 h-4" />
               Ver Pedidos
             </TabsTrigger>
+            <TabsTrigger value="rascunhos" className="flex items-center gap-2">
+              <FilePen className="w-4 h-4" />
+              Rascunhos
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="novo-pedido">
+            {restorableDraft && (
+              <Alert className="mb-8">
+                <FilePen className="h-4 w-4" />
+                <AlertTitle>Rascunho não enviado</AlertTitle>
+                <AlertDescription className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                  <span>
+                    Encontramos um pedido em preenchimento
+                    {restorableDraft.values.patientName && ` para ${restorableDraft.values.patientName}`}, salvo em{" "}
+                    {format(new Date(restorableDraft.savedAt), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}.
+                  </span>
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={() => applyDraft(restorableDraft, restorableDraft.draftId || null)}>
+                      Retomar rascunho
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={discardRestorableDraft}>
+                      Descartar
+                    </Button>
+                  </div>
+                </AlertDescription>
+              </Alert>
+            )}
+
             {/* Form Title */}
             <div className="mb-8 text-center">
               <h2 className="text-3xl font-bold text-gray-900 mb-2">Ordem de Serviço Odontológica</h2>
@@ -370,16 +575,33 @@ export default function Index() {
                 </Card>
 
                 {/* Tooth Selection */}
-                <ToothSelection onSelectionChange={setToothConfigs} />
+                <div className="space-y-2">
+                  <ToothSelection
+                    key={toothSelectionKey}
+                    initialConfigs={toothConfigs}
+                    onSelectionChange={setToothConfigs}
+                  />
+                  {technicalErrors.toothConfigs && (
+                    <p className="text-sm font-medium text-destructive">{technicalErrors.toothConfigs}</p>
+                  )}
+                </div>
 
                 {/* Technical Configuration */}
                 <ToothConfiguration 
                   color={color}
                   deliveryDeadline={deliveryDeadline}
+                  deliveryEstimate={deliveryEstimate}
+                  toothConfigs={toothConfigs}
+                  toothShades={toothShades}
                   onColorChange={setColor}
                   onDeliveryDeadlineChange={setDeliveryDeadline}
+                  onToothShadesChange={setToothShades}
+                  errors={technicalErrors}
                 />
 
+                {/* Live quote from the price tables */}
+                <OrderQuoteCard quote={quote} />
+
                 {/* File Upload Section */}
                 <Card>
                   <CardHeader>
@@ -388,33 +610,13 @@ export default function Index() {
                       Arquivos e Documentos
                     </CardTitle>
                   </CardHeader>
-                  <CardContent className="space-y-4">
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <div className="space-y-2">
-                        <label className="text-sm font-medium">Foto do Sorriso</label>
-                        <Input
-                          type="file"
-                          accept="image/*"
-                          onChange={handleSmilePhotoChange}
-                          className="cursor-pointer"
-                        />
-                        {smilePhoto && (
-                          <p className="text-sm text-green-600">✓ {smilePhoto.name}</p>
-                        )}
-                      </div>
-
-                      <div className="space-y-2">
-                        <label className="text-sm font-medium">Arquivo do Escaneamento</label>
-                        <Input
-                          type="file"
-                          onChange={handleScanFileChange}
-                          className="cursor-pointer"
-                        />
-                        {scanFile && (
-                          <p className="text-sm text-green-600">✓ {scanFile.name}</p>
-                        )}
-                      </div>
-                    </div>
+                  <CardContent>
+                    <OrderFileDropzone
+                      files={pendingFiles}
+                      uploads={fileUploads}
+                      onChange={handlePendingFilesChange}
+                      disabled={isSubmitting}
+                    />
                   </CardContent>
                 </Card>
 
@@ -453,21 +655,33 @@ export default function Index() {
                       </p>
                     </div>
                   )}
-                  <Button
-                    type="submit"
-                    size="lg"
-                    className="w-full md:w-auto bg-burgundy-500 hover:bg-burgundy-600 text-white px-12"
-                    disabled={isSubmitting}
-                  >
-                    {isSubmitting ? (
-                      <>
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Enviando...
-                      </>
-                    ) : (
-                      "Enviar Ordem de Serviço"
-                    )}
-                  </Button>
+                  <div className="flex w-full flex-col gap-3 md:w-auto md:flex-row">
+                    <Button
+                      type="button"
+                      size="lg"
+                      variant="outline"
+                      onClick={handleSaveDraft}
+                      disabled={isSubmitting}
+                    >
+                      <Save className="mr-2 h-4 w-4" />
+                      Salvar Rascunho
+                    </Button>
+                    <Button
+                      type="submit"
+                      size="lg"
+                      className="w-full md:w-auto bg-burgundy-500 hover:bg-burgundy-600 text-white px-12"
+                      disabled={isSubmitting}
+                    >
+                      {isSubmitting ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Enviando...
+                        </>
+                      ) : (
+                        "Enviar Ordem de Serviço"
+                      )}
+                    </Button>
+                  </div>
                 </div>
               </form>
             </Form>
@@ -476,6 +690,10 @@ export default function Index() {
           <TabsContent value="lista-pedidos">
             <OrdersList />
           </TabsContent>
+
+          <TabsContent value="rascunhos">
+            <OrderDraftsList activeDraftId={draftId} onResume={(draft, id) => applyDraft(draft, id)} />
+          </TabsContent>
         </Tabs>
       </main>
 
@@ -4,10 +4,22 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Lock, Mail, ArrowLeft } from "lucide-react";
+import { Lock, Mail, ArrowLeft, Building2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 
+// Dentists land on their clinic dashboard, lab staff on the admin panel
+const getHomeRoute = async (userId: string) => {
+  const { data: roles } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', userId);
+
+  const isDentist = roles?.some(r => r.role === 'dentist');
+  const isAdmin = roles?.some(r => r.role === 'admin');
+  return isDentist && !isAdmin ? "/dentista" : "/admin";
+};
+
 export default function Login() {
   const navigate = useNavigate();
   const { toast } = useToast();
@@ -16,12 +28,15 @@ export default function Login() {
   const [username, setUsername] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [isSignUp, setIsSignUp] = useState(false);
+  const [accountType, setAccountType] = useState<"lab" | "dentist">("lab");
+  const [clinicName, setClinicName] = useState("");
+  const [clinicPhone, setClinicPhone] = useState("");
 
   useEffect(() => {
     // Check if user is already logged in
     supabase.auth.getSession().then(({ data: { session } }) => {
       if (session) {
-        navigate("/admin");
+        getHomeRoute(session.user.id).then((route) => navigate(route));
       }
     });
   }, [navigate]);
@@ -50,7 +65,7 @@ export default function Login() {
           title: "Login realizado com sucesso",
           description: "Bem-vindo ao sistema!",
         });
-        navigate("/admin");
+        navigate(await getHomeRoute(data.session.user.id));
       }
     } catch (error) {
       toast({
@@ -78,14 +93,31 @@ export default function Login() {
         return;
       }
 
+      if (accountType === "dentist" && !clinicName.trim()) {
+        toast({
+          title: "Campo obrigatório",
+          description: "Por favor, insira o nome da clínica.",
+          variant: "destructive",
+        });
+        setIsLoading(false);
+        return;
+      }
+
       const { data, error } = await supabase.auth.signUp({
         email,
         password,
         options: {
-          data: {
-            username: username.trim(),
-          },
-          emailRedirectTo: `${window.location.origin}/admin`,
+          data: accountType === "dentist"
+            ? {
+                username: username.trim(),
+                account_type: "dentist",
+                clinic_name: clinicName.trim(),
+                phone: clinicPhone.trim(),
+              }
+            : {
+                username: username.trim(),
+              },
+          emailRedirectTo: `${window.location.origin}${accountType === "dentist" ? "/dentista" : "/admin"}`,
         },
       });
 
@@ -101,12 +133,16 @@ export default function Login() {
       if (data.user) {
         toast({
           title: "Conta criada com sucesso!",
-          description: "Sua conta foi criada. Para ter acesso ao painel admin, entre em contato com o administrador.",
+          description: accountType === "dentist"
+            ? "Sua conta da clínica foi criada. Confirme seu email e faça login para enviar pedidos."
+            : "Sua conta foi criada. Para ter acesso ao painel admin, entre em contato com o administrador.",
         });
         setIsSignUp(false);
         setEmail("");
         setPassword("");
         setUsername("");
+        setClinicName("");
+        setClinicPhone("");
       }
     } catch (error) {
       toast({
@@ -140,7 +176,7 @@ export default function Login() {
             <img src="/header-logo-new.png" alt="Logo" className="w-8 h-8" />
             <h1 className="text-2xl font-bold text-gray-900">Laboratório Odontológico</h1>
           </div>
-          <p className="text-gray-600">Painel Administrativo</p>
+          <p className="text-gray-600">Portal de Clínicas e Painel Administrativo</p>
         </div>
 
         {/* Login Card */}
@@ -153,6 +189,26 @@ export default function Login() {
           </CardHeader>
           <CardContent>
             <form onSubmit={isSignUp ? handleSignUp : handleLogin} className="space-y-4">
+              {isSignUp && (
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    type="button"
+                    variant={accountType === "dentist" ? "default" : "outline"}
+                    onClick={() => setAccountType("dentist")}
+                  >
+                    <Building2 className="mr-2" size={16} />
+                    Clínica / Dentista
+                  </Button>
+                  <Button
+                    type="button"
+                    variant={accountType === "lab" ? "default" : "outline"}
+                    onClick={() => setAccountType("lab")}
+                  >
+                    Equipe do Laboratório
+                  </Button>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label htmlFor="email">Email</Label>
                 <div className="relative">
@@ -183,6 +239,32 @@ export default function Login() {
                 </div>
               )}
 
+              {isSignUp && accountType === "dentist" && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="clinicName">Nome da Clínica</Label>
+                    <Input
+                      id="clinicName"
+                      type="text"
+                      placeholder="Nome da clínica odontológica"
+                      value={clinicName}
+                      onChange={(e) => setClinicName(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="clinicPhone">Telefone</Label>
+                    <Input
+                      id="clinicPhone"
+                      type="tel"
+                      placeholder="(00) 00000-0000"
+                      value={clinicPhone}
+                      onChange={(e) => setClinicPhone(e.target.value)}
+                    />
+                  </div>
+                </>
+              )}
+
               <div className="space-y-2">
                 <Label htmlFor="password">Senha</Label>
                 <div className="relative">
@@ -220,7 +302,7 @@ export default function Login() {
           </CardContent>
         </Card>
 
-        {isSignUp && (
+        {isSignUp && accountType === "lab" && (
           <div className="mt-4 p-4 bg-blue-50 border border-blue-200 rounded-lg">
             <p className="text-sm text-blue-800">
               <strong>Atenção:</strong> Após criar sua conta, você precisará de permissões de administrador para acessar o painel. Copie o ID do seu usuário e execute o SQL fornecido nas instruções.
@@ -6,9 +6,12 @@ import { Button } from "@/components/ui/button";
 import { ArrowLeft, Edit3, Check, Plus, RotateCcw, Package, Maximize2, Minimize2 } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import type { Session } from "@supabase/supabase-js";
 import { Production3DScene } from "@/components/production/Production3DScene";
 import { ProductionSidebar } from "@/components/production/ProductionSidebar";
+import { OrderScanInput } from "@/components/OrderScanInput";
+import { DELIVERED_STATUSES, getScanAdvanceStatus, getStatusLabel, type ProductionStation } from "@/lib/orderWorkflow";
 
 interface Order {
   id: string;
@@ -54,6 +57,15 @@ const DEFAULT_STATIONS: StationConfig[] = [
   { id: "saida", title: "Saída", x: 0, y: 320, width: 80, height: 90, color: "#10b981", stationType: "saida" },
 ];
 
+// Bench stations where trays are scanned; "auto" just takes the next step
+const SCAN_STATIONS: { value: ProductionStation | "auto"; label: string }[] = [
+  { value: "auto", label: "Próxima etapa" },
+  { value: "fresadora", label: "Fresadora" },
+  { value: "vazado", label: "Vazado" },
+  { value: "maquiagem", label: "Maquiagem" },
+  { value: "pureto", label: "Pureto" },
+];
+
 export default function Production() {
   const navigate = useNavigate();
   const { toast } = useToast();
@@ -67,6 +79,9 @@ export default function Production() {
   const [selectedPerson, setSelectedPerson] = useState<string | null>(null);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [scanStation, setScanStation] = useState<ProductionStation | "auto">(
+    () => (localStorage.getItem('production-scan-station') as ProductionStation | null) || "auto"
+  );
 
   const handleSelectOrder = (order: Order | null) => {
     setSelectedOrder(order);
@@ -133,6 +148,35 @@ export default function Production() {
     }
   };
 
+  const handleScanStationChange = (value: string) => {
+    setScanStation(value as ProductionStation | "auto");
+    localStorage.setItem('production-scan-station', value);
+  };
+
+  // A tray scanned at a station advances its order; the list refreshes through the realtime channel
+  const handleScannedOrder = async (order: Order) => {
+    const nextStatus = getScanAdvanceStatus(order.status, scanStation === "auto" ? undefined : scanStation);
+    if (!nextStatus) {
+      toast({
+        title: "Etapa não permitida",
+        description: `${order.order_number} está em "${getStatusLabel(order.status)}" e não pode avançar nesta estação.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      // Status history is recorded by the database trigger on orders.status
+      const { error } = await supabase.from('orders').update({ status: nextStatus }).eq('id', order.id);
+      if (error) throw error;
+      setSelectedOrder({ ...order, status: nextStatus });
+      toast({ title: "Status atualizado", description: `${order.order_number}: ${getStatusLabel(order.status)} → ${getStatusLabel(nextStatus)}` });
+    } catch (error) {
+      console.error('Error updating status:', error);
+      toast({ title: "Erro ao atualizar", description: "Não foi possível atualizar o status.", variant: "destructive" });
+    }
+  };
+
   const handleToggleEditMode = () => {
     if (isEditMode) {
       localStorage.setItem('production-stations-v2', JSON.stringify(stations));
@@ -178,7 +222,7 @@ export default function Production() {
   };
 
   const completedOrders = orders.filter(order => 
-    ['completed', 'entregue-provisorio', 'fresado-provisorio'].includes(order.status)
+    (DELIVERED_STATUSES as string[]).includes(order.status)
   );
 
   if (loading) {
@@ -218,6 +262,22 @@ export default function Production() {
         </h1>
         
         <div className="flex gap-2">
+          <Select value={scanStation} onValueChange={handleScanStationChange}>
+            <SelectTrigger className="h-9 w-[150px] bg-slate-900/60 text-cyan-400 border-cyan-500/50" title="Estação de leitura">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SCAN_STATIONS.map(station => (
+                <SelectItem key={station.value} value={station.value}>{station.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <OrderScanInput
+            orders={orders}
+            onScan={handleScannedOrder}
+            placeholder="Escanear caixa"
+            className="w-[200px] [&_input]:h-9 [&_input]:bg-slate-900/60 [&_input]:text-cyan-100 [&_input]:border-cyan-500/50"
+          />
           <Button
             variant="outline"
             size="sm"
@@ -0,0 +1,119 @@
+import { useState, useEffect } from "react";
+import { useParams } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { PackageSearch, Calendar, CheckCircle } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { getStatusColor, getStatusLabel } from "@/lib/orderWorkflow";
+import type { OrderTracking } from "@/lib/tracking";
+
+export default function Tracking() {
+  const { token } = useParams<{ token: string }>();
+  const [tracking, setTracking] = useState<OrderTracking | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchTracking = async () => {
+      if (!token) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const { data, error } = await supabase.rpc('get_order_tracking', { _token: token });
+
+        if (error) throw error;
+        setTracking(data as unknown as OrderTracking | null);
+      } catch (error) {
+        console.error('Error fetching order tracking:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTracking();
+  }, [token]);
+
+  const formatDate = (dateStr: string | null) => {
+    if (!dateStr) return "-";
+    // Plain dates (yyyy-MM-dd) are parsed as local dates to avoid a one-day shift
+    const [year, month, day] = dateStr.slice(0, 10).split('-').map(Number);
+    return format(new Date(year, month - 1, day), "dd/MM/yyyy", { locale: ptBR });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center space-x-3">
+            <img src="/header-logo-new.png" alt="Logo" className="w-8 h-8" />
+            <h1 className="text-2xl font-bold text-gray-900">Laboratório Odontológico</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {loading ? (
+          <div className="text-center py-8 text-muted-foreground">Carregando...</div>
+        ) : !tracking ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              Pedido não encontrado. Verifique se o link de rastreio está correto.
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-3">
+                <PackageSearch className="text-burgundy-500" size={20} />
+                Rastreio - OS {tracking.order_number}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="bg-muted p-4 rounded-lg space-y-2">
+                  <p className="text-sm text-muted-foreground">Status atual</p>
+                  <Badge variant="outline" className={getStatusColor(tracking.status)}>
+                    {getStatusLabel(tracking.status)}
+                  </Badge>
+                </div>
+                <div className="bg-muted p-4 rounded-lg space-y-2">
+                  <p className="text-sm text-muted-foreground flex items-center gap-2">
+                    <Calendar className="h-4 w-4" />
+                    Previsão de entrega
+                  </p>
+                  <p className="font-semibold">{formatDate(tracking.delivery_deadline)}</p>
+                </div>
+              </div>
+
+              <div>
+                <h3 className="font-semibold mb-3 text-lg">Histórico</h3>
+                <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+                  {tracking.timeline.map((entry, index) => (
+                    <li key={`${entry.status}-${entry.changed_at}`} className="ml-4">
+                      <div
+                        className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${
+                          index === tracking.timeline.length - 1 ? 'bg-burgundy-500' : 'bg-gray-300'
+                        }`}
+                      />
+                      <p className="font-medium flex items-center gap-2">
+                        {getStatusLabel(entry.status)}
+                        {entry.status === 'completed' && <CheckCircle className="h-4 w-4 text-green-600" />}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {format(new Date(entry.changed_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+                      </p>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
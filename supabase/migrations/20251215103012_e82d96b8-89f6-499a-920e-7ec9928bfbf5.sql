@@ -0,0 +1,77 @@
+-- Create order_items table to store the per-tooth configuration of each order
+CREATE TABLE public.order_items (
+  id uuid NOT NULL PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  tooth_number text NOT NULL,
+  work_type text NOT NULL,
+  implant_type text,
+  material text,
+  shade text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (order_id, tooth_number)
+);
+
+CREATE INDEX idx_order_items_order_id ON public.order_items(order_id);
+CREATE INDEX idx_order_items_material ON public.order_items(material);
+CREATE INDEX idx_order_items_work_type ON public.order_items(work_type);
+
+-- Enable RLS on order_items
+ALTER TABLE public.order_items ENABLE ROW LEVEL SECURITY;
+
+-- Items follow the same visibility as their orders
+CREATE POLICY "Anyone can view order items"
+ON public.order_items
+FOR SELECT
+USING (true);
+
+-- The public form inserts items right after creating the order
+CREATE POLICY "Anyone can create order items"
+ON public.order_items
+FOR INSERT
+TO anon, authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Admins can update order items"
+ON public.order_items
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete order items"
+ON public.order_items
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Backfill items from the "Configuração por Dente" block previously appended to additional_notes
+INSERT INTO public.order_items (order_id, tooth_number, work_type, implant_type, material, shade)
+SELECT DISTINCT ON (o.id, m[1])
+  o.id,
+  m[1],
+  m[2],
+  NULLIF(m[3], ''),
+  NULLIF(m[4], ''),
+  o.color
+FROM public.orders o
+CROSS JOIN LATERAL regexp_matches(
+  o.additional_notes,
+  'Dente (\d+): ([a-z0-9_]+)(?: \(([^)]*)\))?(?: \[([^\]]*)\])?',
+  'g'
+) AS m
+WHERE o.additional_notes LIKE '%--- Configuração por Dente ---%'
+ON CONFLICT (order_id, tooth_number) DO NOTHING;
+
+-- Strip the now redundant text block from the notes. updated_at is left alone: it still tells
+-- when the order was last really changed (the status history backfill relies on it).
+ALTER TABLE public.orders DISABLE TRIGGER update_orders_updated_at;
+
+UPDATE public.orders
+SET additional_notes = NULLIF(btrim(split_part(additional_notes, '--- Configuração por Dente ---', 1), E' \n\r\t'), '')
+WHERE additional_notes LIKE '%--- Configuração por Dente ---%';
+
+ALTER TABLE public.orders ENABLE TRIGGER update_orders_updated_at;
+
+-- Enable realtime for order_items
+ALTER TABLE public.order_items REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.order_items;
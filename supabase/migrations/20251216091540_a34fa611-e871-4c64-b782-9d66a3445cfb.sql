@@ -0,0 +1,92 @@
+-- Order status workflow: valid statuses and allowed transitions.
+-- Mirrors ORDER_STATUS_TRANSITIONS in src/lib/orderWorkflow.ts.
+
+-- Normalize legacy values before constraining the column, keeping updated_at (the status
+-- history backfill dates the last change from it)
+ALTER TABLE public.orders DISABLE TRIGGER update_orders_updated_at;
+
+UPDATE public.orders SET status = 'fresado-definitivo' WHERE status = 'fresado';
+
+ALTER TABLE public.orders ENABLE TRIGGER update_orders_updated_at;
+
+ALTER TABLE public.orders
+ADD CONSTRAINT orders_status_check CHECK (status IN (
+  'pending',
+  'in-progress',
+  'projetando',
+  'projetado',
+  'fresado-provisorio',
+  'entregue-provisorio',
+  'fresado-definitivo',
+  'vazado',
+  'maquiagem',
+  'pureto',
+  'completed'
+));
+
+-- Allowed status transitions
+CREATE TABLE public.order_status_transitions (
+  from_status text NOT NULL,
+  to_status text NOT NULL,
+  PRIMARY KEY (from_status, to_status)
+);
+
+ALTER TABLE public.order_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view status transitions"
+ON public.order_status_transitions
+FOR SELECT
+USING (true);
+
+INSERT INTO public.order_status_transitions (from_status, to_status) VALUES
+  ('pending', 'in-progress'),
+  ('pending', 'projetando'),
+  ('in-progress', 'projetando'),
+  ('in-progress', 'pending'),
+  ('projetando', 'projetado'),
+  ('projetando', 'fresado-provisorio'),
+  ('projetando', 'pending'),
+  ('projetado', 'fresado-definitivo'),
+  ('fresado-provisorio', 'entregue-provisorio'),
+  ('entregue-provisorio', 'projetado'),
+  ('entregue-provisorio', 'completed'),
+  ('fresado-definitivo', 'vazado'),
+  ('fresado-definitivo', 'maquiagem'),
+  ('vazado', 'maquiagem'),
+  ('vazado', 'pureto'),
+  ('maquiagem', 'pureto'),
+  ('maquiagem', 'completed'),
+  ('pureto', 'completed');
+
+-- Reject inserts outside the initial status and updates that skip steps
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending' THEN
+      RAISE EXCEPTION 'New orders must start as pending (got %)', NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT EXISTS (
+    SELECT 1
+    FROM public.order_status_transitions
+    WHERE from_status = OLD.status AND to_status = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'Invalid status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_order_status_transition
+BEFORE INSERT OR UPDATE OF status ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_order_status_transition();
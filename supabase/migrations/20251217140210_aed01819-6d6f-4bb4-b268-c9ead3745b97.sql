@@ -0,0 +1,116 @@
+-- Status history table (created earlier through the dashboard on existing projects)
+CREATE TABLE IF NOT EXISTS public.order_status_history (
+  id uuid NOT NULL PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  old_status text,
+  new_status text NOT NULL,
+  changed_by uuid,
+  changed_at timestamp with time zone NOT NULL DEFAULT now(),
+  duration_seconds integer
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order_id
+ON public.order_status_history(order_id, changed_at);
+
+ALTER TABLE public.order_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Changes made through SQL or service keys have no auth.uid()
+ALTER TABLE public.order_status_history ALTER COLUMN changed_by DROP NOT NULL;
+
+-- History is now written exclusively by the trigger below: drop client write policies
+DO $$
+DECLARE
+  _policy record;
+BEGIN
+  FOR _policy IN
+    SELECT policyname
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename = 'order_status_history'
+      AND cmd IN ('INSERT', 'UPDATE', 'DELETE', 'ALL')
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.order_status_history', _policy.policyname);
+  END LOOP;
+END;
+$$;
+
+DROP POLICY IF EXISTS "Authenticated users can view status history" ON public.order_status_history;
+
+CREATE POLICY "Authenticated users can view status history"
+ON public.order_status_history
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Record every status change with server time and the acting user
+CREATE OR REPLACE FUNCTION public.record_order_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _previous_changed_at timestamp with time zone;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.order_status_history (order_id, old_status, new_status, changed_by, changed_at)
+    VALUES (NEW.id, NULL, NEW.status, auth.uid(), now());
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT changed_at INTO _previous_changed_at
+  FROM public.order_status_history
+  WHERE order_id = NEW.id
+  ORDER BY changed_at DESC
+  LIMIT 1;
+
+  INSERT INTO public.order_status_history (order_id, old_status, new_status, changed_by, changed_at, duration_seconds)
+  VALUES (
+    NEW.id,
+    OLD.status,
+    NEW.status,
+    auth.uid(),
+    now(),
+    floor(extract(epoch FROM now() - COALESCE(_previous_changed_at, OLD.created_at)))::integer
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_order_status_change
+AFTER INSERT OR UPDATE OF status ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.record_order_status_change();
+
+-- Backfill: creation row for orders without any history
+INSERT INTO public.order_status_history (order_id, old_status, new_status, changed_by, changed_at)
+SELECT o.id, NULL, 'pending', NULL, o.created_at
+FROM public.orders o
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.order_status_history h WHERE h.order_id = o.id
+);
+
+-- Backfill: close the gap for orders whose current status was never recorded
+-- (e.g. changed from the details dialog, via SQL, or after a failed client insert)
+INSERT INTO public.order_status_history (order_id, old_status, new_status, changed_by, changed_at, duration_seconds)
+SELECT
+  o.id,
+  last_entry.new_status,
+  o.status,
+  o.assigned_to,
+  GREATEST(o.updated_at, last_entry.changed_at),
+  floor(extract(epoch FROM GREATEST(o.updated_at, last_entry.changed_at) - last_entry.changed_at))::integer
+FROM public.orders o
+CROSS JOIN LATERAL (
+  SELECT h.new_status, h.changed_at
+  FROM public.order_status_history h
+  WHERE h.order_id = o.id
+  ORDER BY h.changed_at DESC
+  LIMIT 1
+) AS last_entry
+WHERE last_entry.new_status IS DISTINCT FROM o.status;
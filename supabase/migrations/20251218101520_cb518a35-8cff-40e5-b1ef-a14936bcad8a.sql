@@ -0,0 +1,3 @@
+-- Add dentist role for clinic accounts (kept in its own migration: new enum
+-- values cannot be used in the transaction that creates them)
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'dentist';
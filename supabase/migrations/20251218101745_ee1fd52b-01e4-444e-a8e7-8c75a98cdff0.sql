@@ -0,0 +1,220 @@
+-- Clinics: dentist accounts belong to a clinic and only see that clinic's orders
+CREATE TABLE public.clinics (
+  id uuid NOT NULL PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  phone text,
+  email text,
+  address text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.clinics ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_clinics_updated_at
+BEFORE UPDATE ON public.clinics
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.profiles
+ADD COLUMN clinic_id uuid REFERENCES public.clinics(id) ON DELETE SET NULL;
+
+-- Lab staff are the accounts granted the admin or user role
+CREATE OR REPLACE FUNCTION public.is_lab_staff(_user_id uuid)
+RETURNS boolean
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id AND role IN ('admin', 'user')
+  )
+$$;
+
+-- Every clinic policy trusts profiles.clinic_id (see current_clinic_id below), so only lab staff
+-- may assign an account to a clinic. Sign-up (handle_new_user) and migrations run without a user.
+CREATE OR REPLACE FUNCTION public.protect_profile_clinic()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NEW.clinic_id IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN OLD.clinic_id END)
+    AND NOT public.is_lab_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only the lab can change the clinic of an account'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profile_clinic
+BEFORE INSERT OR UPDATE OF clinic_id ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_profile_clinic();
+
+-- Clinic of the current user (NULL for lab staff and anonymous visitors)
+CREATE OR REPLACE FUNCTION public.current_clinic_id()
+RETURNS uuid
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT clinic_id
+  FROM public.profiles
+  WHERE user_id = auth.uid()
+$$;
+
+CREATE POLICY "Lab staff can view all clinics"
+ON public.clinics
+FOR SELECT
+TO authenticated
+USING (public.is_lab_staff(auth.uid()));
+
+CREATE POLICY "Dentists can view their own clinic"
+ON public.clinics
+FOR SELECT
+TO authenticated
+USING (id = public.current_clinic_id());
+
+CREATE POLICY "Dentists can update their own clinic"
+ON public.clinics
+FOR UPDATE
+TO authenticated
+USING (id = public.current_clinic_id())
+WITH CHECK (id = public.current_clinic_id());
+
+CREATE POLICY "Admins can manage clinics"
+ON public.clinics
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Clinic sign-up: create the clinic and grant the dentist role along with the profile
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _clinic_id uuid;
+BEGIN
+  IF new.raw_user_meta_data->>'account_type' = 'dentist' THEN
+    INSERT INTO public.clinics (name, phone, email)
+    VALUES (
+      COALESCE(NULLIF(btrim(new.raw_user_meta_data->>'clinic_name'), ''), split_part(new.email, '@', 1)),
+      NULLIF(btrim(new.raw_user_meta_data->>'phone'), ''),
+      new.email
+    )
+    RETURNING id INTO _clinic_id;
+
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (new.id, 'dentist');
+  END IF;
+
+  INSERT INTO public.profiles (user_id, username, clinic_id)
+  VALUES (
+    new.id,
+    COALESCE(new.raw_user_meta_data->>'username', split_part(new.email, '@', 1)),
+    _clinic_id
+  );
+  RETURN new;
+END;
+$$;
+
+-- Orders are linked to the submitting clinic
+ALTER TABLE public.orders
+ADD COLUMN clinic_id uuid REFERENCES public.clinics(id) ON DELETE SET NULL DEFAULT public.current_clinic_id();
+
+CREATE INDEX idx_orders_clinic_id ON public.orders(clinic_id);
+
+-- Revert the public read access added for the open orders list
+DROP POLICY IF EXISTS "Anyone can view orders" ON public.orders;
+DROP POLICY IF EXISTS "Anyone can create orders" ON public.orders;
+
+CREATE POLICY "Lab staff can view all orders"
+ON public.orders
+FOR SELECT
+TO authenticated
+USING (public.is_lab_staff(auth.uid()));
+
+CREATE POLICY "Dentists can view their clinic orders"
+ON public.orders
+FOR SELECT
+TO authenticated
+USING (clinic_id IS NOT NULL AND clinic_id = public.current_clinic_id());
+
+CREATE POLICY "Signed-in users can create orders"
+ON public.orders
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  public.is_lab_staff(auth.uid())
+  OR (clinic_id IS NOT NULL AND clinic_id = public.current_clinic_id())
+);
+
+DROP POLICY IF EXISTS "Anyone can view profiles" ON public.profiles;
+
+CREATE POLICY "Profiles are viewable by authenticated users"
+ON public.profiles
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Order items and status history follow the visibility of their order
+DROP POLICY IF EXISTS "Anyone can view order items" ON public.order_items;
+DROP POLICY IF EXISTS "Anyone can create order items" ON public.order_items;
+
+CREATE POLICY "Users can view items of visible orders"
+ON public.order_items
+FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM public.orders o WHERE o.id = order_id));
+
+CREATE POLICY "Users can create items for visible orders"
+ON public.order_items
+FOR INSERT
+TO authenticated
+WITH CHECK (EXISTS (SELECT 1 FROM public.orders o WHERE o.id = order_id));
+
+DROP POLICY IF EXISTS "Authenticated users can view status history" ON public.order_status_history;
+
+CREATE POLICY "Users can view history of visible orders"
+ON public.order_status_history
+FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM public.orders o WHERE o.id = order_id));
+
+-- Storage: uploads require an account; dentists only read their own orders' files
+DROP POLICY IF EXISTS "Authenticated upload order files" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated view order files" ON storage.objects;
+
+CREATE POLICY "Authenticated upload order files"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'order-files');
+
+CREATE POLICY "Authenticated view order files"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'order-files'
+  AND (
+    public.is_lab_staff(auth.uid())
+    OR EXISTS (
+      SELECT 1
+      FROM public.orders o
+      WHERE o.order_number = (storage.foldername(name))[1]
+        AND o.clinic_id = public.current_clinic_id()
+    )
+  )
+);
@@ -0,0 +1,35 @@
+-- Unguessable per-order token for the public tracking page (/rastreio/:token)
+ALTER TABLE public.orders
+ADD COLUMN tracking_token text NOT NULL
+DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+
+CREATE UNIQUE INDEX idx_orders_tracking_token ON public.orders(tracking_token);
+
+-- Tracking data for a single order: no patient, clinic or staff information
+CREATE OR REPLACE FUNCTION public.get_order_tracking(_token text)
+RETURNS json
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT json_build_object(
+    'order_number', o.order_number,
+    'status', o.status,
+    'delivery_deadline', o.delivery_deadline,
+    'created_at', o.created_at,
+    'timeline', COALESCE((
+      SELECT json_agg(
+        json_build_object('status', h.new_status, 'changed_at', h.changed_at)
+        ORDER BY h.changed_at
+      )
+      FROM public.order_status_history h
+      WHERE h.order_id = o.id
+    ), '[]'::json)
+  )
+  FROM public.orders o
+  WHERE o.tracking_token = _token
+    AND length(_token) >= 32
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_order_tracking(text) TO anon, authenticated;
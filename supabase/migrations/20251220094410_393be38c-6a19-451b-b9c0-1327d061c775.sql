@@ -0,0 +1,104 @@
+-- Lab-wide settings (single row)
+CREATE TABLE public.lab_settings (
+  id boolean NOT NULL PRIMARY KEY DEFAULT true CHECK (id),
+  order_number_prefix text NOT NULL DEFAULT 'OS' CHECK (order_number_prefix ~ '^[A-Z0-9]{1,10}$'),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.lab_settings (id) VALUES (true);
+
+ALTER TABLE public.lab_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view lab settings"
+ON public.lab_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can update lab settings"
+ON public.lab_settings
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_lab_settings_updated_at
+BEFORE UPDATE ON public.lab_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Yearly order number counters; the upsert below takes a row lock, so concurrent
+-- submits are serialized per year and never receive the same number
+CREATE TABLE public.order_number_counters (
+  year integer NOT NULL PRIMARY KEY,
+  last_value integer NOT NULL DEFAULT 0
+);
+
+ALTER TABLE public.order_number_counters ENABLE ROW LEVEL SECURITY;
+
+-- The client-side OS-<timestamp> numbers never used this sequence
+DROP SEQUENCE IF EXISTS public.order_number_seq;
+
+CREATE OR REPLACE FUNCTION public.next_order_number()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _year integer := extract(year FROM now() AT TIME ZONE 'America/Sao_Paulo')::integer;
+  _value integer;
+  _prefix text;
+BEGIN
+  INSERT INTO public.order_number_counters AS c (year, last_value)
+  VALUES (_year, 1)
+  ON CONFLICT (year) DO UPDATE SET last_value = c.last_value + 1
+  RETURNING last_value INTO _value;
+
+  SELECT order_number_prefix INTO _prefix FROM public.lab_settings WHERE id;
+
+  RETURN format('%s-%s-%s', COALESCE(_prefix, 'OS'), _year, lpad(_value::text, 6, '0'));
+END;
+$$;
+
+-- Only the trigger below hands out numbers; clients calling it would burn them
+REVOKE EXECUTE ON FUNCTION public.next_order_number() FROM PUBLIC, anon, authenticated;
+
+-- Order numbers are always assigned by the database, ignoring any client value. Runs as the
+-- owner so it can call next_order_number whoever inserts the order.
+CREATE OR REPLACE FUNCTION public.assign_order_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.order_number := public.next_order_number();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_order_number
+BEFORE INSERT ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_order_number();
+
+-- Uploads are now stored under <order id>/; keep order-number folders readable for older orders
+DROP POLICY IF EXISTS "Authenticated view order files" ON storage.objects;
+
+CREATE POLICY "Authenticated view order files"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'order-files'
+  AND (
+    public.is_lab_staff(auth.uid())
+    OR EXISTS (
+      SELECT 1
+      FROM public.orders o
+      WHERE (o.id::text = (storage.foldername(name))[1] OR o.order_number = (storage.foldername(name))[1])
+        AND o.clinic_id = public.current_clinic_id()
+    )
+  )
+);
@@ -0,0 +1,52 @@
+-- Multiple categorized attachments per order.
+-- Storage layout: order-files/<order id>/<category>/<uuid>-<file name>
+CREATE TABLE public.order_files (
+  id uuid NOT NULL PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  category text NOT NULL CHECK (category IN ('scan_upper', 'scan_lower', 'scan', 'bite', 'photo', 'xray', 'document')),
+  storage_path text NOT NULL UNIQUE,
+  file_name text NOT NULL,
+  mime_type text,
+  size_bytes bigint,
+  uploaded_by uuid DEFAULT auth.uid(),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_order_files_order_id ON public.order_files(order_id);
+
+ALTER TABLE public.order_files ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view files of visible orders"
+ON public.order_files
+FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM public.orders o WHERE o.id = order_id));
+
+CREATE POLICY "Users can attach files to visible orders"
+ON public.order_files
+FOR INSERT
+TO authenticated
+WITH CHECK (EXISTS (SELECT 1 FROM public.orders o WHERE o.id = order_id));
+
+CREATE POLICY "Admins can delete order files"
+ON public.order_files
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Backfill the single photo/scan columns into the new table
+INSERT INTO public.order_files (order_id, category, storage_path, file_name, uploaded_by, created_at)
+SELECT id, 'photo', smile_photo_url, regexp_replace(smile_photo_url, '^.*/', ''), NULL, created_at
+FROM public.orders
+WHERE smile_photo_url IS NOT NULL
+ON CONFLICT (storage_path) DO NOTHING;
+
+INSERT INTO public.order_files (order_id, category, storage_path, file_name, uploaded_by, created_at)
+SELECT id, 'scan', scan_file_url, regexp_replace(scan_file_url, '^.*/', ''), NULL, created_at
+FROM public.orders
+WHERE scan_file_url IS NOT NULL
+ON CONFLICT (storage_path) DO NOTHING;
+
+-- Enable realtime for order_files
+ALTER TABLE public.order_files REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.order_files;
@@ -0,0 +1,59 @@
+-- Server-side drafts of the order form, shared within a clinic
+CREATE TABLE public.order_drafts (
+  id uuid NOT NULL PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  clinic_id uuid REFERENCES public.clinics(id) ON DELETE CASCADE DEFAULT public.current_clinic_id(),
+  patient_name text,
+  data jsonb NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_order_drafts_clinic_id ON public.order_drafts(clinic_id);
+CREATE INDEX idx_order_drafts_user_id ON public.order_drafts(user_id);
+
+ALTER TABLE public.order_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own or clinic drafts"
+ON public.order_drafts
+FOR SELECT
+TO authenticated
+USING (
+  user_id = auth.uid()
+  OR (clinic_id IS NOT NULL AND clinic_id = public.current_clinic_id())
+);
+
+-- Drafts always stay in the author's clinic (none for lab staff)
+CREATE POLICY "Users can create own drafts"
+ON public.order_drafts
+FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid() AND clinic_id IS NOT DISTINCT FROM public.current_clinic_id());
+
+-- Colleagues may continue a clinic draft, but not move it to another clinic
+CREATE POLICY "Users can update own or clinic drafts"
+ON public.order_drafts
+FOR UPDATE
+TO authenticated
+USING (
+  user_id = auth.uid()
+  OR (clinic_id IS NOT NULL AND clinic_id = public.current_clinic_id())
+)
+WITH CHECK (
+  clinic_id IS NOT DISTINCT FROM public.current_clinic_id()
+  AND (user_id = auth.uid() OR clinic_id IS NOT NULL)
+);
+
+CREATE POLICY "Users can delete own or clinic drafts"
+ON public.order_drafts
+FOR DELETE
+TO authenticated
+USING (
+  user_id = auth.uid()
+  OR (clinic_id IS NOT NULL AND clinic_id = public.current_clinic_id())
+);
+
+CREATE TRIGGER update_order_drafts_updated_at
+BEFORE UPDATE ON public.order_drafts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
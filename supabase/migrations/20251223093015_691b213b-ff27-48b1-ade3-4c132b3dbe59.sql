@@ -0,0 +1,64 @@
+-- Per-region and stump shades per tooth; order_items.shade is the body shade
+ALTER TABLE public.order_items
+ADD COLUMN shade_cervical text,
+ADD COLUMN shade_incisal text,
+ADD COLUMN stump_shade text;
+
+-- Same rules as normalizeShade() in src/lib/shades.ts: "a3,5 " -> "A3.5", "om1" -> "0M1"
+CREATE OR REPLACE FUNCTION public.normalize_shade(_shade text)
+RETURNS text
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT NULLIF(
+    regexp_replace(
+      replace(regexp_replace(upper(_shade), '\s+', '', 'g'), ',', '.'),
+      '^OM', '0M'
+    ),
+    ''
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.normalize_order_color()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.color := public.normalize_shade(NEW.color);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_order_color
+BEFORE INSERT OR UPDATE OF color ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.normalize_order_color();
+
+CREATE OR REPLACE FUNCTION public.normalize_order_item_shades()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.shade := public.normalize_shade(NEW.shade);
+  NEW.shade_cervical := public.normalize_shade(NEW.shade_cervical);
+  NEW.shade_incisal := public.normalize_shade(NEW.shade_incisal);
+  NEW.stump_shade := public.normalize_shade(NEW.stump_shade);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_order_item_shades
+BEFORE INSERT OR UPDATE ON public.order_items
+FOR EACH ROW
+EXECUTE FUNCTION public.normalize_order_item_shades();
+
+-- Normalize the free-text shades typed so far
+UPDATE public.orders
+SET color = public.normalize_shade(color)
+WHERE color IS DISTINCT FROM public.normalize_shade(color);
+
+UPDATE public.order_items
+SET shade = public.normalize_shade(shade)
+WHERE shade IS DISTINCT FROM public.normalize_shade(shade);
@@ -0,0 +1,133 @@
+-- Work types, implant connections and materials offered when configuring a tooth.
+-- Items are disabled rather than deleted so older orders keep their labels.
+CREATE TABLE public.catalog_items (
+  id uuid NOT NULL PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL CHECK (kind IN ('work_type', 'implant_type', 'material')),
+  value text NOT NULL CHECK (value ~ '^[a-z0-9_.]+$'),
+  label text NOT NULL,
+  color text NOT NULL DEFAULT '#4b5563' CHECK (color ~ '^#[0-9a-f]{6}$'),
+  abbreviation text,
+  sort_order integer NOT NULL DEFAULT 0,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (kind, value)
+);
+
+-- Materials the lab produces for each work type; work types without rows accept any material
+CREATE TABLE public.catalog_work_type_materials (
+  work_type text NOT NULL,
+  material text NOT NULL,
+  PRIMARY KEY (work_type, material)
+);
+
+-- Quick selections applying one work type and material to a fixed set of teeth
+CREATE TABLE public.catalog_presets (
+  id uuid NOT NULL PRIMARY KEY DEFAULT gen_random_uuid(),
+  label text NOT NULL,
+  work_type text NOT NULL,
+  material text,
+  teeth text[] NOT NULL DEFAULT '{}',
+  sort_order integer NOT NULL DEFAULT 0,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.catalog_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.catalog_work_type_materials ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.catalog_presets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view catalog items"
+ON public.catalog_items
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage catalog items"
+ON public.catalog_items
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Authenticated users can view work type materials"
+ON public.catalog_work_type_materials
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage work type materials"
+ON public.catalog_work_type_materials
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Authenticated users can view catalog presets"
+ON public.catalog_presets
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage catalog presets"
+ON public.catalog_presets
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_catalog_items_updated_at
+BEFORE UPDATE ON public.catalog_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_catalog_presets_updated_at
+BEFORE UPDATE ON public.catalog_presets
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The catalog previously hard-coded in the app
+INSERT INTO public.catalog_items (kind, value, label, color, abbreviation, sort_order, active) VALUES
+  ('work_type', 'faceta', 'Faceta', '#06b6d4', NULL, 1, true),
+  ('work_type', 'onlay', 'Onlay', '#16a34a', NULL, 2, true),
+  ('work_type', 'enceramento', 'Enceramento', '#34d399', NULL, 3, true),
+  ('work_type', 'coping', 'Coping', '#fde68a', NULL, 4, true),
+  ('work_type', 'provisorio_oco', 'Provisório Oco', '#ca8a04', NULL, 5, true),
+  ('work_type', 'pontico', 'Pôntico', '#881337', NULL, 6, true),
+  ('work_type', 'sobre_dente', 'Sobre Dente', '#9333ea', NULL, 7, true),
+  ('work_type', 'sobre_implante', 'Sobre Implante', '#1e40af', NULL, 8, true),
+  -- Only applied through its preset, so not offered in the tooth dialog
+  ('work_type', 'placa_miorrelaxante', 'Placa Miorrelaxante', '#4b5563', NULL, 9, false),
+  ('implant_type', 'pilar_gt', 'Pilar GT', '#d97706', NULL, 1, true),
+  ('implant_type', 'he_4.1_sem_link', 'HE 4.1 (Sem link)', '#0891b2', NULL, 2, true),
+  ('implant_type', 'he_4.1_com_link', 'HE 4.1 (Com Link)', '#4f46e5', NULL, 3, true),
+  ('implant_type', 'mini_pilar', 'Mini-Pilar', '#e11d48', NULL, 4, true),
+  ('implant_type', 'munhao_universal_3.3x4', 'Munhão Universal (3.3x4)', '#db2777', NULL, 5, true),
+  ('implant_type', 'munhao_universal_3.3x6', 'Munhão Universal (3.3x6)', '#7c3aed', NULL, 6, true),
+  ('implant_type', 'munhao_universal_4.5x4', 'Munhão Universal (4.5x4)', '#ea580c', NULL, 7, true),
+  ('implant_type', 'munhao_universal_4.5x6', 'Munhão Universal (4.5x6)', '#c026d3', NULL, 8, true),
+  ('implant_type', 'pilar_cm_ws', 'PILAR CM_WS', '#0d9488', NULL, 9, true),
+  ('material', 'dissilicato', 'Dissilicato', '#475569', 'Diss', 1, true),
+  ('material', 'zirconia', 'Zirconia', '#78716c', 'ZrO2', 2, true),
+  ('material', 'pmma', 'PMMA', '#71717a', NULL, 3, true),
+  ('material', 'modelo_3d', 'Modelo 3D', '#525252', NULL, 4, true),
+  -- Order-level materials used before per-tooth configuration; kept for the admin filter
+  ('material', 'cera', 'Cera', '#9ca3af', NULL, 5, false),
+  ('material', 'resina_3d', 'Resina 3D', '#9ca3af', NULL, 6, false),
+  ('material', 'gesso', 'Gesso', '#9ca3af', NULL, 7, false);
+
+INSERT INTO public.catalog_work_type_materials (work_type, material) VALUES
+  ('faceta', 'dissilicato'), ('faceta', 'zirconia'), ('faceta', 'pmma'),
+  ('onlay', 'dissilicato'), ('onlay', 'zirconia'), ('onlay', 'pmma'),
+  ('enceramento', 'modelo_3d'), ('enceramento', 'pmma'),
+  ('coping', 'zirconia'), ('coping', 'pmma'),
+  ('provisorio_oco', 'pmma'),
+  ('pontico', 'dissilicato'), ('pontico', 'zirconia'), ('pontico', 'pmma'),
+  ('sobre_dente', 'dissilicato'), ('sobre_dente', 'zirconia'), ('sobre_dente', 'pmma'),
+  ('sobre_implante', 'dissilicato'), ('sobre_implante', 'zirconia'), ('sobre_implante', 'pmma'),
+  ('placa_miorrelaxante', 'pmma');
+
+INSERT INTO public.catalog_presets (label, work_type, material, teeth, sort_order) VALUES
+  ('Placa Miorrelaxante', 'placa_miorrelaxante', 'pmma',
+   ARRAY['16', '15', '14', '13', '12', '11', '21', '22', '23', '24', '25', '26'], 1);
@@ -0,0 +1,76 @@
+-- Presets now store a full tooth configuration and can be saved by the lab (clinic_id NULL)
+-- or by a clinic; unshared presets are only visible to whoever saved them
+ALTER TABLE public.catalog_presets
+ADD COLUMN configs jsonb NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN clinic_id uuid REFERENCES public.clinics(id) ON DELETE CASCADE DEFAULT public.current_clinic_id(),
+ADD COLUMN created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+ADD COLUMN shared boolean NOT NULL DEFAULT true;
+
+UPDATE public.catalog_presets
+SET configs = (
+  SELECT jsonb_agg(
+    jsonb_strip_nulls(jsonb_build_object('toothNumber', tooth, 'workType', work_type, 'material', material))
+    ORDER BY ordinality
+  )
+  FROM unnest(teeth) WITH ORDINALITY AS t(tooth, ordinality)
+);
+
+ALTER TABLE public.catalog_presets
+DROP COLUMN work_type,
+DROP COLUMN material,
+DROP COLUMN teeth;
+
+CREATE INDEX idx_catalog_presets_clinic_id ON public.catalog_presets(clinic_id);
+
+DROP POLICY "Authenticated users can view catalog presets" ON public.catalog_presets;
+DROP POLICY "Admins can manage catalog presets" ON public.catalog_presets;
+
+CREATE POLICY "Users can view own, lab and clinic presets"
+ON public.catalog_presets
+FOR SELECT
+TO authenticated
+USING (
+  created_by = auth.uid()
+  OR (shared AND (clinic_id IS NULL OR clinic_id = public.current_clinic_id()))
+);
+
+CREATE POLICY "Users can create lab or clinic presets"
+ON public.catalog_presets
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  created_by = auth.uid()
+  AND (
+    (clinic_id IS NULL AND public.is_lab_staff(auth.uid()))
+    OR clinic_id = public.current_clinic_id()
+  )
+);
+
+-- The edited row must still be one the user could have created (no moving it to another clinic)
+CREATE POLICY "Owners and admins can update presets"
+ON public.catalog_presets
+FOR UPDATE
+TO authenticated
+USING (
+  created_by = auth.uid()
+  OR (clinic_id IS NULL AND public.has_role(auth.uid(), 'admin'))
+)
+WITH CHECK (
+  (
+    created_by = auth.uid()
+    OR (clinic_id IS NULL AND public.has_role(auth.uid(), 'admin'))
+  )
+  AND (
+    (clinic_id IS NULL AND public.is_lab_staff(auth.uid()))
+    OR clinic_id = public.current_clinic_id()
+  )
+);
+
+CREATE POLICY "Owners and admins can delete presets"
+ON public.catalog_presets
+FOR DELETE
+TO authenticated
+USING (
+  created_by = auth.uid()
+  OR (clinic_id IS NULL AND public.has_role(auth.uid(), 'admin'))
+);
@@ -0,0 +1,8 @@
+-- Bridges, splinted crowns and bars: the teeth of a connected unit share unit_id.
+-- Pontics are the items with work_type 'pontico'; the other teeth of the unit are abutments.
+ALTER TABLE public.order_items
+ADD COLUMN unit_id uuid,
+ADD COLUMN unit_type text CHECK (unit_type IN ('bridge', 'splint', 'bar')),
+ADD CONSTRAINT order_items_unit_check CHECK ((unit_id IS NULL) = (unit_type IS NULL));
+
+CREATE INDEX idx_order_items_unit_id ON public.order_items(unit_id);
@@ -0,0 +1,4 @@
+-- Tooth numbering system each user reads and types teeth in. Teeth stay stored in FDI.
+ALTER TABLE public.profiles
+ADD COLUMN tooth_numbering text NOT NULL DEFAULT 'fdi'
+  CHECK (tooth_numbering IN ('fdi', 'universal', 'palmer'));
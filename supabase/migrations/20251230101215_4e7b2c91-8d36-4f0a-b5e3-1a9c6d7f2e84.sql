@@ -0,0 +1,98 @@
+-- Price tables: lab prices (clinic_id NULL) and per-clinic overrides, keyed by work type,
+-- material and implant connection. NULL material / implant_type match any value; the most
+-- specific entry wins (see src/lib/pricing.ts).
+CREATE TABLE public.price_table_entries (
+  id uuid NOT NULL PRIMARY KEY DEFAULT gen_random_uuid(),
+  clinic_id uuid REFERENCES public.clinics(id) ON DELETE CASCADE,
+  work_type text NOT NULL,
+  material text,
+  implant_type text,
+  price numeric(10,2) NOT NULL CHECK (price >= 0),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (clinic_id, work_type, material, implant_type)
+);
+
+CREATE INDEX idx_price_table_entries_clinic_id ON public.price_table_entries(clinic_id);
+
+-- Discount applied to every order of a clinic, after the per-tooth prices
+CREATE TABLE public.clinic_pricing (
+  clinic_id uuid NOT NULL PRIMARY KEY REFERENCES public.clinics(id) ON DELETE CASCADE,
+  discount_percent numeric(5,2) NOT NULL DEFAULT 0 CHECK (discount_percent >= 0 AND discount_percent <= 100),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Urgency surcharges: an order due within max_days of its request date gets the
+-- surcharge of the tightest matching tier
+CREATE TABLE public.price_urgency_surcharges (
+  id uuid NOT NULL PRIMARY KEY DEFAULT gen_random_uuid(),
+  max_days integer NOT NULL UNIQUE CHECK (max_days >= 0),
+  surcharge_percent numeric(5,2) NOT NULL CHECK (surcharge_percent >= 0),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.price_table_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.clinic_pricing ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.price_urgency_surcharges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view lab and own clinic prices"
+ON public.price_table_entries
+FOR SELECT
+TO authenticated
+USING (
+  clinic_id IS NULL
+  OR clinic_id = public.current_clinic_id()
+  OR public.is_lab_staff(auth.uid())
+);
+
+CREATE POLICY "Admins can manage prices"
+ON public.price_table_entries
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view own clinic pricing"
+ON public.clinic_pricing
+FOR SELECT
+TO authenticated
+USING (
+  clinic_id = public.current_clinic_id()
+  OR public.is_lab_staff(auth.uid())
+);
+
+CREATE POLICY "Admins can manage clinic pricing"
+ON public.clinic_pricing
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Authenticated users can view urgency surcharges"
+ON public.price_urgency_surcharges
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage urgency surcharges"
+ON public.price_urgency_surcharges
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_price_table_entries_updated_at
+BEFORE UPDATE ON public.price_table_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_clinic_pricing_updated_at
+BEFORE UPDATE ON public.clinic_pricing
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Quote computed when the order was submitted. It is kept as is when prices change later;
+-- price_quote holds the breakdown (lines, discount, surcharge) shown to the lab.
+ALTER TABLE public.orders
+ADD COLUMN price_total numeric(10,2) CHECK (price_total >= 0),
+ADD COLUMN price_quote jsonb;
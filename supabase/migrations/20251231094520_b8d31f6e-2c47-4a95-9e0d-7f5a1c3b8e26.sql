@@ -0,0 +1,209 @@
+-- Monthly invoices: each clinic's orders completed in a month are billed together.
+-- Items keep the order number, patient and amount so statements survive order deletion.
+CREATE TABLE public.invoices (
+  id uuid NOT NULL PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_number text NOT NULL UNIQUE,
+  clinic_id uuid NOT NULL REFERENCES public.clinics(id) ON DELETE RESTRICT,
+  period date NOT NULL CHECK (extract(day FROM period) = 1),
+  due_date date NOT NULL,
+  total numeric(10,2) NOT NULL DEFAULT 0,
+  -- Unpaid while NULL; overdue once due_date has passed
+  paid_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (clinic_id, period)
+);
+
+CREATE TABLE public.invoice_items (
+  id uuid NOT NULL PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id uuid NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  order_id uuid UNIQUE REFERENCES public.orders(id) ON DELETE SET NULL,
+  order_number text NOT NULL,
+  patient_name text NOT NULL,
+  completed_at timestamp with time zone NOT NULL,
+  amount numeric(10,2) NOT NULL DEFAULT 0 CHECK (amount >= 0),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Invoice number counters per billed month, locked like order_number_counters so numbers are
+-- never reused, even after an invoice is deleted
+CREATE TABLE public.invoice_number_counters (
+  period date NOT NULL PRIMARY KEY,
+  last_value integer NOT NULL DEFAULT 0
+);
+
+ALTER TABLE public.invoice_number_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_invoices_period ON public.invoices(period);
+CREATE INDEX idx_invoice_items_invoice_id ON public.invoice_items(invoice_id);
+
+-- Days after the end of the billed month until payment is due
+ALTER TABLE public.lab_settings
+ADD COLUMN invoice_due_days integer NOT NULL DEFAULT 10 CHECK (invoice_due_days >= 0);
+
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Dentists can view their clinic invoices"
+ON public.invoices
+FOR SELECT
+TO authenticated
+USING (clinic_id = public.current_clinic_id());
+
+CREATE POLICY "Admins can manage invoices"
+ON public.invoices
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Invoice items follow their invoice"
+ON public.invoice_items
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.invoices i
+    WHERE i.id = invoice_id AND i.clinic_id = public.current_clinic_id()
+  )
+);
+
+CREATE POLICY "Admins can manage invoice items"
+ON public.invoice_items
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_invoices_updated_at
+BEFORE UPDATE ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- invoices.total is always the sum of its items
+CREATE OR REPLACE FUNCTION public.update_invoice_total()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.invoices
+  SET total = (
+    SELECT COALESCE(sum(amount), 0)
+    FROM public.invoice_items
+    WHERE invoice_id = COALESCE(NEW.invoice_id, OLD.invoice_id)
+  )
+  WHERE id = COALESCE(NEW.invoice_id, OLD.invoice_id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER update_invoice_total
+AFTER INSERT OR UPDATE OF amount OR DELETE ON public.invoice_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_invoice_total();
+
+-- Orders completed in the given month that are not on an invoice. The completion date is the
+-- last change to 'completed' in the status history (São Paulo time). Also listed on the billing
+-- page, so orders left out of the invoices (no clinic, month invoice already paid) are visible.
+CREATE OR REPLACE FUNCTION public.get_unbilled_orders(_period date)
+RETURNS TABLE (
+  id uuid,
+  clinic_id uuid,
+  clinic_name text,
+  order_number text,
+  patient_name text,
+  amount numeric,
+  completed_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT o.id, o.clinic_id, o.clinic_name, o.order_number, o.patient_name, COALESCE(o.price_total, 0), c.completed_at
+  FROM public.orders o
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(max(h.changed_at), o.updated_at) AS completed_at
+    FROM public.order_status_history h
+    WHERE h.order_id = o.id AND h.new_status = 'completed'
+  ) c
+  WHERE o.status = 'completed'
+    AND date_trunc('month', c.completed_at AT TIME ZONE 'America/Sao_Paulo')::date = date_trunc('month', _period)::date
+    AND NOT EXISTS (SELECT 1 FROM public.invoice_items i WHERE i.order_id = o.id)
+  ORDER BY c.completed_at;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_unbilled_orders(date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_unbilled_orders(date) TO authenticated;
+
+-- Bills every clinic's unbilled orders completed in the given (already closed) month, adding
+-- them to the clinic's unpaid invoice for that month or a new one. Orders without a clinic or
+-- whose month invoice is already paid are left out. Returns the number of orders invoiced.
+CREATE OR REPLACE FUNCTION public.generate_invoices(_period date)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _month date := date_trunc('month', _period)::date;
+  _due_days integer;
+  _clinic record;
+  _invoice_id uuid;
+  _count integer := 0;
+  _added integer;
+  _number integer;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can generate invoices'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _month >= date_trunc('month', now() AT TIME ZONE 'America/Sao_Paulo')::date THEN
+    RAISE EXCEPTION 'Invoices can only be generated for closed months (got %)', _month
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT invoice_due_days INTO _due_days FROM public.lab_settings WHERE id;
+
+  CREATE TEMP TABLE _completed ON COMMIT DROP AS
+  SELECT u.*
+  FROM public.get_unbilled_orders(_month) u
+  WHERE u.clinic_id IS NOT NULL;
+
+  FOR _clinic IN SELECT DISTINCT clinic_id FROM _completed LOOP
+    SELECT id INTO _invoice_id
+    FROM public.invoices
+    WHERE clinic_id = _clinic.clinic_id AND period = _month;
+
+    IF _invoice_id IS NULL THEN
+      INSERT INTO public.invoice_number_counters AS c (period, last_value)
+      VALUES (_month, 1)
+      ON CONFLICT (period) DO UPDATE SET last_value = c.last_value + 1
+      RETURNING last_value INTO _number;
+
+      INSERT INTO public.invoices (invoice_number, clinic_id, period, due_date)
+      VALUES (
+        format('FAT-%s-%s', to_char(_month, 'YYYYMM'), lpad(_number::text, 4, '0')),
+        _clinic.clinic_id,
+        _month,
+        (_month + interval '1 month' - interval '1 day')::date + COALESCE(_due_days, 10)
+      )
+      RETURNING id INTO _invoice_id;
+    ELSIF EXISTS (SELECT 1 FROM public.invoices WHERE id = _invoice_id AND paid_at IS NOT NULL) THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.invoice_items (invoice_id, order_id, order_number, patient_name, completed_at, amount)
+    SELECT _invoice_id, id, order_number, patient_name, completed_at, amount
+    FROM _completed
+    WHERE clinic_id = _clinic.clinic_id
+    ORDER BY completed_at;
+
+    GET DIAGNOSTICS _added = ROW_COUNT;
+    _count := _count + _added;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
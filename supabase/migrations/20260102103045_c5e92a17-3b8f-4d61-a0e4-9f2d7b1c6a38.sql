@@ -0,0 +1,9 @@
+-- Remakes and adjustments: a new order created from a returned one keeps a link to it.
+-- Warranty remakes are not charged (price_total 0).
+ALTER TABLE public.orders
+ADD COLUMN parent_order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+ADD COLUMN remake_reason text CHECK (remake_reason IN ('fit', 'shade', 'fracture', 'design')),
+ADD COLUMN is_warranty boolean NOT NULL DEFAULT false,
+ADD CONSTRAINT orders_remake_parent_check CHECK (parent_order_id IS NULL OR remake_reason IS NOT NULL);
+
+CREATE INDEX idx_orders_parent_order_id ON public.orders(parent_order_id);
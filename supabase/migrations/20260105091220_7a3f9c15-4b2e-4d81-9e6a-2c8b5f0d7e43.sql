@@ -0,0 +1,81 @@
+-- Production lead times: working days a work type needs at the bench, plus the extra days a
+-- material adds (e.g. zirconia sintering). Used to suggest the earliest feasible delivery date
+-- on the order form (see src/lib/deliveryEstimates.ts).
+ALTER TABLE public.catalog_items
+ADD COLUMN lead_time_days integer NOT NULL DEFAULT 0 CHECK (lead_time_days >= 0);
+
+UPDATE public.catalog_items SET lead_time_days = CASE value
+  WHEN 'faceta' THEN 5
+  WHEN 'onlay' THEN 4
+  WHEN 'enceramento' THEN 2
+  WHEN 'coping' THEN 3
+  WHEN 'provisorio_oco' THEN 2
+  WHEN 'pontico' THEN 5
+  WHEN 'sobre_dente' THEN 5
+  WHEN 'sobre_implante' THEN 7
+  WHEN 'placa_miorrelaxante' THEN 3
+  ELSE 0
+END
+WHERE kind = 'work_type';
+
+UPDATE public.catalog_items SET lead_time_days = 1
+WHERE kind = 'material' AND value = 'zirconia';
+
+-- Units (teeth) each bench station can finish per working day
+CREATE TABLE public.production_station_capacity (
+  station text NOT NULL PRIMARY KEY CHECK (station IN ('projeto', 'fresadora', 'vazado', 'maquiagem', 'pureto')),
+  daily_units integer NOT NULL CHECK (daily_units > 0),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.production_station_capacity ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view station capacity"
+ON public.production_station_capacity
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage station capacity"
+ON public.production_station_capacity
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_production_station_capacity_updated_at
+BEFORE UPDATE ON public.production_station_capacity
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.production_station_capacity (station, daily_units) VALUES
+  ('projeto', 20),
+  ('fresadora', 30),
+  ('vazado', 20),
+  ('maquiagem', 15),
+  ('pureto', 20);
+
+-- Open orders and units per status. Clinics cannot read other clinics' orders, so the queue
+-- is exposed only as these counts.
+CREATE OR REPLACE FUNCTION public.get_production_queue()
+RETURNS TABLE (status text, orders bigint, units bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    o.status,
+    count(*) AS orders,
+    sum(greatest(
+      coalesce((SELECT count(*) FROM public.order_items i WHERE i.order_id = o.id), 0),
+      coalesce(array_length(o.selected_teeth, 1), 0),
+      1
+    ))::bigint AS units
+  FROM public.orders o
+  WHERE o.status <> 'completed'
+  GROUP BY o.status;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_production_queue() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_production_queue() TO authenticated;
@@ -0,0 +1,35 @@
+-- Lab calendar: working weekdays (0 = Sunday) and opening hours. Business-time durations and
+-- delivery estimates only count time inside these hours, outside holidays and closures
+-- (see src/lib/workingDays.ts).
+ALTER TABLE public.lab_settings
+ADD COLUMN work_days smallint[] NOT NULL DEFAULT '{1,2,3,4,5}' CHECK (work_days <@ '{0,1,2,3,4,5,6}'::smallint[]),
+ADD COLUMN work_start time NOT NULL DEFAULT '08:00',
+ADD COLUMN work_end time NOT NULL DEFAULT '18:00',
+ADD CONSTRAINT lab_settings_work_hours_check CHECK (work_end > work_start);
+
+-- Planned closures (collective holidays, local holidays, maintenance), inclusive date ranges
+CREATE TABLE public.lab_closures (
+  id uuid NOT NULL PRIMARY KEY DEFAULT gen_random_uuid(),
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  reason text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX idx_lab_closures_end_date ON public.lab_closures(end_date);
+
+ALTER TABLE public.lab_closures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view lab closures"
+ON public.lab_closures
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage lab closures"
+ON public.lab_closures
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,64 @@
+-- Creates an order with its tooth items and attached files in one transaction, so a failed
+-- items or files insert no longer leaves an order without items behind (and a retry with the
+-- same pre-generated id no longer fails on the duplicate). Runs with the caller's rights: the
+-- insert policies of the three tables still apply.
+CREATE OR REPLACE FUNCTION public.create_order(_order jsonb, _items jsonb, _files jsonb DEFAULT '[]'::jsonb)
+RETURNS public.orders
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _new public.orders;
+BEGIN
+  INSERT INTO public.orders (
+    id, patient_id, patient_name, dentist_name, clinic_name, clinic_id, phone, email, address,
+    date, selected_teeth, additional_notes, material, prosthesis_type, color, delivery_deadline,
+    status, parent_order_id, remake_reason, is_warranty, price_total, price_quote
+  )
+  SELECT
+    COALESCE(o.id, gen_random_uuid()), o.patient_id, o.patient_name, o.dentist_name, o.clinic_name,
+    COALESCE(o.clinic_id, public.current_clinic_id()), o.phone, o.email, o.address,
+    o.date, o.selected_teeth, o.additional_notes, o.material, o.prosthesis_type, o.color, o.delivery_deadline,
+    COALESCE(o.status, 'pending'), o.parent_order_id, o.remake_reason, COALESCE(o.is_warranty, false),
+    o.price_total, o.price_quote
+  FROM jsonb_populate_record(NULL::public.orders, _order) o
+  RETURNING * INTO _new;
+
+  INSERT INTO public.order_items (
+    order_id, tooth_number, work_type, implant_type, material, shade, shade_cervical, shade_incisal,
+    stump_shade, unit_id, unit_type
+  )
+  SELECT
+    _new.id, i.tooth_number, i.work_type, i.implant_type, i.material, i.shade, i.shade_cervical, i.shade_incisal,
+    i.stump_shade, i.unit_id, i.unit_type
+  FROM jsonb_populate_recordset(NULL::public.order_items, COALESCE(_items, '[]'::jsonb)) i;
+
+  INSERT INTO public.order_files (order_id, category, storage_path, file_name, mime_type, size_bytes)
+  SELECT _new.id, f.category, f.storage_path, f.file_name, f.mime_type, f.size_bytes
+  FROM jsonb_populate_recordset(NULL::public.order_files, COALESCE(_files, '[]'::jsonb)) f;
+
+  RETURN _new;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_order(jsonb, jsonb, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_order(jsonb, jsonb, jsonb) TO authenticated;
+
+-- Files are uploaded before the order is created; when one is removed from the form again the
+-- uploader deletes it, as long as no order references it yet. Deleting needs the row to be
+-- visible, and the order folder is not readable until the order exists.
+CREATE POLICY "Users view own uploaded order files"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (bucket_id = 'order-files' AND owner = auth.uid());
+
+CREATE POLICY "Users delete own unattached order files"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'order-files'
+  AND owner = auth.uid()
+  AND NOT EXISTS (SELECT 1 FROM public.order_files f WHERE f.storage_path = objects.name)
+);
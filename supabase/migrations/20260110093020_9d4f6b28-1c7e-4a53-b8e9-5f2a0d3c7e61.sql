@@ -0,0 +1,197 @@
+-- Quotes are computed and frozen by the database: the client quote (src/lib/pricing.ts) is only
+-- the preview shown on the order form, so a client can no longer send its own price. Keep both
+-- in sync: teeth sharing work type, material and connection form one line priced from the most
+-- specific entry, then the clinic discount and the urgency surcharge apply to the whole order.
+CREATE OR REPLACE FUNCTION public.quote_order(_clinic_id uuid, _date date, _deadline date, _items jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _lines jsonb;
+  _subtotal numeric;
+  _unpriced jsonb;
+  _discount_percent numeric;
+  _discount numeric;
+  _urgency_days integer;
+  _surcharge_percent numeric;
+  _surcharge numeric;
+BEGIN
+  WITH items AS (
+    SELECT
+      i.tooth_number,
+      i.work_type,
+      i.material,
+      CASE WHEN i.work_type = 'sobre_implante' THEN i.implant_type END AS implant_type,
+      -- Arch order (src/lib/dentition.ts ARCHES): upper, lower, upper primary, lower primary;
+      -- along each arch from the patient's right to left
+      CASE WHEN i.tooth_number ~ '^([1-4][1-8]|[5-8][1-5])$' THEN
+        ((substr(i.tooth_number, 1, 1)::int - 1) / 2) * 20
+        + CASE WHEN substr(i.tooth_number, 1, 1) IN ('1', '4', '5', '8')
+            THEN 10 - substr(i.tooth_number, 2, 1)::int
+            ELSE 10 + substr(i.tooth_number, 2, 1)::int
+          END
+      END AS arch_position
+    FROM jsonb_populate_recordset(NULL::public.order_items, COALESCE(_items, '[]'::jsonb)) i
+  ),
+  lines AS (
+    SELECT
+      work_type,
+      material,
+      implant_type,
+      array_agg(tooth_number ORDER BY arch_position NULLS LAST, tooth_number) AS teeth,
+      min(arch_position) AS first_position,
+      min(tooth_number) AS first_tooth
+    FROM items
+    GROUP BY work_type, material, implant_type
+  ),
+  priced AS (
+    SELECT
+      l.*,
+      (
+        SELECT e.price
+        FROM public.price_table_entries e
+        WHERE e.work_type = l.work_type
+          AND (e.clinic_id IS NULL OR e.clinic_id = _clinic_id)
+          AND (e.material IS NULL OR e.material = l.material)
+          AND (e.implant_type IS NULL OR e.implant_type = l.implant_type)
+        ORDER BY e.clinic_id IS NOT NULL DESC, e.material IS NOT NULL DESC, e.implant_type IS NOT NULL DESC
+        LIMIT 1
+      ) AS unit_price
+    FROM lines l
+  ),
+  totals AS (
+    SELECT p.*, round(COALESCE(p.unit_price, 0) * cardinality(p.teeth), 2) AS total
+    FROM priced p
+  )
+  SELECT
+    COALESCE(jsonb_agg(
+      jsonb_strip_nulls(jsonb_build_object('material', material, 'implantType', implant_type))
+      || jsonb_build_object('workType', work_type, 'teeth', to_jsonb(teeth), 'unitPrice', unit_price, 'total', total)
+      ORDER BY first_position NULLS LAST, first_tooth
+    ), '[]'::jsonb),
+    round(COALESCE(sum(total), 0), 2),
+    COALESCE(
+      (SELECT jsonb_agg(tooth ORDER BY t.first_position NULLS LAST, t.first_tooth, ordinality)
+       FROM totals t, unnest(t.teeth) WITH ORDINALITY AS u(tooth, ordinality)
+       WHERE t.unit_price IS NULL),
+      '[]'::jsonb
+    )
+  INTO _lines, _subtotal, _unpriced
+  FROM totals;
+
+  _discount_percent := COALESCE((SELECT discount_percent FROM public.clinic_pricing WHERE clinic_id = _clinic_id), 0);
+  _discount := round(_subtotal * _discount_percent / 100, 2);
+  _urgency_days := _deadline - _date;
+  _surcharge_percent := CASE WHEN _urgency_days IS NULL THEN 0 ELSE COALESCE(
+    (SELECT surcharge_percent FROM public.price_urgency_surcharges WHERE _urgency_days <= max_days ORDER BY max_days LIMIT 1),
+    0
+  ) END;
+  _surcharge := round((_subtotal - _discount) * _surcharge_percent / 100, 2);
+
+  RETURN jsonb_build_object(
+    'lines', _lines,
+    'subtotal', _subtotal,
+    'discountPercent', _discount_percent,
+    'discount', _discount,
+    'urgencyDays', _urgency_days,
+    'surchargePercent', _surcharge_percent,
+    'surcharge', _surcharge,
+    'total', round(_subtotal - _discount + _surcharge, 2),
+    'unpricedTeeth', _unpriced
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.quote_order(uuid, date, date, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.quote_order(uuid, date, date, jsonb) TO authenticated;
+
+-- create_order becomes the only way for dentists and lab staff to create orders. It runs with
+-- the owner's rights, so it enforces what the insert policies did and freezes the quote itself:
+-- dentists order for their own clinic, only admins create remakes and warranty orders (which
+-- are not charged), and price_total / price_quote sent by the client are ignored.
+CREATE OR REPLACE FUNCTION public.create_order(_order jsonb, _items jsonb, _files jsonb DEFAULT '[]'::jsonb)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.orders;
+  _clinic_id uuid;
+  _quote jsonb;
+  _new public.orders;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = '42501';
+  END IF;
+
+  _request := jsonb_populate_record(NULL::public.orders, _order);
+
+  IF public.is_lab_staff(auth.uid()) THEN
+    _clinic_id := _request.clinic_id;
+  ELSE
+    _clinic_id := public.current_clinic_id();
+    IF _clinic_id IS NULL OR _clinic_id IS DISTINCT FROM COALESCE(_request.clinic_id, _clinic_id) THEN
+      RAISE EXCEPTION 'Orders can only be created for your own clinic' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  IF NOT public.has_role(auth.uid(), 'admin')
+    AND (_request.parent_order_id IS NOT NULL OR _request.remake_reason IS NOT NULL OR COALESCE(_request.is_warranty, false)) THEN
+    RAISE EXCEPTION 'Only admins can create remake orders' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT COALESCE(_request.is_warranty, false) THEN
+    _quote := public.quote_order(_clinic_id, _request.date, _request.delivery_deadline, _items);
+  END IF;
+
+  INSERT INTO public.orders (
+    id, patient_id, patient_name, dentist_name, clinic_name, clinic_id, phone, email, address,
+    date, selected_teeth, additional_notes, material, prosthesis_type, color, delivery_deadline,
+    status, parent_order_id, remake_reason, is_warranty, price_total, price_quote
+  )
+  VALUES (
+    COALESCE(_request.id, gen_random_uuid()), _request.patient_id, _request.patient_name, _request.dentist_name,
+    _request.clinic_name, _clinic_id, _request.phone, _request.email, _request.address,
+    _request.date, _request.selected_teeth, _request.additional_notes, _request.material, _request.prosthesis_type,
+    _request.color, _request.delivery_deadline,
+    COALESCE(_request.status, 'pending'), _request.parent_order_id, _request.remake_reason,
+    COALESCE(_request.is_warranty, false), COALESCE((_quote ->> 'total')::numeric, 0), _quote
+  )
+  RETURNING * INTO _new;
+
+  INSERT INTO public.order_items (
+    order_id, tooth_number, work_type, implant_type, material, shade, shade_cervical, shade_incisal,
+    stump_shade, unit_id, unit_type
+  )
+  SELECT
+    _new.id, i.tooth_number, i.work_type, i.implant_type, i.material, i.shade, i.shade_cervical, i.shade_incisal,
+    i.stump_shade, i.unit_id, i.unit_type
+  FROM jsonb_populate_recordset(NULL::public.order_items, COALESCE(_items, '[]'::jsonb)) i;
+
+  INSERT INTO public.order_files (order_id, category, storage_path, file_name, mime_type, size_bytes)
+  SELECT _new.id, f.category, f.storage_path, f.file_name, f.mime_type, f.size_bytes
+  FROM jsonb_populate_recordset(NULL::public.order_files, COALESCE(_files, '[]'::jsonb)) f;
+
+  RETURN _new;
+END;
+$$;
+
+-- Direct inserts would skip the quote, so they are left to admins
+DROP POLICY IF EXISTS "Signed-in users can create orders" ON public.orders;
+
+CREATE POLICY "Admins can create orders"
+ON public.orders
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+DROP POLICY IF EXISTS "Users can create items for visible orders" ON public.order_items;
+
+CREATE POLICY "Admins can create order items"
+ON public.order_items
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));